@@ -3,29 +3,58 @@ import { ConfigValue } from '.';
 
 export type CacheMode = 'skip' | 'clear' | true;
 
+/**
+ * max age of a cache entry - either a number of seconds, or a duration string like `30m`, `1h`, `7d`
+ * */
+export type CacheMaxAge = number | `${number}${'s' | 'm' | 'h' | 'd'}`;
+
+const MAX_AGE_UNITS_IN_SECONDS = {
+  s: 1,
+  m: 60,
+  h: 60 * 60,
+  d: 60 * 60 * 24,
+};
+export function cacheMaxAgeToMs(maxAge: CacheMaxAge) {
+  if (_.isNumber(maxAge)) return maxAge * 1000;
+  const matches = maxAge.match(/^(\d+(?:\.\d+)?)([smhd])$/);
+  if (!matches) throw new Error(`Invalid cache max age "${maxAge}"`);
+  const unit = matches[2] as keyof typeof MAX_AGE_UNITS_IN_SECONDS;
+  return parseFloat(matches[1]) * MAX_AGE_UNITS_IN_SECONDS[unit] * 1000;
+}
+
+export type CacheItemOptions = {
+  /** how long before the cached value is considered stale, defaults to never */
+  maxAge?: CacheMaxAge,
+};
+
+export type GetCacheItemOptions = CacheItemOptions & {
+  /** fn to fetch a fresh value, which enables stale-while-revalidate (if turned on) */
+  revalidate?: () => Promise<ConfigValue>,
+};
+
 export abstract class ConfigraphCachingProvider {
   protected cacheLastLoadedAt: Date | undefined;
   protected items: Record<string, ConfigraphCacheEntry> = {};
 
-  async getItem(key: string, nodeFullPath: string) {
-    if (this.items[key]) {
-      this.items[key].usedByItems.add(nodeFullPath);
-      return this.items[key].value as ConfigValue;
+  /**
+   * get a cached value, entries older than `maxAge` are ignored unless `allowStale` is set
+   * */
+  async getItem(key: string, nodeFullPath: string, opts?: CacheItemOptions & { allowStale?: boolean }) {
+    const entry = this.items[key];
+    if (entry) {
+      if (entry.isExpired(opts?.maxAge) && !opts?.allowStale) return undefined;
+      entry.usedByItems.add(nodeFullPath);
+      return entry.value as ConfigValue;
     }
   }
 
-  async setItem(key: string, value: ConfigValue, nodeFullPath: string) {
-    const existingItem = this.items[key];
-    if (existingItem) {
-      // TODO: update the existing item?
-      this.items[key] = new ConfigraphCacheEntry(key, value, {
-        usedBy: nodeFullPath,
-      });
-    } else {
-      this.items[key] = new ConfigraphCacheEntry(key, value, {
-        usedBy: nodeFullPath,
-      });
-    }
+  // expiry is checked on read (see `getItem`) so maxAge is not used here
+  // but it is passed through in case a provider wants to use it (ex: to set a TTL in a remote store)
+  async setItem(key: string, value: ConfigValue, nodeFullPath: string, _opts?: CacheItemOptions) {
+    // TODO: update the existing item?
+    this.items[key] = new ConfigraphCacheEntry(key, value, {
+      usedBy: nodeFullPath,
+    });
   }
 
   abstract load(): Promise<void>;
@@ -52,7 +81,10 @@ export class ConfigraphCacheEntry {
     // we store the value passed rather than recalculating so the cache file won't churn
     this.encryptedValue = more?.encryptedValue;
   }
-}
-
-
 
+  /** checks if the entry is older than the max age, which is set by whoever reads it */
+  isExpired(maxAge?: CacheMaxAge) {
+    if (maxAge === undefined) return false;
+    return this.updatedAt.getTime() + cacheMaxAgeToMs(maxAge) <= Date.now();
+  }
+}
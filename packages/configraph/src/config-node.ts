@@ -2,20 +2,21 @@ import _ from 'lodash-es';
 import Debug from 'debug';
 
 import {
-  CoercionError, ValidationError, ResolutionError,
+  CoercionError, ValidationError, ResolutionError, ConfigraphError, SchemaError, serializeErrors, toSchemaError,
 } from './errors';
 
 import {
-  ConfigraphBaseTypes, ConfigraphDataType, ConfigraphDataTypeDefinitionOrShorthand,
+  ConfigraphBaseTypes, ConfigraphDataType, ConfigraphDataTypeDefinitionOrShorthand, CoercionStep,
 } from './data-types';
 import {
-  ConfigValue, ConfigValueResolver,
+  ConfigValue, ConfigValueResolver, InlineValueResolverDef,
   ResolverContext,
   resolverCtxAls,
+  processInlineResolverDef,
 } from './resolvers';
 import { createdPickedValueResolver } from './resolvers/pick';
 
-import { ConfigraphEntity } from './entity';
+import { ConfigraphEntity, PickTypeOverrides } from './entity';
 import { ConfigraphDataTypeDefinition, SerializedConfigraphNode } from '.';
 
 const debug = Debug('configraph:node');
@@ -42,9 +43,39 @@ export class WaitingForChildResolutionError extends ResolutionError {
 }
 
 
+/** details about how a node got its value - see `ConfigraphNode.getValueProvenance` */
+export type ConfigraphNodeProvenance = {
+  fullPath: string,
+  /** where the raw value came from */
+  source: 'override' | 'parent' | 'resolver' | 'none',
+  /** all overrides for the node - only the first is active */
+  overrides: Array<ConfigValueOverride & { isActive: boolean }>,
+  /** value passed down from the parent object, if applicable */
+  valueFromParent?: ConfigValue,
+  /** full paths of the node(s) this was picked from, nearest first */
+  pickedFrom: Array<string>,
+  /** the resolver, followed by the resolver of each active branch */
+  resolvers: Array<{
+    label?: string,
+    icon?: string,
+    createdByPluginId?: string,
+    /** the branch that selected this resolver, if it is within a branched resolver */
+    branch?: { id: string, label: string, isDefault: boolean },
+    cacheKey?: string,
+    isUsingCache: boolean,
+  }>,
+  resolvedRawValue?: ConfigValue,
+  coercionSteps: Array<CoercionStep>,
+  resolvedValue?: ConfigValue,
+  dependencies: Array<{ fullPath: string, type: 'schema' | 'resolution' }>,
+};
+
 export type PickedNodeDef<NodeMetadata = unknown> = {
   sourceNode: ConfigraphNode<NodeMetadata>,
   transformValue?: (val: any) => any,
+  /** replaces the picked value, while still depending on the source node */
+  value?: InlineValueResolverDef,
+  typeOverrides?: PickTypeOverrides<NodeMetadata>,
 };
 
 //! probably want to add a restriction on node keys?
@@ -55,6 +86,39 @@ export type PickedNodeDef<NodeMetadata = unknown> = {
 const VALID_ITEM_KEY_REGEX = /^[a-z]\w+$/i;
 
 
+/** converts a node schema (which may use a shorthand) into a full type definition */
+function getTypeDefFromShorthand<NodeMetadata>(
+  defOrShorthand: ConfigraphDataTypeDefinitionOrShorthand<NodeMetadata>,
+): ConfigraphDataTypeDefinition<unknown, unknown> {
+  // similar logic that the data types uses when handling extends
+  // except we always create a new "inline" type as the last in the chain
+  // see note in the node constructor about linking to type registry
+  let typeDef: ConfigraphDataTypeDefinition<unknown, unknown>;
+  if (_.isString(defOrShorthand)) {
+    if (!ConfigraphBaseTypes[defOrShorthand]) {
+      throw new SchemaError(`found invalid parent (string) in extends chain - "${defOrShorthand}"`);
+    } else {
+      typeDef = { extends: ConfigraphBaseTypes[defOrShorthand]({}) };
+    }
+  } else if (_.isFunction(defOrShorthand)) {
+    // in this case, we have no settings to pass through, so we pass an empty object
+    const shorthandFnResult = defOrShorthand({});
+    if (!ConfigraphDataType.checkInstanceOf(shorthandFnResult)) {
+      throw new SchemaError('invalid schema as result of fn shorthand');
+    } else {
+      typeDef = { extends: shorthandFnResult };
+    }
+  } else if (ConfigraphDataType.checkInstanceOf(defOrShorthand)) {
+    // TODO: without proper instanceof check, we must resort to `as any`
+    typeDef = { extends: defOrShorthand as any };
+  } else if (_.isObject(defOrShorthand)) {
+    typeDef = defOrShorthand;
+  } else {
+    throw new SchemaError('invalid item schema');
+  }
+  return typeDef;
+}
+
 export class ConfigraphNode<NodeMetadata = any> {
   /** full chain of items up to the actual config item */
   readonly pickFromNode?: ConfigraphNode<NodeMetadata>;
@@ -72,60 +136,51 @@ export class ConfigraphNode<NodeMetadata = any> {
       const pickDef = defOrShorthand;
       this.pickFromNode = pickDef.sourceNode;
 
-      // TODO: will need to deal with overriding some parts of the type
-      // and probably need to clone / extend it
-      this.type = this.pickFromNode.type as any;
+      // overridden type options are layered on top of the source type by extending it
+      this.type = pickDef.typeOverrides
+        ? new ConfigraphDataType<unknown, NodeMetadata>(
+          { ...pickDef.typeOverrides, extends: this.pickFromNode.type } as any,
+          undefined,
+          undefined,
+          this.parentEntity?.graphRoot?.defaultDataTypeRegistry as any,
+        )
+        : this.pickFromNode.type as any;
       if (this.pickFromNode.children) {
         _.each(this.pickFromNode.children, (sourceChild, childKey) => {
           this.children[childKey] = new (this.constructor as any)(sourceChild.key, { sourceNode: sourceChild }, this);
         });
       }
 
-      // this may end up following up multiple picked + transformed parents
-      this.valueResolver = createdPickedValueResolver(this.pickFromNode, pickDef.transformValue);
+      this.itemType = this.pickFromNode.itemType;
+
+      if ('value' in pickDef) {
+        this.valueResolver = processInlineResolverDef(pickDef.value);
+        if (this.valueResolver.isAttachedToNode) this.valueResolver = this.valueResolver.clone();
+        // we keep the dependency on the source, so it is resolved first and usable via `ctx.getPickedValue()`
+        this.valueResolver.dependsOnPathsObj[this.pickFromNode.fullPath] = 'schema';
+      } else {
+        // this may end up following up multiple picked + transformed parents
+        this.valueResolver = createdPickedValueResolver(this.pickFromNode, pickDef.transformValue);
+      }
       this.valueResolver.configNode = this;
 
       return;
     }
 
 
-    // similar logic that the data types uses when handling extends
-    // except we always create a new "inline" type as the last in the chain
-    // see note below about linking to type registry
-    let typeDef: ConfigraphDataTypeDefinition<unknown, unknown>;
-    if (_.isString(defOrShorthand)) {
-      if (!ConfigraphBaseTypes[defOrShorthand]) {
-        throw new Error(`found invalid parent (string) in extends chain - "${defOrShorthand}"`);
-      } else {
-        typeDef = { extends: ConfigraphBaseTypes[defOrShorthand]({}) };
-      }
-    } else if (_.isFunction(defOrShorthand)) {
-      // in this case, we have no settings to pass through, so we pass an empty object
-      const shorthandFnResult = defOrShorthand({});
-      if (!ConfigraphDataType.checkInstanceOf(shorthandFnResult)) {
-        // TODO: put this in schema error instead?
-        throw new Error('invalid schema as result of fn shorthand');
-      } else {
-        typeDef = { extends: shorthandFnResult };
-      }
-    } else if (ConfigraphDataType.checkInstanceOf(defOrShorthand)) {
-      // TODO: without proper instanceof check, we must resort to `as any`
-      typeDef = { extends: defOrShorthand as any };
-    } else if (_.isObject(defOrShorthand)) {
-      typeDef = defOrShorthand;
-    } else {
-      // TODO: put this in schema error instead?
-      throw new Error('invalid item schema');
+    // link back to the "type registry" connected to the graph root
+    // so that we know the shape of the metadata
+    const typeRegistry = this.parentEntity?.graphRoot?.defaultDataTypeRegistry as any;
+    try {
+      const typeDef = getTypeDefFromShorthand(defOrShorthand);
+      // TODO: better typing - remove these "as any"s
+      this.type = new ConfigraphDataType<unknown, NodeMetadata>(typeDef as any, undefined, undefined, typeRegistry);
+    } catch (err) {
+      // an invalid schema falls back to a default type, so the rest of the graph can still be processed
+      this.type = new ConfigraphDataType<unknown, NodeMetadata>({} as any, undefined, undefined, typeRegistry);
+      this.type.schemaErrors.push(toSchemaError(err));
+      return;
     }
-    // TODO: better typing - remove these "as any"s
-    this.type = new ConfigraphDataType<unknown, NodeMetadata>(
-      typeDef as any,
-      undefined,
-      undefined,
-      // link back to the "type registry" connected to the graph root
-      // so that we know the shape of the metadata
-      this.parentEntity?.graphRoot?.defaultDataTypeRegistry as any,
-    );
 
     try {
       // console.log(this.type);
@@ -134,19 +189,37 @@ export class ConfigraphNode<NodeMetadata = any> {
         _.each(this.type.primitiveType.typeInstanceOptions.children, (childDef, childKey) => {
           this.children[childKey] = new (this.constructor as any)(childKey, childDef, this);
         });
+
+      // array and dictionary nodes create child nodes for each item after the value is resolved
+      // but we initialize the item type up front, so any schema problems are caught early
+      } else if (
+        this.type.extendsType(ConfigraphBaseTypes.array)
+        || this.type.extendsType(ConfigraphBaseTypes.dictionary)
+      ) {
+        const itemSchema = this.type.primitiveType.typeInstanceOptions?.itemSchema;
+        if (itemSchema) {
+          this.itemType = new ConfigraphDataType<unknown, NodeMetadata>(
+            getTypeDefFromShorthand(itemSchema) as any,
+            undefined,
+            undefined,
+            this.parentEntity?.graphRoot?.defaultDataTypeRegistry as any,
+          );
+        }
       }
-      // TODO: also need to initialize the `itemType` for array and dictionary
-      // unless we change how those work altogether...
     } catch (err) {
-      this.schemaError = err as Error;
+      this.type.schemaErrors.push(toSchemaError(err));
       debug(err);
     }
 
     this.valueResolver = this.type.valueResolver;
+    // resolvers within a shared type or template may already be attached to another node
+    if (this.valueResolver?.isAttachedToNode) this.valueResolver = this.valueResolver.clone();
     if (this.valueResolver) this.valueResolver.configNode = this;
   }
 
-  readonly schemaError?: Error;
+  /** type used for each item within an array or dictionary node */
+  readonly itemType?: ConfigraphDataType<unknown, NodeMetadata>;
+  get isArrayNode() { return this.type.extendsType(ConfigraphBaseTypes.array); }
 
   overrides: Array<ConfigValueOverride> = [];
   valueFromParent?: ConfigValue;
@@ -155,6 +228,8 @@ export class ConfigraphNode<NodeMetadata = any> {
 
   isResolved = false;
   isFullyResolved = false;
+  /** true if async validation was run during the last resolution */
+  isAsyncValidated = false;
 
   get resolvedRawValue(): ConfigValue | undefined {
     if (this.overrides.length) {
@@ -182,29 +257,54 @@ export class ConfigraphNode<NodeMetadata = any> {
   // not sure if the coercion error should be stored in resolution error or split?
   /** error encountered during coercion step */
   coercionError?: CoercionError;
+  /** each coerce fn that ran during the coercion step */
+  coercionSteps: Array<CoercionStep> = [];
 
   /** more details about the validation failure if applicable */
   validationErrors?: Array<ValidationError>;
 
+  /** warnings added by resolvers while resolving - see `ctx.warn()` */
+  resolutionWarnings: Array<ResolutionError> = [];
+
   get schemaErrors() {
     return this.type.schemaErrors;
   }
 
-  /** whether the schema itself is valid or not */
+  /** whether the schema itself is valid or not (warnings are ignored) */
   get isSchemaValid(): boolean | undefined {
-    if (this.schemaErrors?.length) return false;
+    if (_.some(this.schemaErrors, (err) => !err.isWarning)) return false;
     return true;
   }
 
-  /** whether the final resolved value is valid or not */
+  /** whether the final resolved value is valid or not (warnings are ignored) */
   get isValid(): boolean | undefined {
     if (!this.isSchemaValid) return false;
     if (this.coercionError) return false;
-    if (this.validationErrors && this.validationErrors?.length > 0) return false;
+    if (_.some(this.validationErrors, (err) => !err.isWarning)) return false;
     if (this.resolutionError) return false;
     return true;
   }
 
+  /**
+   * all warnings from each stage, before any suppression is applied
+   * subclasses can override this to add their own
+   */
+  protected collectWarnings(): Array<ConfigraphError> {
+    return [
+      ..._.filter(this.schemaErrors, (err) => err.isWarning),
+      ...this.resolutionWarnings,
+      ..._.filter(this.validationErrors, (err) => err.isWarning),
+    ];
+  }
+
+  /** warnings which have not been suppressed via `suppressWarnings` on the item or its entity (and ancestors) */
+  get warnings(): Array<ConfigraphError> {
+    return _.reject(this.collectWarnings(), (warning) => (
+      warning.isSuppressedBy(this.type.suppressWarnings)
+      || warning.isSuppressedBy(this.parentEntity?.suppressWarnings)
+    ));
+  }
+
   children: Record<string, typeof this> = {};
 
   get parentNode(): ConfigraphNode | undefined {
@@ -224,6 +324,8 @@ export class ConfigraphNode<NodeMetadata = any> {
   get path(): string {
     if (this.parent instanceof ConfigraphNode) {
       const parentPath = this.parent.path;
+      // array items use brackets - ex: `ALLOWED_ORIGINS[2]`
+      if (this.parent.isArrayNode) return `${parentPath}[${this.key}]`;
       return `${parentPath}.${this.key}`;
     }
     return this.key;
@@ -283,6 +385,7 @@ export class ConfigraphNode<NodeMetadata = any> {
 
     if (this.valueResolver) {
       if (!this.valueResolver.isFullyResolved) {
+        this.resolutionWarnings = [];
         await this.valueResolver.resolve(itemResolverCtx);
         this.isResolved = true;
         if (this.resolutionError) return;
@@ -295,10 +398,11 @@ export class ConfigraphNode<NodeMetadata = any> {
     // NOTE - currently we trigger this if the resolved value was not undefined
     // but we may want to coerce undefined values in some cases as well?
     // need to think through errors + overrides + empty values...
+    this.coercionSteps = [];
     if (this.resolvedRawValue !== undefined && this.resolvedRawValue !== null) {
       try {
         // TODO: not sure if we want to reuse the resolver context?
-        const coerceResult = this.type.coerce(_.cloneDeep(this.resolvedRawValue), itemResolverCtx);
+        const coerceResult = this.type.coerce(_.cloneDeep(this.resolvedRawValue), itemResolverCtx, this.coercionSteps);
         if (coerceResult instanceof CoercionError) {
           this.coercionError = coerceResult;
         } else {
@@ -358,10 +462,35 @@ export class ConfigraphNode<NodeMetadata = any> {
       }
     }
 
+    // special handling for arrays/dictionaries - create a child node for each item
+    // so they are each coerced and validated, and then roll the values back up
+    let invalidItemErrors: Array<ValidationError> = [];
+    if (this.itemType && !this.validationErrors) {
+      invalidItemErrors = await this.resolveItemNodes();
+      // resolving the items switches the current resolver ctx, so we switch it back
+      resolverCtxAls.enterWith(itemResolverCtx);
+    }
+
     // run validation logic
     if (!this.validationErrors) {
       const validationResult = this.type.validate(_.cloneDeep(this.resolvedValue), itemResolverCtx);
       this.validationErrors = validationResult === true ? [] : validationResult;
+      this.validationErrors.push(...invalidItemErrors);
+
+      // async validation is opt-in, and only run if everything else is valid
+      const graphRoot = this.parentEntity?.graphRoot;
+      if (graphRoot?.runAsyncValidation && !_.some(this.validationErrors, (err) => !err.isWarning)) {
+        // sync validation already ran above, so we only run the async validators (and skip empty values)
+        if (this.resolvedValue !== undefined && this.resolvedValue !== null) {
+          const asyncValidationResult = await this.type.runAsyncValidators(
+            _.cloneDeep(this.resolvedValue),
+            itemResolverCtx,
+            graphRoot.asyncValidationTimeout,
+          );
+          if (asyncValidationResult !== true) this.validationErrors.push(...asyncValidationResult);
+        }
+        this.isAsyncValidated = true;
+      }
     }
 
     this.isFullyResolved = true;
@@ -374,6 +503,84 @@ export class ConfigraphNode<NodeMetadata = any> {
     );
   }
 
+  private async resolveItemNodes() {
+    this.children = {};
+    const rawItems = this.resolvedValue;
+    // if the value is the wrong shape, the regular validation will catch it
+    if (this.isArrayNode ? !_.isArray(rawItems) : !_.isPlainObject(rawItems)) return [];
+
+    // item nodes are not part of the graph, so we resolve them (and any of their own children) directly
+    const resolveItemNode = async (node: ConfigraphNode) => {
+      await node.resolve();
+      if (node.isFullyResolved) return;
+      for (const childNode of _.values(node.children)) await resolveItemNode(childNode);
+      // objects roll up their child values on the 2nd pass
+      await node.resolve();
+    };
+    for (const itemKey in rawItems as any) {
+      this.children[itemKey] = new (this.constructor as any)(itemKey, this.itemType, this);
+      await resolveItemNode(this.children[itemKey]);
+    }
+
+    // roll up the coerced item values
+    if (_.isArray(rawItems)) {
+      this.resolvedValue = _.map(_.values(this.children), (c) => c.resolvedValue);
+    } else {
+      this.resolvedValue = _.mapValues(this.children, (c) => c.resolvedValue);
+    }
+
+    const invalidItems = _.filter(_.values(this.children), (c) => !c.isValid);
+    return _.map(invalidItems, (itemNode) => {
+      const itemError = itemNode.coercionError || itemNode.validationErrors?.[0] || itemNode.resolutionError;
+      return new InvalidChildError(`Invalid item ${itemNode.path}${itemError ? ` - ${itemError.message}` : ''}`);
+    });
+  }
+
+  /** explains where the current value came from - overrides, resolvers, cache, picks, coercion, and dependencies */
+  getValueProvenance(): ConfigraphNodeProvenance {
+    let source: ConfigraphNodeProvenance['source'] = 'none';
+    if (this.overrides.length) source = 'override';
+    else if (this.valueFromParent !== undefined) source = 'parent';
+    else if (this.valueResolver) source = 'resolver';
+
+    const pickedFrom: Array<string> = [];
+    let pickFromNode = this.pickFromNode;
+    while (pickFromNode) {
+      pickedFrom.push(pickFromNode.fullPath);
+      pickFromNode = pickFromNode.pickFromNode;
+    }
+
+    // follow the active branches down from the top level resolver
+    const resolvers: ConfigraphNodeProvenance['resolvers'] = [];
+    let resolver = this.valueResolver;
+    while (resolver) {
+      resolvers.push({
+        label: resolver.label,
+        icon: resolver.icon,
+        createdByPluginId: resolver.def.createdByPluginId,
+        ...resolver.linkedBranch && {
+          branch: _.pick(resolver.linkedBranch, 'id', 'label', 'isDefault'),
+        },
+        cacheKey: resolver.cacheKey,
+        isUsingCache: resolver.isUsingCache,
+      });
+      resolver = _.find(resolver.branches, (b) => !!b.isActive)?.resolver;
+    }
+
+    return {
+      fullPath: this.fullPath,
+      source,
+      overrides: this.overrides.map((o, i) => ({ ...o, isActive: i === 0 })),
+      valueFromParent: this.valueFromParent,
+      pickedFrom,
+      resolvers,
+      resolvedRawValue: this.resolvedRawValue,
+      coercionSteps: this.coercionSteps,
+      resolvedValue: this.resolvedValue,
+      dependencies: _.map(this.dependsOnPathsObj, (type, fullPath) => ({ fullPath, type })),
+    };
+  }
+
   get mappedToNodePath() {
     //! This is not exactly right, but it's close
     // what we want to know if a node is mapped _exactly_ to another without transformation (ie inject, configPath)
@@ -398,15 +605,12 @@ export class ConfigraphNode<NodeMetadata = any> {
       resolver: this.valueResolver?.toJSON(),
       overrides: this.overrides,
 
-      schemaErrors: this.schemaErrors?.length
-        ? _.map(this.schemaErrors, (err) => err.toJSON())
-        : undefined,
+      // warnings are serialized separately, so only the actual errors are included here
+      schemaErrors: serializeErrors(_.reject(this.schemaErrors, (err) => err.isWarning)),
       resolutionError: this.resolutionError?.toJSON(),
       coercionError: this.coercionError?.toJSON(),
-      validationErrors:
-        this.validationErrors?.length
-          ? _.map(this.validationErrors, (err) => err.toJSON())
-          : undefined,
+      validationErrors: serializeErrors(_.reject(this.validationErrors, (err) => err.isWarning)),
+      warnings: serializeErrors(this.warnings),
     };
   }
 
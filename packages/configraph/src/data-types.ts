@@ -4,7 +4,7 @@ import {
   ConfigValueResolver, InlineValueResolverDef, processInlineResolverDef, ResolverContext,
 } from './resolvers';
 import {
-  CoercionError, EmptyRequiredValueError, SchemaError, ValidationError,
+  CoercionError, EmptyRequiredValueError, SchemaError, SuppressWarningsSetting, ValidationError,
 } from './errors';
 import { ExternalDocsEntry } from './common';
 import { SerializedConfigraphDataType } from './serialization-types';
@@ -60,6 +60,9 @@ type CoreConfigraphDataTypeOptions<ExtendsTypeSettings = unknown, NodeMetadata =
   /** is this config item required, an error will be shown if empty */
   required?: boolean; // TODO: can this be a (ctx) => fn?
 
+  /** suppress warnings on this item - `true` for all, or an array of warning codes */
+  suppressWarnings?: SuppressWarningsSetting;
+
   /**
    * parent data type to inherit from
    * if not set will attempt to infer from a static value, or default to string
@@ -80,12 +83,17 @@ type CoreConfigraphDataTypeOptions<ExtendsTypeSettings = unknown, NodeMetadata =
     ctx?: ResolverContext
   ) => TypeValidationResult;
 
-  /** validation function that can use type instance settings */
+  /**
+   * async validation function that can use type instance settings
+   * used for expensive checks (ex: can we connect using this url) so is only run when async validation is enabled
+   */
   asyncValidate?: (
     this: ConfigraphDataType<ExtendsTypeSettings>,
     val: any,
     ctx?: ResolverContext
   ) => Promise<TypeValidationResult>;
+  /** max time in ms to wait for this type's `asyncValidate` function - defaults to the graph-level timeout */
+  asyncValidateTimeout?: number;
 
   /** coerce function that can use type instance settings */
   coerce?: (
@@ -108,6 +116,14 @@ type CoreConfigraphDataTypeOptions<ExtendsTypeSettings = unknown, NodeMetadata =
 
 // data types expose all the same options, except they additionally have a "settings schema"
 // and their validations/normalize functions get passed in the _instance_ of those settings when invoked
+/** single step of coercion through a type's `extends` chain - see `coerce` */
+export type CoercionStep = {
+  /** label of the type that ran the coerce fn - will be undefined for inline types */
+  typeLabel?: string,
+  input: any,
+  output: any,
+};
+
 /**
  * Represents the options for a ConfigraphDataType
  * @category HelperMethods
@@ -145,6 +161,23 @@ export type ConfigraphDataTypeFactoryFn<T, M> = ((opts?: T) => ConfigraphDataTyp
 //   F extends ConfigraphDataTypeFactoryFn<infer T> ? T : never;
 
 
+// max time (ms) we wait for each `asyncValidate` function, unless overridden
+export const DEFAULT_ASYNC_VALIDATE_TIMEOUT = 10000;
+
+/** normalizes errors thrown or returned from a validation function into ValidationErrors */
+function toValidationErrors(errOrErrs: Error | Array<any>) {
+  return _.map(_.castArray(errOrErrs), (e) => {
+    if (e instanceof ValidationError) return e;
+    if (e instanceof Error) return new ValidationError(e);
+    return new ValidationError(new Error(`Threw invalid error: ${e}`));
+  });
+}
+
+/** warnings are reported, but do not make the value invalid */
+function hasNonWarningErrors(errors: Array<ValidationError>) {
+  return _.some(errors, (e) => !e.isWarning);
+}
+
 export class ConfigraphDataType<InstanceOptions = any, Metadata = any> {
   // NOTE - note quite sure about this setup yet...
   // but the idea is to provide a wrapped version of the validate/coerce (the fns that need the type instance options)
@@ -183,7 +216,7 @@ export class ConfigraphDataType<InstanceOptions = any, Metadata = any> {
       // deal with string case - only valid for simple base types - `extends: 'number'`
       if (_.isString(this.typeDef.extends)) {
         if (!ConfigraphBaseTypes[this.typeDef.extends]) {
-          throw new Error(`found invalid parent (string) in extends chain - "${this.typeDef.extends}"`);
+          throw new SchemaError(`found invalid parent (string) in extends chain - "${this.typeDef.extends}"`);
         } else {
           this.parentType = ConfigraphBaseTypes[this.typeDef.extends](typeInstanceOptions as any);
         }
@@ -193,14 +226,14 @@ export class ConfigraphDataType<InstanceOptions = any, Metadata = any> {
         if (ConfigraphDataType.checkInstanceOf(initializedDataType)) {
           this.parentType = initializedDataType;
         } else {
-          throw new Error('found invalid parent (as result of fn) in extends chain');
+          throw new SchemaError('found invalid parent (as result of fn) in extends chain');
         }
       // normal case - `extends: ConfigraphBaseTypes.number({ ... })`
       } else if (ConfigraphDataType.checkInstanceOf(this.typeDef.extends)) {
         this.parentType = this.typeDef.extends;
       // anything else is considered an error
       } else if (this.typeDef.extends) {
-        throw new Error(`found invalid parent in extends chain: ${this.typeDef.extends}`);
+        throw new SchemaError(`found invalid parent in extends chain: ${this.typeDef.extends}`);
       }
 
     // if no parent type is set, we can try to infer it from a default value, and otherwise default to string
@@ -243,6 +276,9 @@ export class ConfigraphDataType<InstanceOptions = any, Metadata = any> {
       }
     }
 
+    // warnings do not stop validation, so they are collected and returned alongside any errors
+    const warnings: Array<ValidationError> = [];
+
     // call parent validation (which will go all the way up the chain)
     // this can be disabled or moved to after but the `runParentValidate` setting
     if (
@@ -251,51 +287,14 @@ export class ConfigraphDataType<InstanceOptions = any, Metadata = any> {
     ) {
       const parentValidationResult = this.parentType?.validate(val);
       if (_.isArray(parentValidationResult) && parentValidationResult.length > 0) {
-        return parentValidationResult;
+        if (hasNonWarningErrors(parentValidationResult)) return parentValidationResult;
+        warnings.push(...parentValidationResult);
       }
     }
 
-    if (this.typeDef.validate !== undefined) {
-      try {
-        // attaching `this` properly allows the validator to access type isntance settings if applicable/necessary
-        const validationResult = this.typeDef.validate.call(this, val, ctx);
-
-        // TODO: think through validation fn shape - how to return status and errors...
-        if (
-          validationResult === undefined
-          || validationResult === true
-          || (_.isArray(validationResult) && validationResult.length === 0)
-        ) {
-          // do nothing
-        } else if (validationResult instanceof ValidationError) {
-          return [validationResult];
-        } else if (validationResult instanceof Error) {
-          return [new ValidationError(validationResult)];
-        } else if (_.isArray(validationResult) && validationResult[0] instanceof Error) {
-          return _.map(validationResult, (e) => {
-            if (e instanceof ValidationError) return e;
-            if (e instanceof Error) return new ValidationError(e);
-            return new ValidationError(new Error(`Threw invalid error: ${e}`));
-          });
-        } else {
-          return [new ValidationError(new Error(`Validation returned invalid result: ${validationResult}`))];
-        }
-      } catch (err) {
-        if (err instanceof ValidationError) {
-          return [err];
-        } else if (err instanceof Error) {
-          return [new ValidationError(err)];
-        } else if (_.isArray(err) && err[0] instanceof Error) {
-          return _.map(err, (e) => {
-            if (e instanceof ValidationError) return e;
-            if (e instanceof Error) return new ValidationError(e);
-            return new ValidationError(new Error(`Threw invalid error: ${e}`));
-          });
-        } else {
-          return [new ValidationError(new Error(`Validation threw a non-error: ${err}`))];
-        }
-      }
-    }
+    const ownValidationErrors = this.runValidateFn(val, ctx);
+    if (hasNonWarningErrors(ownValidationErrors)) return [...warnings, ...ownValidationErrors];
+    warnings.push(...ownValidationErrors);
 
     // handle parent validation in "after" mode
     if (
@@ -304,115 +303,201 @@ export class ConfigraphDataType<InstanceOptions = any, Metadata = any> {
     ) {
       const parentValidationResult = this.parentType?.validate(val);
       if (_.isArray(parentValidationResult) && parentValidationResult.length > 0) {
-        return parentValidationResult;
+        return [...warnings, ...parentValidationResult];
       }
     }
 
-    return true;
+    return warnings.length ? warnings : true;
   }
 
+  /** runs this type's own `validate` function (not the parent's), normalizing the result into an array of errors */
+  private runValidateFn(val: any, ctx?: ResolverContext): Array<ValidationError> {
+    if (this.typeDef.validate === undefined) return [];
+    try {
+      // attaching `this` properly allows the validator to access type isntance settings if applicable/necessary
+      const validationResult = this.typeDef.validate.call(this, val, ctx);
+
+      // TODO: think through validation fn shape - how to return status and errors...
+      if (
+        validationResult === undefined
+        || validationResult === true
+        || (_.isArray(validationResult) && validationResult.length === 0)
+      ) {
+        return [];
+      } else if (validationResult instanceof ValidationError) {
+        return [validationResult];
+      } else if (validationResult instanceof Error) {
+        return [new ValidationError(validationResult)];
+      } else if (_.isArray(validationResult) && validationResult[0] instanceof Error) {
+        return toValidationErrors(validationResult);
+      } else {
+        return [new ValidationError(new Error(`Validation returned invalid result: ${validationResult}`))];
+      }
+    } catch (err) {
+      if (err instanceof ValidationError) {
+        return [err];
+      } else if (err instanceof Error) {
+        return [new ValidationError(err)];
+      } else if (_.isArray(err) && err[0] instanceof Error) {
+        return toValidationErrors(err);
+      } else {
+        return [new ValidationError(new Error(`Validation threw a non-error: ${err}`))];
+      }
+    }
+  }
 
-  // TODO: DRY this up - its (almost) exactly the same as the validate method but calling asyncValidate instead
-  async asyncValidate(val: any, ctx?: ResolverContext): Promise<true | Array<Error>> {
-    // we'll first check if the value is "valid" - which will also deal with required but empty values
-    const isValid = this.validate(val, ctx);
-    if (!isValid) return [new Error('Cannot run async validation check on an invalid value')];
 
+  /**
+   * runs sync validation, and then all async validators up the type chain
+   * each `asyncValidate` function will fail with a ValidationError if it takes longer than its timeout
+   */
+  async asyncValidate(
+    val: any,
+    ctx?: ResolverContext,
+    opts?: {
+      /** timeout (ms) used for validators that do not set their own `asyncValidateTimeout` */
+      defaultTimeout?: number,
+    },
+  ): Promise<true | Array<ValidationError>> {
+    // we'll first check if the value is "valid" - which will also deal with required but empty values
+    const validationResult = this.validate(val, ctx);
+    if (validationResult !== true && hasNonWarningErrors(validationResult)) return validationResult;
+    const warnings = validationResult === true ? [] : validationResult;
 
     // TODO: not sure if we want to run the async validation if the value is empty?
     // maybe want to return something else than true?
     if (val === undefined || val === null) {
-      return true;
+      return warnings.length ? warnings : true;
     }
 
+    const asyncValidationResult = await this.runAsyncValidators(val, ctx, opts?.defaultTimeout);
+    if (asyncValidationResult === true) return warnings.length ? warnings : true;
+    return [...warnings, ...asyncValidationResult];
+  }
+
+  /**
+   * runs only the async validators up the type chain, without re-running sync validation
+   * used during resolution, where sync validation has already been run
+   */
+  async runAsyncValidators(
+    val: any,
+    ctx: ResolverContext | undefined,
+    defaultTimeout = DEFAULT_ASYNC_VALIDATE_TIMEOUT,
+  ): Promise<true | Array<ValidationError>> {
+    const warnings: Array<ValidationError> = [];
     if (
       this.parentType
       && (this.typeDef.runParentAsyncValidate === 'before' || this.typeDef.runParentAsyncValidate === undefined)
     ) {
-      const parentValidationResult = await this.parentType?.asyncValidate(val);
+      const parentValidationResult = await this.parentType.runAsyncValidators(val, ctx, defaultTimeout);
       if (_.isArray(parentValidationResult) && parentValidationResult.length > 0) {
-        return parentValidationResult;
+        if (hasNonWarningErrors(parentValidationResult)) return parentValidationResult;
+        warnings.push(...parentValidationResult);
       }
     }
 
-    if (this.typeDef.asyncValidate !== undefined) {
-      try {
-        // we can identify the schema-defined types by not having a typeFactoryFn set
-        // and the validation/coercion logic set there expects a resolver context, not a settings object
-        // TODO: see if theres a better way to deal with TS for this?
-        const validationResult = await this.typeDef.asyncValidate.call(this, val, ctx);
-
-        // TODO: think through validation fn shape - how to return status and errors...
-        if (
-          validationResult === undefined
-          || validationResult === true
-          || (_.isArray(validationResult) && validationResult.length === 0)
-        ) {
-          // do nothing
-        } else if (validationResult instanceof Error) {
-          return [validationResult];
-        } else if (_.isArray(validationResult) && validationResult[0] instanceof Error) {
-          // TODO: might want to verify all array items are errors...?
-          return validationResult;
-        } else {
-          return [new Error(`Validation returned invalid result: ${validationResult}`)];
-        }
-      } catch (err) {
-        if (err instanceof Error) {
-          return [err];
-        } else if (_.isArray(err)) {
-          // TODO: should probably check that its an array of errors?
-          return err as Array<Error>;
-        } else {
-          return [new Error(`Validation threw a non-error: ${err}`)];
-        }
-      }
-    }
+    const ownValidationErrors = await this.runAsyncValidateFn(val, ctx, defaultTimeout);
+    if (hasNonWarningErrors(ownValidationErrors)) return [...warnings, ...ownValidationErrors];
+    warnings.push(...ownValidationErrors);
 
     // handle parent validation in "after" mode
     if (
       this.parentType
       && (this.typeDef.runParentAsyncValidate === 'after')
     ) {
-      const parentValidationResult = await this.parentType?.asyncValidate(val);
+      const parentValidationResult = await this.parentType.runAsyncValidators(val, ctx, defaultTimeout);
       if (_.isArray(parentValidationResult) && parentValidationResult.length > 0) {
-        return parentValidationResult;
+        return [...warnings, ...parentValidationResult];
       }
     }
 
-    return true;
+    return warnings.length ? warnings : true;
+  }
+
+  /** runs this type's own `asyncValidate` function (not the parent's), normalizing the result into an array of errors */
+  private async runAsyncValidateFn(
+    val: any,
+    ctx: ResolverContext | undefined,
+    defaultTimeout: number,
+  ): Promise<Array<ValidationError>> {
+    if (this.typeDef.asyncValidate === undefined) return [];
+    const timeout = this.typeDef.asyncValidateTimeout ?? defaultTimeout;
+    let timeoutHandle: ReturnType<typeof setTimeout> | undefined;
+    try {
+      // we can identify the schema-defined types by not having a typeFactoryFn set
+      // and the validation/coercion logic set there expects a resolver context, not a settings object
+      // TODO: see if theres a better way to deal with TS for this?
+      const validationResult = await Promise.race([
+        this.typeDef.asyncValidate.call(this, val, ctx),
+        new Promise<never>((_resolve, reject) => {
+          timeoutHandle = setTimeout(() => {
+            reject(new ValidationError(`Async validation timed out after ${timeout}ms`, {
+              tip: 'You can increase the timeout using `asyncValidateTimeout`',
+            }));
+          }, timeout);
+        }),
+      ]);
+
+      // TODO: think through validation fn shape - how to return status and errors...
+      if (
+        validationResult === undefined
+        || validationResult === true
+        || (_.isArray(validationResult) && validationResult.length === 0)
+      ) {
+        return [];
+      } else if (validationResult instanceof Error || _.isArray(validationResult)) {
+        return toValidationErrors(validationResult);
+      } else {
+        return [new ValidationError(new Error(`Validation returned invalid result: ${validationResult}`))];
+      }
+    } catch (err) {
+      if (err instanceof Error || _.isArray(err)) {
+        return toValidationErrors(err);
+      } else {
+        return [new ValidationError(new Error(`Validation threw a non-error: ${err}`))];
+      }
+    } finally {
+      clearTimeout(timeoutHandle);
+    }
   }
 
-  coerce(val: any, ctx?: ResolverContext): any | CoercionError {
+  /**
+   * coerce a value through the type chain
+   * if `steps` is passed in, each coerce fn that runs is recorded, which is useful for explaining how a value was transformed
+   */
+  coerce(val: any, ctx?: ResolverContext, steps?: Array<CoercionStep>): any | CoercionError {
     let coercedVal = val;
 
     if (
       this.parentType
       && (this.typeDef.runParentCoerce === 'before' || this.typeDef.runParentCoerce === undefined)
     ) {
-      coercedVal = this.parentType.coerce(coercedVal, ctx);
+      coercedVal = this.parentType.coerce(coercedVal, ctx, steps);
     }
 
     if (this.typeDef.coerce !== undefined) {
+      const input = coercedVal;
       // see note about ctx and any in `validate` above
       try {
         coercedVal = this.typeDef.coerce.call(this, coercedVal, ctx);
       } catch (err) {
         if (err instanceof CoercionError) {
-          return err;
+          coercedVal = err;
         } else if (err instanceof Error) {
-          return new CoercionError(err);
+          coercedVal = new CoercionError(err);
         } else {
-          return new CoercionError(new Error(`Coerce threw a non-error: ${err}`));
+          coercedVal = new CoercionError(new Error(`Coerce threw a non-error: ${err}`));
         }
       }
+      steps?.push({ typeLabel: this.typeDef.typeLabel, input, output: coercedVal });
+      if (coercedVal instanceof CoercionError) return coercedVal;
     }
 
     if (
       this.parentType
       && (this.typeDef.runParentCoerce === 'after')
     ) {
-      coercedVal = this.parentType.coerce(coercedVal, ctx);
+      coercedVal = this.parentType.coerce(coercedVal, ctx, steps);
     }
 
     return coercedVal;
@@ -466,6 +551,7 @@ export class ConfigraphDataType<InstanceOptions = any, Metadata = any> {
   }
   get ui() { return this.getDefItem('ui'); }
   get required() { return this.getDefItem('required'); }
+  get suppressWarnings() { return this.getDefItem('suppressWarnings'); }
 
   getMetadata<K extends keyof Metadata>(key: K): Metadata[K] | undefined {
     return this.getDefItem(key);
@@ -534,9 +620,54 @@ export class ConfigraphDataType<InstanceOptions = any, Metadata = any> {
 }
 
 
+/**
+ * declares that nodes of one type can be injected into nodes of another, unrelated type
+ * useful when multiple packages define their own version of the same thing
+ */
+export type ConfigraphDataTypeAdapter = {
+  /** type of the node being injected from (types extending it will also match) */
+  from: ConfigraphDataTypeFactoryFn<any, any>,
+  /** type of the node being injected into (or a type extending it) */
+  to: ConfigraphDataTypeFactoryFn<any, any>,
+  /** optional transform applied to the value as it is injected */
+  transformValue?: (val: any) => any,
+};
+
 // abusing a class here to be able to attach the additional type argument
 // which is necessary to be able define a new type registry for types with extra metadata
 export class ConfigraphDataTypesRegistry<Metadata = {}> {
+  private typeAdapters: Array<ConfigraphDataTypeAdapter & { toTypeInstance: ConfigraphDataType }> = [];
+
+  /** register an adapter allowing injection from one type into another */
+  registerTypeAdapter(adapter: ConfigraphDataTypeAdapter) {
+    this.typeAdapters.push({ ...adapter, toTypeInstance: adapter.to() });
+  }
+
+  /** mark 2 types as interchangeable - values will be injected as-is in either direction */
+  registerCompatibleTypes(
+    typeA: ConfigraphDataTypeFactoryFn<any, any>,
+    typeB: ConfigraphDataTypeFactoryFn<any, any>,
+  ) {
+    this.registerTypeAdapter({ from: typeA, to: typeB });
+    this.registerTypeAdapter({ from: typeB, to: typeA });
+  }
+
+  /**
+   * checks if a node of `sourceType` can be injected into a node of `targetType`
+   * either because it extends the target type, or via a registered adapter
+   */
+  getInjectionCompatibility(
+    sourceType: ConfigraphDataType,
+    targetType: ConfigraphDataType,
+  ): { transformValue?: (val: any) => any } | undefined {
+    const targetTypeFactoryFn = targetType.typeFactoryFn;
+    if (sourceType.extendsType(targetTypeFactoryFn)) return {};
+    const adapter = this.typeAdapters.find((a) => (
+      sourceType.extendsType(a.from) && a.toTypeInstance.extendsType(targetTypeFactoryFn)
+    ));
+    if (adapter) return { transformValue: adapter.transformValue };
+  }
+
   // eslint-disable-next-line class-methods-use-this
   create<TypeSettings = {}>(
     opts: ConfigraphDataTypeDefinition<TypeSettings, Metadata>,
@@ -553,7 +684,9 @@ export class ConfigraphDataTypesRegistry<Metadata = {}> {
     return typeFactoryFn;
   }
 }
-export const createConfigraphDataType = (new ConfigraphDataTypesRegistry()).create;
+/** registry used by `createConfigraphDataType` - note that each Configraph creates its own registry by default */
+export const defaultConfigraphDataTypesRegistry = new ConfigraphDataTypesRegistry();
+export const createConfigraphDataType = defaultConfigraphDataTypesRegistry.create;
 
 
 
@@ -886,13 +1019,54 @@ export type ArrayDataTypeSettings = {
    * The exact length of the array.
    */
   isLength?: number;
+
+  /**
+   * Separator used when coercing a (non-JSON) string into an array (default = ",")
+   */
+  separator?: string;
 };
 const ArrayDataType = createConfigraphDataType<ArrayDataTypeSettings>({
   typeLabel: 'dmno/array',
   extends: PrimitiveBaseType,
   injectable: false,
-  // TODO: validate checks if it's an array
-  // helper to coerce csv string into array of strings
+  coerce(val) {
+    const settings = this.typeInstanceOptions;
+    if (_.isArray(val)) return val;
+    if (!_.isString(val)) {
+      return new CoercionError('Only strings can be coerced into arrays');
+    }
+    const trimmedVal = val.trim();
+    if (trimmedVal === '') return [];
+    // JSON array string - ex: `["a","b"]`
+    if (trimmedVal.startsWith('[')) {
+      try {
+        const parsed = JSON.parse(trimmedVal);
+        if (_.isArray(parsed)) return parsed;
+        return new CoercionError('String passed JSON.parse but is not an array');
+      } catch (err) {
+        return new CoercionError('String was unable to JSON.parse');
+      }
+    }
+    // otherwise we treat it as a CSV string - ex: `a,b,c`
+    // items will then be coerced individually using the item schema
+    return trimmedVal.split(settings?.separator ?? ',').map((item) => item.trim());
+  },
+  validate(val) {
+    const settings = this.typeInstanceOptions;
+    if (!_.isArray(val)) return new ValidationError('Value must be an array');
+
+    const errors = [] as Array<ValidationError>;
+    if (settings?.minLength !== undefined && val.length < settings.minLength) {
+      errors.push(new ValidationError(`Array must contain at least ${settings.minLength} items`));
+    }
+    if (settings?.maxLength !== undefined && val.length > settings.maxLength) {
+      errors.push(new ValidationError(`Array must contain at most ${settings.maxLength} items`));
+    }
+    if (settings?.isLength !== undefined && val.length !== settings.isLength) {
+      errors.push(new ValidationError(`Array must contain exactly ${settings.isLength} items`));
+    }
+    return errors.length ? errors : true;
+  },
 });
 
 
@@ -935,8 +1109,55 @@ const DictionaryDataType = createConfigraphDataType<DictionaryDataTypeSettings>(
   typeLabel: 'dmno/dictionary',
   extends: PrimitiveBaseType,
   injectable: false,
-  // TODO: validate checks if it's an object
+  coerce(val) {
+    if (_.isPlainObject(val)) return val;
+    if (!_.isString(val)) {
+      return new CoercionError('Only strings can be coerced into dictionaries via JSON.parse');
+    }
+    try {
+      const parsed = JSON.parse(val);
+      if (_.isPlainObject(parsed)) return parsed;
+      return new CoercionError('String passed JSON.parse but is not an object');
+    } catch (err) {
+      return new CoercionError('String was unable to JSON.parse');
+    }
+  },
+  validate(val) {
+    const settings = this.typeInstanceOptions;
+    if (!_.isPlainObject(val)) return new ValidationError('Value must be an object');
 
+    const errors = [] as Array<ValidationError>;
+    const keys = _.keys(val);
+    if (settings?.minItems !== undefined && keys.length < settings.minItems) {
+      errors.push(new ValidationError(`Dictionary must contain at least ${settings.minItems} items`));
+    }
+    if (settings?.maxItems !== undefined && keys.length > settings.maxItems) {
+      errors.push(new ValidationError(`Dictionary must contain at most ${settings.maxItems} items`));
+    }
+    if (settings?.validateKeys) {
+      for (const key of keys) {
+        if (!settings.validateKeys(key)) {
+          errors.push(new ValidationError(`Invalid dictionary key "${key}"`, {
+            ...settings.keyDescription && { tip: `Keys must be - ${settings.keyDescription}` },
+          }));
+        }
+      }
+    }
+    return errors.length ? errors : true;
+  },
+  async asyncValidate(val) {
+    const settings = this.typeInstanceOptions;
+    if (!settings?.asyncValidateKeys) return true;
+    const errors = [] as Array<ValidationError>;
+    for (const key of _.keys(val)) {
+      if (!await settings.asyncValidateKeys(key)) {
+        errors.push(new ValidationError(`Invalid dictionary key "${key}"`, {
+          ...settings.keyDescription && { tip: `Keys must be - ${settings.keyDescription}` },
+        }));
+      }
+    }
+    return errors.length ? errors : true;
+  },
 });
 
 type PossibleEnumValues = string | number | boolean; // do we need explicitly allow null/undefined?
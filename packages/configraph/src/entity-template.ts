@@ -1,5 +1,33 @@
-import { ConfigraphEntityDef } from './entity';
+import _ from 'lodash-es';
+import { ConfigraphEntityDef, PickSchemaEntry } from './entity';
 
+/**
+ * converts a template-relative entity id into an actual entity id within a specific template instance
+ * `~` refers to the root entity of the instance, and `~/someId` to another entity within the same template
+ */
+export function resolveTemplateEntityId(entityId: string, templateRootId: string) {
+  if (entityId === '~') return templateRootId;
+  if (entityId.startsWith('~/')) return `${templateRootId}/${entityId.substring(2)}`;
+  return entityId;
+}
+
+/** remaps any template-relative entity ids used in a pick schema */
+export function resolveTemplatePickSchema(
+  pickSchema: Array<PickSchemaEntry | string>,
+  templateRootId: string,
+) {
+  return _.map(pickSchema, (pickEntry) => {
+    if (_.isString(pickEntry) || !pickEntry.entityId) return pickEntry;
+    return { ...pickEntry, entityId: resolveTemplateEntityId(pickEntry.entityId, templateRootId) };
+  });
+}
+
+/**
+ * reusable group of entities which can be instantiated multiple times within a graph
+ *
+ * the first entity is the root - each instance is created via `createEntity({ extends: template, inputs })`
+ * and any additional entities are created as its descendants, with ids of `{instanceId}/{entityId}`
+ */
 export class ConfigraphEntityTemplate<EntityMetadata = {}, NodeMetadata = {}> {
   constructor(readonly meta: {
     label: string,
@@ -9,9 +37,16 @@ export class ConfigraphEntityTemplate<EntityMetadata = {}, NodeMetadata = {}> {
   }
 
   entities: Array<ConfigraphEntityDef<EntityMetadata, NodeMetadata>> = [];
+  /**
+   * add an entity to the template - the first one added is the root
+   * within a template, use `~` or `~/someId` to reference other entities (for parentId, pick, and configPath)
+   */
   addEntity(entityDef: ConfigraphEntityDef<EntityMetadata, NodeMetadata>) {
     this.entities.push(entityDef);
+    return this;
   }
 
   get rootEntity() { return this.entities[0]; }
+  /** non-root entities, which are created as descendants of each template instance */
+  get childEntities() { return this.entities.slice(1); }
 }
@@ -4,13 +4,15 @@ import {
   ConfigraphNode,
   PickedNodeDef,
 } from './config-node';
-import { SchemaError } from './errors';
+import {
+  ConfigraphError, SchemaError, serializeErrors, SuppressWarningsSetting,
+} from './errors';
 import { Configraph } from './graph';
 import { ConfigraphPlugin } from './plugin';
-import { ConfigValue } from './resolvers';
+import { ConfigValue, InlineValueResolverDef } from './resolvers';
 import { ExternalDocsEntry } from './common';
-import { ConfigraphEntityTemplate } from './entity-template';
-import { ConfigraphDataTypeDefinitionOrShorthand } from './data-types';
+import { ConfigraphEntityTemplate, resolveTemplatePickSchema } from './entity-template';
+import { ConfigraphDataTypeDefinition, ConfigraphDataTypeDefinitionOrShorthand } from './data-types';
 
 const debug = Debug('configraph');
 
@@ -44,9 +46,18 @@ export type PickSchemaEntry = {
   /** function to transform value(s) */
   transformValue?: (value: any) => any,
 
-  // TOOD: also allow setting the value (not transforming)
-  // value?: use same value type as above
+  /**
+   * replace the picked value - can be static, a function, or a resolver
+   * the source node is still a dependency, and its value is available via `ctx.getPickedValue()`
+   */
+  value?: InlineValueResolverDef,
+
+  /** additional type options layered on top of the source node's type - ex: `{ required: true }` */
+  typeOverrides?: PickTypeOverrides,
 };
+/** type options that can be overridden on picked nodes */
+export type PickTypeOverrides<NodeMetadata = any> =
+  Omit<ConfigraphDataTypeDefinition<unknown, NodeMetadata>, 'extends' | 'value'>;
 export type ConfigraphPickSchemaEntryOrShorthand = PickSchemaEntry | string;
 
 //! this needs to support transformations, resolvers, etc?
@@ -67,10 +78,23 @@ function getEntityOverridesDefs(rawOverrides: EntityOverridesDef) {
 export type ConfigraphEntityDef<EntityMetadata, NodeMetadata> = EntityMetadata & {
   id?: string,
   parentId?: string,
+  /** optional tags, used to target entities - ex: `collect({ entityTag: 'api' })` */
+  tags?: Array<string>,
 
   extends?: ConfigraphEntityTemplate<EntityMetadata, NodeMetadata>;
+  /**
+   * when extending a template, sets values of nodes in the template's root entity
+   * these can be static values or resolvers, and flow into the template's other entities via configPath/inject/etc
+   */
+  inputs?: Record<string, ConfigValue>;
   overrides?: EntityOverridesDef;
 
+  /**
+   * suppress warnings within this entity (and its children) - `true` for all, or an array of warning codes
+   * can also be set on individual nodes
+   */
+  suppressWarnings?: SuppressWarningsSetting;
+
   configSchema?: Record<string, ConfigraphDataTypeDefinitionOrShorthand<NodeMetadata>>;
   pickSchema?: Array<PickSchemaEntry | string>;
 
@@ -104,6 +128,20 @@ export type ConfigraphEntityDef<EntityMetadata, NodeMetadata> = EntityMetadata &
 
 // type ExtractNodeMetadata<ConfigraphNodeSubclass> = ConfigraphNodeSubclass extends ConfigraphNode<infer X> ? X : never;
 
+/**
+ * split a node path into parts, supporting both dots and brackets
+ * ex: `OBJ.child`, `ARR[2]`, `DICT["some-key"]`
+ */
+export function splitNodePath(path: string) {
+  const pathParts: Array<string> = [];
+  // dotted parts, or bracketed parts with optional quotes
+  const PATH_PART_REGEX = /([^.[\]]+)|\[(?:"([^"]*)"|'([^']*)'|([^\]]*))\]/g;
+  for (const match of path.matchAll(PATH_PART_REGEX)) {
+    pathParts.push(match[1] ?? match[2] ?? match[3] ?? match[4]);
+  }
+  return pathParts;
+}
+
 export class ConfigraphEntity<
   EntityMetadata = unknown,
   NodeMetadata = unknown,
@@ -113,6 +151,8 @@ export class ConfigraphEntity<
 
   readonly id: string;
   parentId?: string;
+  /** id of the root entity of the template instance this entity belongs to, used for resolving `~` paths */
+  templateRootId?: string;
 
   configSchema: Record<string, ConfigraphDataTypeDefinitionOrShorthand<NodeMetadata>> = {};
   pickSchema: Array<PickSchemaEntry | string> = [];
@@ -152,16 +192,19 @@ export class ConfigraphEntity<
         if (entityTemplateRoot.configSchema) {
           this.configSchema = entityTemplateRoot.configSchema;
         }
-        if (entityTemplateRoot.pickSchema) {
-          // TODO: need to remap - pick entity IDs
-          this.pickSchema = entityTemplateRoot.pickSchema;
-        }
       }
     }
 
     // TODO: add restrictions on naming?
     this.id = def.id || graphRoot.generateEntityId();
 
+    if (entityTemplate?.rootEntity) {
+      this.templateRootId = this.id;
+      if (entityTemplate.rootEntity.pickSchema) {
+        this.pickSchema = resolveTemplatePickSchema(entityTemplate.rootEntity.pickSchema, this.id);
+      }
+    }
+
     if (def.parentId) {
       if (def.parentId === this.id) {
         this.schemaErrors.push(new SchemaError('Cannot set entity parent to self'));
@@ -176,11 +219,33 @@ export class ConfigraphEntity<
 
     if (def?.pickSchema) this.pickSchema = def?.pickSchema;
     if (def?.configSchema) this.configSchema = def?.configSchema;
+    if (def.inputs) this.applyTemplateInputs(def.inputs);
 
     // automatically register, since we are already passing in the graph reference
     graphRoot.registerEntity(this);
   }
 
+  /** template inputs are set as the value of the matching node within the schema */
+  private applyTemplateInputs(inputs: Record<string, ConfigValue>) {
+    if (!this.def.extends) {
+      this.schemaErrors.push(new SchemaError('Entity inputs can only be set when extending a template'));
+      return;
+    }
+    const configSchemaWithInputs = { ...this.configSchema };
+    for (const inputKey in inputs) {
+      const nodeDef = configSchemaWithInputs[inputKey];
+      if (!nodeDef) {
+        this.schemaErrors.push(new SchemaError(`Invalid template input "${inputKey}" - no matching config item`));
+        continue;
+      }
+      // non-object shorthands (string type names, type instances, etc) are wrapped so we can set the value
+      configSchemaWithInputs[inputKey] = (_.isPlainObject(nodeDef)
+        ? { ...nodeDef as object, value: inputs[inputKey] }
+        : { extends: nodeDef, value: inputs[inputKey] }) as ConfigraphDataTypeDefinitionOrShorthand<NodeMetadata>;
+    }
+    this.configSchema = configSchemaWithInputs;
+  }
+
   addOwnedPlugin(plugin: ConfigraphPlugin) {
     // TODO: clean this up!
     this.graphRoot.registerPlugin(plugin, this.id);
@@ -213,6 +278,9 @@ export class ConfigraphEntity<
   }
 
   get label() { return this.getDefItem('label'); }
+  get suppressWarnings() { return this.getDefItem('suppressWarnings'); }
+  /** tags are not inherited from the parent entity */
+  get tags() { return this.def.tags || []; }
 
   get isRoot() {
     return this.graphRoot.rootEntity === this;
@@ -251,7 +319,7 @@ export class ConfigraphEntity<
   }
 
   getConfigNodeByPath(path: string) {
-    const pathParts = path.split('.');
+    const pathParts = splitNodePath(path);
     let currentNode: ConfigraphNode = this.configNodes[pathParts[0]];
     // TODO: we'll need some smarter logic if path is reaching _into values_ of an object/array/map
     for (let i = 1; i < pathParts.length; i++) {
@@ -272,11 +340,16 @@ export class ConfigraphEntity<
   get isSchemaValid() {
     //! configLoadingError removed because we are no longer loading here...
     // if (this.configLoadError) return false;
-    if (this.schemaErrors?.length) return false;
+    if (_.some(this.schemaErrors, (err) => !err.isWarning)) return false;
     if (!_.every(_.values(this.configNodes), (node) => node.isSchemaValid)) return false;
     return true;
   }
 
+  /** entity-level warnings (not including those on nodes) which have not been suppressed */
+  get warnings(): Array<ConfigraphError> {
+    return _.filter(this.schemaErrors, (err) => err.isWarning && !err.isSuppressedBy(this.suppressWarnings));
+  }
+
   get isValid() {
     if (!this.isSchemaValid) return false;
     if (!_.every(_.values(this.configNodes), (node) => node.isValid)) return false;
@@ -293,11 +366,10 @@ export class ConfigraphEntity<
 
   initOverrides() {
     // handle overrides set on the entity template if applicable
-    if (this.def.extends && this.def.extends.entities[0].overrides) {
-      const entityOverridesFromTemplate = this.def.extends.entities[0].overrides;
+    if (this.def.extends?.rootEntity?.overrides) {
+      const entityOverridesFromTemplate = this.def.extends.rootEntity.overrides;
       for (const overrideItem of getEntityOverridesDefs(entityOverridesFromTemplate)) {
-        const node = this.getConfigNodeByPath(overrideItem.path);
-        node.overrides.unshift({
+        this.getOverrideNode(overrideItem.path)?.overrides.unshift({
           sourceType: 'entity template',
           value: overrideItem.value,
         });
@@ -307,8 +379,7 @@ export class ConfigraphEntity<
     // handle overrides set on this entity definition directly
     if (this.def.overrides) {
       for (const overrideItem of getEntityOverridesDefs(this.def.overrides)) {
-        const node = this.getConfigNodeByPath(overrideItem.path);
-        node.overrides.unshift({
+        this.getOverrideNode(overrideItem.path)?.overrides.unshift({
           sourceType: 'entity definition',
           value: overrideItem.value,
         });
@@ -316,6 +387,17 @@ export class ConfigraphEntity<
     }
   }
 
+  /** finds the node targeted by an override, adding a schema error if it does not exist */
+  private getOverrideNode(path: string) {
+    try {
+      const node = this.getConfigNodeByPath(path);
+      if (node) return node;
+    } catch (err) {
+      // error is added below
+    }
+    this.schemaErrors.push(new SchemaError(`Invalid override path "${path}" - node not found`));
+  }
+
   toCoreJSON() {
     return {
       id: this.id,
@@ -323,10 +405,8 @@ export class ConfigraphEntity<
       isSchemaValid: this.isSchemaValid,
       isValid: this.isValid,
       isResolved: true,
-      schemaErrors:
-        this.schemaErrors?.length
-          ? _.map(this.schemaErrors, (err) => err.toJSON())
-          : undefined,
+      schemaErrors: serializeErrors(_.reject(this.schemaErrors, (err) => err.isWarning)),
+      warnings: serializeErrors(this.warnings),
       ownedPluginIds: _.map(this.ownedPlugins, (p) => p.instanceId),
       injectedPluginIds: _.map(this.injectedPlugins, (p) => p.instanceId),
       // configNodes: _.mapValues(this.configNodes, (item, _key) => item.toJSON()),
@@ -30,6 +30,15 @@ export type ErrorWithMetadata = {
   cause?: any;
 };
 
+/**
+ * warnings are shown to the user but do not make the schema/value invalid
+ * and can be suppressed using `suppressWarnings` (by their `code`)
+ */
+export type ConfigraphErrorSeverity = 'error' | 'warning';
+
+/** `true` to suppress all warnings, or an array of specific warning codes */
+export type SuppressWarningsSetting = boolean | Array<string>;
+
 export class ConfigraphError extends Error {
   originalError?: Error;
   get isUnexpected() { return !!this.originalError; }
@@ -38,9 +47,17 @@ export class ConfigraphError extends Error {
 
   icon = '❌';
 
+  /** where the problem originated, if known - ex: the file/line where an item is defined */
+  location?: ErrorLocation;
+
   constructor(errOrMessage: string | Error, readonly more?: {
     tip?: string | Array<string>,
     err?: Error,
+    location?: ErrorLocation,
+    /** defaults to "error" */
+    severity?: ConfigraphErrorSeverity,
+    /** stable identifier, used to suppress specific warnings - ex: `PICK_FILTER_NO_MATCHES` */
+    code?: string,
   }) {
     if (_.isError(errOrMessage)) {
       super(errOrMessage.message);
@@ -51,9 +68,21 @@ export class ConfigraphError extends Error {
       this.originalError = more?.err;
     }
     if (Array.isArray(more?.tip)) more.tip = more.tip.join('\n');
+    this.location = more?.location;
     this.name = this.constructor.name;
   }
 
+  get severity(): ConfigraphErrorSeverity { return this.more?.severity || 'error'; }
+  get isWarning() { return this.severity === 'warning'; }
+  get code() { return this.more?.code; }
+
+  /** checks if this warning is suppressed by a `suppressWarnings` setting - errors are never suppressed */
+  isSuppressedBy(suppressWarnings?: SuppressWarningsSetting) {
+    if (!this.isWarning || !suppressWarnings) return false;
+    if (suppressWarnings === true) return true;
+    return !!this.code && suppressWarnings.includes(this.code);
+  }
+
   get tip() {
     if (!this.more?.tip) return undefined;
     if (Array.isArray(this.more.tip)) return this.more.tip.join('\n');
@@ -67,11 +96,25 @@ export class ConfigraphError extends Error {
       name: this.name,
       message: this.message,
       isUnexpected: this.isUnexpected,
+      severity: this.severity,
+      ...this.code && { code: this.code },
       ...this.tip && { tip: this.tip },
+      ...this.location && { location: this.location },
     };
   }
 }
 
+/** wraps anything thrown while processing the schema into a SchemaError, so it can be attached to the graph */
+export function toSchemaError(err: unknown) {
+  if (err instanceof SchemaError) return err;
+  return new SchemaError(_.isError(err) ? err : String(err));
+}
+
+/** helper to serialize a list of errors, leaving it undefined if empty */
+export function serializeErrors(errors?: Array<ConfigraphError>) {
+  return errors?.length ? _.map(errors, (err) => err.toJSON()) : undefined;
+}
+
 export class ConfigLoadError extends ConfigraphError {
   readonly cleanedStack: Array<string>;
   constructor(err: Error) {
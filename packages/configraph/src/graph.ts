@@ -1,24 +1,34 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
 import _ from 'lodash-es';
 import graphlib from '@dagrejs/graphlib';
 import Debug from 'debug';
 
 import { ConfigraphNode } from './config-node';
-import { SchemaError } from './errors';
+import { SchemaError, toSchemaError } from './errors';
 import { ConfigraphEntity, ConfigraphEntityDef } from './entity';
+import { resolveTemplateEntityId, resolveTemplatePickSchema } from './entity-template';
 import { ConfigraphPlugin } from './plugin';
-import { ConfigraphCachingProvider } from './caching';
+import { CacheItemOptions, ConfigraphCachingProvider, GetCacheItemOptions } from './caching';
 
-import { CacheMode, ConfigraphDataTypesRegistry, ConfigValue } from '.';
+import {
+  CacheMode, ConfigraphDataTypesRegistry, ConfigValue, DEFAULT_ASYNC_VALIDATE_TIMEOUT,
+} from '.';
 
 
 const debug = Debug('configraph');
 
+// tracks whether the current async context already holds a cache key lock
+const cacheKeyLockAls = new AsyncLocalStorage<boolean>();
+
 // config item keys are all checked against this regex
 // currently it must start with a letter (to make it a valid js property)
 // and can only contain letters, number, and underscore
 // we may want to restrict "__" if we use that as the nesting separator for env var overrides?
 const VALID_NODE_KEY_REGEX = /^[a-z]\w*$/i;
 
+// max number of nodes that will be resolved at the same time, unless overridden
+const DEFAULT_RESOLUTION_CONCURRENCY = 10;
+
 
 // TODO: ideally we would extract the shape of the entity metadata from these schema objects
 // but currently we are passing it in twice, once for TS and once for runtime
@@ -40,12 +50,39 @@ export class Configraph<
   pluginsById: Record<string, ConfigraphPlugin> = {};
   nodesByFullPath: Record<string, ConfigraphNode> = {};
 
+  /** schema errors that do not belong to a specific entity or node - ex: duplicate entity ids */
+  readonly schemaErrors: Array<SchemaError> = [];
+
   readonly defaultDataTypeRegistry: ConfigraphDataTypesRegistry;
 
+  /**
+   * max number of nodes resolved in parallel
+   * (plugins can also set their own limit, which applies to nodes using their resolvers)
+   */
+  resolutionConcurrency = DEFAULT_RESOLUTION_CONCURRENCY;
+
+  /**
+   * run each node's `asyncValidate` functions during resolution
+   * these are meant for expensive checks (ex: can we actually connect to this db) so are opt-in
+   */
+  runAsyncValidation = false;
+  /** timeout (ms) used for async validators that do not set their own `asyncValidateTimeout` */
+  asyncValidationTimeout = DEFAULT_ASYNC_VALIDATE_TIMEOUT;
+
   constructor(opts?: {
     defaultTypeRegistry?: ConfigraphDataTypesRegistry,
+    /** max number of nodes resolved in parallel */
+    resolutionConcurrency?: number,
+    /** run async validation during resolution */
+    runAsyncValidation?: boolean,
+    /** default timeout (ms) for each async validator */
+    asyncValidationTimeout?: number,
   }) {
+    // each graph gets its own registry, so registered type adapters do not leak between graphs
     this.defaultDataTypeRegistry = opts?.defaultTypeRegistry || new ConfigraphDataTypesRegistry();
+    if (opts?.resolutionConcurrency) this.resolutionConcurrency = opts.resolutionConcurrency;
+    if (opts?.runAsyncValidation) this.runAsyncValidation = true;
+    if (opts?.asyncValidationTimeout) this.asyncValidationTimeout = opts.asyncValidationTimeout;
   }
 
   get rootEntity() {
@@ -53,6 +90,28 @@ export class Configraph<
     return this.entitiesById[this._rootEntityId];
   }
 
+  /** whether the schema of the entire graph is valid (warnings are ignored) */
+  get isSchemaValid() {
+    if (_.some(this.schemaErrors, (err) => !err.isWarning)) return false;
+    return _.every(_.values(this.entitiesById), (entity) => entity.isSchemaValid);
+  }
+
+  /**
+   * collects every schema error (and warning) in the graph, so they can all be reported at once
+   * includes graph-level errors, entity-level errors, and errors on each node
+   */
+  getAllSchemaErrors() {
+    const allErrors: Array<{ entityId?: string, nodePath?: string, error: SchemaError }> = [];
+    allErrors.push(..._.map(this.schemaErrors, (error) => ({ error })));
+    for (const entity of _.values(this.entitiesById)) {
+      allErrors.push(..._.map(entity.schemaErrors, (error) => ({ entityId: entity.id, error })));
+      for (const node of entity.flatConfigNodes) {
+        allErrors.push(..._.map(node.schemaErrors, (error) => ({ entityId: entity.id, nodePath: node.path, error })));
+      }
+    }
+    return allErrors;
+  }
+
   get sortedEntities() {
     return _.map(this.sortedEntityIds, (id) => this.entitiesById[id]);
   }
@@ -65,16 +124,34 @@ export class Configraph<
   createEntity(
     entityDef: ConfigraphEntityDef<EntityMetadata, NodeMetadata>,
   ) {
-    return new ConfigraphEntity(
+    const entity = new ConfigraphEntity(
       this,
       entityDef,
     );
+
+    // when instantiating a template, any additional entities within it are created as descendants of the new entity
+    // using ids based on the instance id, so that the template can be instantiated multiple times
+    _.each(entityDef.extends?.childEntities, (templateEntityDef, i) => {
+      const templateEntity = this.createEntity({
+        ...templateEntityDef,
+        id: `${entity.id}/${templateEntityDef.id ?? i}`,
+        parentId: resolveTemplateEntityId(templateEntityDef.parentId ?? '~', entity.id),
+        ...templateEntityDef.pickSchema && {
+          pickSchema: resolveTemplatePickSchema(templateEntityDef.pickSchema, entity.id),
+        },
+      });
+      // entities extending another template will resolve `~` paths relative to their own template instead
+      templateEntity.templateRootId ??= entity.id;
+    });
+
+    return entity;
   }
 
   registerEntity(entity: ConfigraphEntity) {
     if (this.entitiesById[entity.id]) {
-      // TODO: this should likely roll up into a graph level error, rather than exploding
-      throw new Error(`Entity IDs must be unique - duplicate id detected "${entity.id}"`);
+      // the duplicate is not registered, so it will not be processed
+      this.schemaErrors.push(new SchemaError(`Entity IDs must be unique - duplicate id detected "${entity.id}"`));
+      return;
     }
     // first entity registered will always be considered the root
     if (!this._rootEntityId) this._rootEntityId = entity.id;
@@ -88,20 +165,26 @@ export class Configraph<
   }
 
   registerPlugin(plugin: ConfigraphPlugin, parentEntityId?: string) {
-    if (this.pluginsById[plugin.instanceId]) {
-      // TODO: this should likely roll up into a graph level error, rather than exploding
-      throw new Error(`Plugin instance IDs must be unique - duplicate id detected "${plugin.instanceId}"`);
-    }
-    this.pluginsById[plugin.instanceId] = plugin;
-    if (parentEntityId && !this.entitiesById[parentEntityId]) {
-      // TODO: make a schema error on the plugin I guess?
-      throw new Error(`Invalid parent entity ID "${parentEntityId}" for plugin ${plugin.instanceId}`);
-    }
-
     if (!this._rootEntityId) {
       throw new Error('Root entity must be created before any plugins are registered');
     }
-    plugin.initInternalEntity(this, parentEntityId || this._rootEntityId);
+    // invalid plugins are still initialized, so the error is shown on the plugin - if the parent is invalid we use the root
+    const isParentValid = !parentEntityId || !!this.entitiesById[parentEntityId];
+    const isDuplicate = !!this.pluginsById[plugin.instanceId];
+    if (!isDuplicate) this.pluginsById[plugin.instanceId] = plugin;
+
+    plugin.initInternalEntity(
+      this,
+      (isParentValid && parentEntityId) || this._rootEntityId,
+      // the duplicate needs its own entity id, since the plugin id is used to build it
+      isDuplicate ? `$PLUGINS/${plugin.instanceId}/${this.generateEntityId()}` : undefined,
+    );
+    if (isDuplicate) {
+      plugin.internalEntity!.schemaErrors.push(new SchemaError(`Plugin instance IDs must be unique - duplicate id detected "${plugin.instanceId}"`));
+    }
+    if (!isParentValid) {
+      plugin.internalEntity!.schemaErrors.push(new SchemaError(`Invalid parent entity ID "${parentEntityId}" for plugin ${plugin.instanceId}`));
+    }
   }
 
   // these dags probably should be private, but for now we are reaching up into them to manipulate them
@@ -187,7 +270,7 @@ export class Configraph<
 
     this.initEntitiesDag();
 
-    const postProcessFns: Array<() => void> = [];
+    const postProcessFns: Array<{ node: ConfigraphNode, fn: () => void }> = [];
     for (const entity of this.sortedEntities) {
       const ancestorIds = entity.ancestorIds;
 
@@ -203,6 +286,9 @@ export class Configraph<
             : (rawPickItem.entityId || this._rootEntityId);
           const isPickingFromAncestor = ancestorIds.includes(pickFromEntityId);
           const rawPickKey = _.isString(rawPickItem) ? rawPickItem : rawPickItem.key;
+          if (!_.isString(rawPickItem) && rawPickItem.transformValue && 'value' in rawPickItem) {
+            entity.schemaErrors.push(new SchemaError('Picked items cannot set both `value` and `transformValue`'));
+          }
           const pickFromService = this.entitiesById[pickFromEntityId];
           if (!pickFromService) {
           // NOTE: we've already added a schema error if item is picking from an non-existant service
@@ -249,13 +335,20 @@ export class Configraph<
 
           // if it's a function, we'll be filtering from the list of potential items
           } else if (_.isFunction(rawPickKey)) { // fn that filters keys
-            const pickKeysViaFilter = _.filter(allowedKeysToPickFrom, rawPickKey);
+            let pickKeysViaFilter: Array<string>;
+            try {
+              pickKeysViaFilter = _.filter(allowedKeysToPickFrom, rawPickKey);
+            } catch (err) {
+              entity.schemaErrors.push(new SchemaError(`Pick from ${pickFromEntityId} key filter fn failed`, { err: err as Error }));
+              continue;
+            }
 
             // we probably want to warn the user if the filter selected nothing?
             if (!pickKeysViaFilter.length) {
-              // TODO: we may want to mark this error as a "warning" or something?
-              // or some other way of configuring / ignoring
-              entity.schemaErrors.push(new SchemaError(`Pick from ${pickFromEntityId} using key filter fn had no matches`));
+              entity.schemaErrors.push(new SchemaError(`Pick from ${pickFromEntityId} using key filter fn had no matches`, {
+                severity: 'warning',
+                code: 'PICK_FILTER_NO_MATCHES',
+              }));
             } else {
               keysToPick.push(...pickKeysViaFilter);
               // console.log('pick keys by filter', pickKeysViaFilter);
@@ -284,13 +377,22 @@ export class Configraph<
 
               // or a function to transform the existing key
               } else {
-                newKeyName = rawPickItem.renameKey(pickKey);
+                try {
+                  newKeyName = rawPickItem.renameKey(pickKey);
+                } catch (err) {
+                  entity.schemaErrors.push(new SchemaError(`Pick from ${pickFromEntityId} renameKey fn failed`, { err: err as Error }));
+                  continue;
+                }
               }
             }
 
             entity.addConfigNode(newKeyName, {
               sourceNode: pickFromService.configNodes[pickKey],
-              transformValue: _.isString(rawPickItem) ? undefined : rawPickItem.transformValue,
+              ...!_.isString(rawPickItem) && {
+                transformValue: rawPickItem.transformValue,
+                typeOverrides: rawPickItem.typeOverrides,
+                ...'value' in rawPickItem && { value: rawPickItem.value },
+              },
             });
           }
         }
@@ -313,9 +415,12 @@ export class Configraph<
 
         this.nodesByFullPath[node.fullPath] = node;
         // calls process on each item's resolver, and collects "post-processing" functions to call if necessary
-        const nodePostProcessFns = node.valueResolver?.process(node);
-        postProcessFns.push(...nodePostProcessFns || []);
-        // TODO: handle errors - attach as schema errors to resolver / node?
+        try {
+          const nodePostProcessFns = node.valueResolver?.process(node);
+          postProcessFns.push(..._.map(nodePostProcessFns || [], (fn) => ({ node, fn })));
+        } catch (err) {
+          node.schemaErrors.push(toSchemaError(err));
+        }
       }
 
       entity.initOverrides();
@@ -323,8 +428,12 @@ export class Configraph<
 
     // after the entire graph of config nodes have been processed, we'll call post-processing functions
     // this is needed for `collect()` where we need child entities and their nodes to be initialized
-    postProcessFns.forEach((postProcessFn) => {
-      postProcessFn();
+    postProcessFns.forEach(({ node, fn }) => {
+      try {
+        fn();
+      } catch (err) {
+        node.schemaErrors.push(toSchemaError(err));
+      }
     });
 
     // add declared dependencies to the node graph
@@ -345,22 +454,10 @@ export class Configraph<
 
     let nodeIdsToResolve = graphlib.alg.topsort(this.nodesDag);
     // console.log('sorted node ids', nodeIdsToResolve);
-    let nextBatchNodeIds: Array<string> = [];
     while (nodeIdsToResolve.length) {
-      let resolvedCount = 0;
       debug('resolving batch', nodeIdsToResolve);
-      for (const nodeId of nodeIdsToResolve) {
-        const node = this.nodesByFullPath[nodeId];
-        // currently this resolve fn will trigger resolve on nested items
-        const nodeWasResolved = node.isResolved;
-        await node.resolve();
-        // for objects, the node first gets "resolved" but not "fully resolved" (where child values rolled back up)
-        // but this is still considered progress so we track it
-        if (!nodeWasResolved && node.isResolved) resolvedCount++;
-        if (!node.isFullyResolved) {
-          nextBatchNodeIds.push(nodeId);
-        }
-      }
+      const resolvedCount = await this.resolveNodesBatch(nodeIdsToResolve);
+      const nextBatchNodeIds = nodeIdsToResolve.filter((nodeId) => !this.nodesByFullPath[nodeId].isFullyResolved);
 
       if (nextBatchNodeIds.length > 0) {
         // if this batch yielded no new resolutions, we can stop
@@ -369,14 +466,110 @@ export class Configraph<
           nodeIdsToResolve = [];
         } else {
           nodeIdsToResolve = nextBatchNodeIds;
-          nextBatchNodeIds = [];
         }
       } else {
         nodeIdsToResolve = [];
       }
     }
 
-    await this.cacheProvider?.save();
+    await this.saveCache();
+  }
+
+  /**
+   * resolves a batch of nodes (passed in sorted order), running independent nodes in parallel
+   * a node is started only once everything upstream of it within the batch has finished
+   * and we respect both the graph-wide and per-plugin concurrency limits
+   *
+   * returns the number of nodes that made progress (became resolved or fully resolved) during this batch
+   */
+  private async resolveNodesBatch(sortedNodeIds: Array<string>) {
+    const batchNodeIds = new Set(sortedNodeIds);
+
+    // track how many upstream nodes each node is still waiting on, and the reverse
+    const waitingOnCount: Record<string, number> = {};
+    const downstreamNodeIds: Record<string, Array<string>> = {};
+    const pluginIdsByNodeId: Record<string, Array<string>> = {};
+    for (const nodeId of sortedNodeIds) {
+      const node = this.nodesByFullPath[nodeId];
+      // child nodes are not connected to their parent in the DAG, but need the parent's value
+      const upstreamNodeIds = _.uniq([
+        ...this.nodesDag.predecessors(nodeId) || [],
+        ...node.parentNode ? [node.parentNode.fullPath] : [],
+      ]).filter((id) => batchNodeIds.has(id));
+      waitingOnCount[nodeId] = upstreamNodeIds.length;
+      for (const upstreamNodeId of upstreamNodeIds) {
+        downstreamNodeIds[upstreamNodeId] ||= [];
+        downstreamNodeIds[upstreamNodeId].push(nodeId);
+      }
+      pluginIdsByNodeId[nodeId] = node.valueResolver?.getPluginIds() || [];
+    }
+
+    const getPluginLimit = (pluginId: string) => {
+      return Math.max(1, this.pluginsById[pluginId]?.resolutionConcurrency ?? Infinity);
+    };
+    const maxConcurrency = Math.max(1, this.resolutionConcurrency);
+
+    const readyNodeIds = sortedNodeIds.filter((nodeId) => !waitingOnCount[nodeId]);
+    const runningCountByPluginId: Record<string, number> = {};
+    let runningCount = 0;
+    let resolvedCount = 0;
+
+    await new Promise<void>((resolveBatch, rejectBatch) => {
+      const startNode = (nodeId: string) => {
+        const pluginIds = pluginIdsByNodeId[nodeId];
+        runningCount++;
+        pluginIds.forEach((pluginId) => {
+          runningCountByPluginId[pluginId] = (runningCountByPluginId[pluginId] || 0) + 1;
+        });
+
+        const node = this.nodesByFullPath[nodeId];
+        // currently this resolve fn will trigger resolve on nested items
+        const nodeWasResolved = node.isResolved;
+        const nodeWasFullyResolved = node.isFullyResolved;
+        node.resolve().then(() => {
+          // for objects, the node first gets "resolved" but not "fully resolved" (where child values rolled back up)
+          // but this is still considered progress so we track it
+          // and since nodes resolve in parallel, a node may need a retry to succeed after previously erroring
+          if (!nodeWasResolved && node.isResolved) resolvedCount++;
+          else if (!nodeWasFullyResolved && node.isFullyResolved) resolvedCount++;
+
+          runningCount--;
+          pluginIds.forEach((pluginId) => {
+            runningCountByPluginId[pluginId]--;
+          });
+          // downstream nodes are added in order, so the ready list stays roughly topologically sorted
+          for (const downstreamNodeId of downstreamNodeIds[nodeId] || []) {
+            waitingOnCount[downstreamNodeId]--;
+            if (waitingOnCount[downstreamNodeId] === 0) readyNodeIds.push(downstreamNodeId);
+          }
+          startReadyNodes();
+        }).catch(rejectBatch);
+      };
+
+      const startReadyNodes = () => {
+        if (!readyNodeIds.length && !runningCount) {
+          resolveBatch();
+          return;
+        }
+        let i = 0;
+        while (i < readyNodeIds.length && runningCount < maxConcurrency) {
+          const nodeId = readyNodeIds[i];
+          // skip over nodes whose plugins are already at their limit
+          const isPluginLimitReached = pluginIdsByNodeId[nodeId].some(
+            (pluginId) => (runningCountByPluginId[pluginId] || 0) >= getPluginLimit(pluginId),
+          );
+          if (isPluginLimitReached) {
+            i++;
+          } else {
+            readyNodeIds.splice(i, 1);
+            startNode(nodeId);
+          }
+        }
+      };
+      startReadyNodes();
+    });
+
+    return resolvedCount;
   }
 
   getItemByPath(fullPath: string) {
@@ -393,12 +586,95 @@ export class Configraph<
     this.cacheMode = cacheMode;
   }
   cacheProvider?: ConfigraphCachingProvider;
-  async getCacheItem(key: string, nodeFullPath: string): Promise<ConfigValue | undefined> {
+  /**
+   * when enabled, expired cache entries are still used, while a fresh value is fetched in the background
+   * useful in dev mode where we'd rather not block on refreshing a short-lived secret
+   */
+  cacheStaleWhileRevalidate = false;
+  setCacheStaleWhileRevalidate(enabled: boolean) {
+    debug(`Config loader - setting cache stale-while-revalidate = ${enabled}`);
+    this.cacheStaleWhileRevalidate = enabled;
+  }
+  async getCacheItem(
+    key: string,
+    nodeFullPath: string,
+    opts?: GetCacheItemOptions,
+  ): Promise<ConfigValue | undefined> {
     if (!this.cacheProvider || this.cacheMode === 'skip') return undefined;
-    return this.cacheProvider.getItem(key, nodeFullPath);
+    const cachedValue = await this.cacheProvider.getItem(key, nodeFullPath, _.pick(opts, 'maxAge'));
+    if (cachedValue !== undefined) return cachedValue;
+
+    if (!this.cacheStaleWhileRevalidate || !opts?.revalidate) return undefined;
+    const staleValue = await this.cacheProvider.getItem(key, nodeFullPath, { allowStale: true });
+    if (staleValue === undefined) return undefined;
+
+    debug(`using stale cache item "${key}" while revalidating`);
+    this.revalidateCacheItem(key, nodeFullPath, opts.revalidate, _.pick(opts, 'maxAge'));
+    return staleValue;
   }
-  async setCacheItem(key: string, value: ConfigValue, nodeFullPath: string) {
+  async setCacheItem(key: string, value: ConfigValue, nodeFullPath: string, opts?: CacheItemOptions) {
     if (!this.cacheProvider || this.cacheMode === 'skip') return;
-    return this.cacheProvider.setItem(key, value, nodeFullPath);
+    return this.cacheProvider.setItem(key, value, nodeFullPath, opts);
+  }
+
+  private cacheRevalidations: Record<string, Promise<void>> = {};
+  private revalidateCacheItem(
+    key: string,
+    nodeFullPath: string,
+    getFreshValue: () => Promise<ConfigValue>,
+    opts?: CacheItemOptions,
+  ) {
+    // only one revalidation at a time per key
+    if (key in this.cacheRevalidations) return;
+    this.cacheRevalidations[key] = (async () => {
+      try {
+        const freshValue = await getFreshValue();
+        if (freshValue !== undefined && freshValue !== null) {
+          await this.setCacheItem(key, freshValue, nodeFullPath, opts);
+          await this.saveCache();
+        }
+      } catch (err) {
+        // we keep using the stale value, and will try again next time
+        debug(`failed to revalidate cache item "${key}"`, err);
+      } finally {
+        delete this.cacheRevalidations[key];
+      }
+    })();
+  }
+  /** wait for any background cache revalidations (see `cacheStaleWhileRevalidate`) to finish */
+  async waitForCacheRevalidations() {
+    await Promise.all(Object.values(this.cacheRevalidations));
+  }
+
+  // saves are chained so background revalidations and the end of resolution do not write at the same time
+  private cacheSavePromise: Promise<void> = Promise.resolve();
+  private async saveCache() {
+    this.cacheSavePromise = this.cacheSavePromise
+      .catch(() => {})
+      .then(() => this.cacheProvider?.save());
+    return this.cacheSavePromise;
+  }
+
+  // since nodes resolve in parallel, multiple resolvers may try to generate a value for the same key at once
+  // so we only let one through at a time, and the others will then find the value in the cache
+  // locks are never nested (ex: a resolver with a cache key calling `getOrSetCacheItem`)
+  // since taking 2 locks in a different order elsewhere could deadlock
+  private cacheKeyLocks: Record<string, Promise<void>> = {};
+  async withCacheKeyLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    if (!this.cacheProvider || this.cacheMode === 'skip') return fn();
+    if (cacheKeyLockAls.getStore()) return fn();
+    const prevLock = this.cacheKeyLocks[key];
+    let releaseLock!: () => void;
+    const lock = new Promise<void>((resolve) => {
+      releaseLock = resolve;
+    });
+    this.cacheKeyLocks[key] = lock;
+    await prevLock;
+    try {
+      return await cacheKeyLockAls.run(true, fn);
+    } finally {
+      releaseLock();
+      if (this.cacheKeyLocks[key] === lock) delete this.cacheKeyLocks[key];
+    }
   }
 }
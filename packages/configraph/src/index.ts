@@ -4,11 +4,12 @@ export {
 } from './common';
 export {
   ConfigraphEntity,
-  ConfigraphPickSchemaEntryOrShorthand,
+  ConfigraphPickSchemaEntryOrShorthand, PickTypeOverrides,
+  splitNodePath,
 } from './entity';
-export { ConfigraphEntityTemplate } from './entity-template';
+export { ConfigraphEntityTemplate, resolveTemplateEntityId } from './entity-template';
 export {
-  ConfigraphNode,
+  ConfigraphNode, InvalidChildError, ConfigraphNodeProvenance,
 } from './config-node';
 export {
   ConfigraphDataTypesRegistry,
@@ -19,9 +20,14 @@ export {
   ConfigraphDataTypeFactoryFn,
   ConfigraphTypeExtendsDefinition,
   TypeValidationResult,
+  CoercionStep,
+  DEFAULT_ASYNC_VALIDATE_TIMEOUT,
+  ConfigraphDataTypeAdapter, defaultConfigraphDataTypesRegistry,
 } from './data-types';
 
-export { inject, collect } from './injection';
+export {
+  inject, collect, InjectionSearchScope, InjectionSearchOptions, CollectOptions,
+} from './injection';
 export {
   createResolver,
   ConfigValueResolver,
@@ -29,8 +35,10 @@ export {
   ConfigValue, getResolverCtx,
 } from './resolvers';
 export * from './resolvers/switch';
+export * from './resolvers/conditional';
 export * from './resolvers/cache-resolver';
-export * from './resolvers/config-path';
+export { configPath } from './resolvers/config-path';
+export * from './resolvers/template';
 
 export * from './errors';
 export * from './serialization-types';
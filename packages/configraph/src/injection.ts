@@ -1,107 +1,158 @@
+import _ from 'lodash-es';
 import { ConfigraphNode } from './config-node';
+import { ConfigraphEntity } from './entity';
 import { SchemaError } from './errors';
-import { createResolver } from './resolvers';
+import { ConfigValueResolver, createResolver, ResolverContext } from './resolvers';
 
-export function inject(injectOpts?: {}) {
-  return createResolver({
-    label: 'inject',
-    icon: 'fluent:swipe-down-24-regular',
-    process() {
-      if (this.configNode.type.injectable === false) {
-        this.configNode.schemaErrors.push(new SchemaError(`Type ${this.configNode.type.typeLabel} is not injectable`));
-        return;
-      }
+export type InjectionSearchScope = 'self' | 'parent' | 'ancestors' | 'descendants';
 
-      // TODO: should we scan the current entity first? maybe as an option? maybe only if within a nested object node?
-      // if we do, we must filter skip the current item!
-      const containingEntity = this.configNode.parentEntity!;
-      let entityToSearch = containingEntity.parentEntity;
-      const matchingNodes: Array<ConfigraphNode> = [];
-      while (entityToSearch) {
-        for (const nodeToCheck of entityToSearch.flatConfigNodes) {
-          // TODO: we'll want to check some graph-level registry of "compatible" types
-          if (nodeToCheck.type.extendsType(this.configNode.type.typeFactoryFn)) {
-            matchingNodes.push(nodeToCheck);
+export type InjectionSearchOptions = {
+  /**
+   * which entities to search for matching nodes
+   * defaults to "ancestors" for `inject()` and "descendants" for `collect()`
+   */
+  scope?: InjectionSearchScope,
+  /** max number of levels to walk up/down when searching ancestors/descendants */
+  maxDepth?: number,
+  /** only match nodes within entities with these id(s) */
+  entityId?: string | Array<string>,
+  /** only match nodes within entities with these tag(s) */
+  entityTag?: string | Array<string>,
+};
+
+export type CollectOptions = InjectionSearchOptions & {
+  /**
+   * collect all matches (from all levels) into a deduped array, rather than a single value
+   * if the node is an array, its item type will be used to find matches
+   */
+  multiple?: boolean,
+};
+
+/** returns the entities to search, grouped by level - ordered from closest to farthest */
+function getEntitiesToSearch(containingEntity: ConfigraphEntity, opts: InjectionSearchOptions) {
+  const scope = opts.scope!;
+  if (scope === 'self') return [[containingEntity]];
+
+  const maxDepth = scope === 'parent' ? 1 : (opts.maxDepth ?? Infinity);
+  const levels: Array<Array<ConfigraphEntity>> = [];
+  let currentLevel = [containingEntity];
+  while (levels.length < maxDepth) {
+    if (scope === 'descendants') {
+      currentLevel = _.flatMap(currentLevel, (e) => e.childEntities || []);
+    } else {
+      const parentEntity = currentLevel[0].parentEntity;
+      currentLevel = parentEntity ? [parentEntity] : [];
+    }
+    if (!currentLevel.length) break;
+    levels.push(currentLevel);
+  }
+  return levels;
+}
+
+/**
+ * finds nodes within other entities that match the injection target type
+ * in single mode, we stop at the first level where we find matches
+ */
+function findInjectionMatches(
+  resolver: ConfigValueResolver,
+  opts: CollectOptions,
+  errorPrefix: string,
+  /** `inject()` also checks the children of object nodes, while `collect()` only checks top-level nodes */
+  searchChildNodes: boolean,
+) {
+  const configNode = resolver.configNode;
+  // in multiple mode, array nodes match using their item type
+  const matchType = (opts.multiple && configNode.itemType) || configNode.type;
+  if (matchType.injectable === false) {
+    configNode.schemaErrors.push(new SchemaError(`Type ${matchType.typeLabel} is not injectable`));
+    return;
+  }
+
+  const entityIds = opts.entityId ? _.castArray(opts.entityId) : undefined;
+  const entityTags = opts.entityTag ? _.castArray(opts.entityTag) : undefined;
+
+  const typeRegistry = configNode.parentEntity!.graphRoot.defaultDataTypeRegistry;
+  const matchingNodes: Array<ConfigraphNode> = [];
+  resolver.injectionValueTransforms = {};
+  for (const levelEntities of getEntitiesToSearch(configNode.parentEntity!, opts)) {
+    for (const entityToSearch of levelEntities) {
+      if (entityIds && !entityIds.includes(entityToSearch.id)) continue;
+      if (entityTags && !_.intersection(entityTags, entityToSearch.tags).length) continue;
+
+      const nodesToCheck = searchChildNodes ? entityToSearch.flatConfigNodes : _.values(entityToSearch.configNodes);
+      for (const nodeToCheck of nodesToCheck) {
+        // when searching the current entity, we must skip the node itself
+        if (nodeToCheck === configNode) continue;
+        // matches types extending the target type, or unrelated types with a registered adapter
+        const compatibility = typeRegistry.getInjectionCompatibility(nodeToCheck.type, matchType);
+        if (compatibility) {
+          matchingNodes.push(nodeToCheck);
+          if (compatibility.transformValue) {
+            resolver.injectionValueTransforms[nodeToCheck.fullPath] = compatibility.transformValue;
           }
         }
-        // if we've found matches in this entity, we stop going up
-        // TODO: is there a case where we want to keep going and collect multiple?
-        if (matchingNodes.length > 0) break;
-
-        // TODO: options for how many levels up to search, or otherwise where to stop
-        entityToSearch = entityToSearch.parentEntity;
       }
+    }
+    // if we've found matches at this level, we stop searching unless collecting multiple
+    if (matchingNodes.length > 0 && !opts.multiple) break;
+  }
 
-      // if we didn't find anything to inject, we'll add a schema error
-      if (!matchingNodes.length) {
-        this.configNode.schemaErrors.push(new SchemaError(`Injection failed - unable to find match for type ${this.configNode.type.typeLabel}`));
-      // or if we found multiple matches in the same entity
-      // (we could add some options around this?)
-      } else if (matchingNodes.length > 1) {
-        this.configNode.schemaErrors.push(new SchemaError(`Injection failed - found multiple matches for type ${this.configNode.type.typeLabel}`));
-      } else {
-        this.dependsOnPathsObj[matchingNodes[0].fullPath] = 'schema';
-      }
+  // if we didn't find anything to inject, we'll add a schema error
+  if (!matchingNodes.length) {
+    configNode.schemaErrors.push(new SchemaError(`${errorPrefix} failed - unable to find match for type ${matchType.typeLabel}`));
+  // or if we found multiple matches in the same level
+  } else if (matchingNodes.length > 1 && !opts.multiple) {
+    configNode.schemaErrors.push(new SchemaError(`${errorPrefix} failed - found multiple matches for type ${matchType.typeLabel}`, {
+      tip: `Use the \`entityId\` or \`entityTag\` options to choose between: ${_.map(matchingNodes, (n) => n.fullPath).join(', ')}`,
+    }));
+  } else {
+    for (const matchingNode of matchingNodes) {
+      resolver.dependsOnPathsObj[matchingNode.fullPath] = 'schema';
+    }
+  }
+}
+
+/** gets the injected dependency values, with any type adapter transforms applied */
+function getInjectedValues(ctx: ResolverContext) {
+  return _.map(ctx.getDeclaredDependencyValues(), (val, fullPath) => {
+    const transformValue = ctx.resolver?.injectionValueTransforms?.[fullPath];
+    if (transformValue && val !== undefined && val !== null) return transformValue(val);
+    return val;
+  });
+}
+
+export function inject(injectOpts?: InjectionSearchOptions) {
+  return createResolver({
+    label: 'inject',
+    icon: 'fluent:swipe-down-24-regular',
+    process() {
+      // we run the search after all entities are processed, so that matches in any scope exist
+      return () => {
+        findInjectionMatches(this, { scope: 'ancestors', ...injectOpts }, 'Injection', true);
+      };
     },
     resolve(ctx) {
-      // not quite sure about this yet...
-      const vals = ctx.getDeclaredDependencyValues();
-      return vals[Object.keys(vals)[0]];
+      return getInjectedValues(ctx)[0];
     },
   });
 }
 
-export function collect(collectOpts?: {}) {
+export function collect(collectOpts?: CollectOptions) {
   return createResolver({
     label: 'collect',
-    // TODO: toggle icon depending on single/multi?
-    icon: 'fluent:double-swipe-up-24-regular',
+    icon: collectOpts?.multiple ? 'fluent:arrow-sync-24-regular' : 'fluent:double-swipe-up-24-regular',
     process() {
-      if (this.configNode.type.injectable === false) {
-        this.configNode.schemaErrors.push(new SchemaError(`Type ${this.configNode.type.typeLabel} is not injectable`));
-        return;
-      }
-
+      // child entities and their nodes are not initialized until after this entity is processed
       return () => {
-        const containingEntity = this.configNode.parentEntity!;
-        const entitiesToSearch = [...containingEntity.childEntities];
-        const matchingNodes: Array<ConfigraphNode> = [];
-        while (entitiesToSearch.length) {
-          const entityToSearch = entitiesToSearch.shift()!;
-          entitiesToSearch.push(...entityToSearch.childEntities || []);
-          // TODO: support nested objects - scan a flattened list instead?
-          for (const nodeKey in entityToSearch.configNodes) {
-            const nodeToCheck = entityToSearch.configNodes[nodeKey];
-
-            // TODO: we'll want to check some graph-level registry of "compatible" types
-            if (nodeToCheck.type.extendsType(this.configNode.type.typeFactoryFn)) {
-              matchingNodes.push(nodeToCheck);
-            }
-          }
-          // if we've found matches in this entity, we stop going up
-          // TODO: support multiple mode, and we'll need to dedupe
-          if (matchingNodes.length > 0) break;
-
-          // TODO: options for how many levels down to search, or otherwise where to stop
-        }
-
-        // if we didn't find anything to inject, we'll add a schema error
-        if (!matchingNodes.length) {
-          this.configNode.schemaErrors.push(new SchemaError(`Collect failed - unable to find match for type ${this.configNode.type.typeLabel}`));
-          // or if we found multiple matches in the same entity
-          // (we could add some options around this?)
-        } else if (matchingNodes.length > 1) {
-          // TODO: multiple mode will toggle this on/off
-          this.configNode.schemaErrors.push(new SchemaError(`Collect failed - found multiple matches for type ${this.configNode.type.typeLabel}`));
-        } else {
-          this.dependsOnPathsObj[matchingNodes[0].fullPath] = 'schema';
-        }
+        findInjectionMatches(this, { scope: 'descendants', ...collectOpts }, 'Collect', false);
       };
     },
     resolve(ctx) {
-      // not quite sure about this yet...
-      const vals = ctx.getDeclaredDependencyValues();
-      return vals[Object.keys(vals)[0]];
+      const vals = getInjectedValues(ctx);
+      if (!collectOpts?.multiple) return vals[0];
+      // empty values are skipped, and duplicates removed (ex: multiple services with the same url)
+      const collectedVals = _.filter(vals, (v) => v !== undefined && v !== null);
+      return _.uniqWith(collectedVals, _.isEqual);
     },
   });
 }
@@ -10,6 +10,7 @@ import {
 } from './resolvers';
 import { ConfigraphEntity } from './entity';
 import { SerializedConfigraphPlugin } from './serialization-types';
+import { serializeErrors } from './errors';
 import { Configraph } from './graph';
 
 export type PluginInputValue = InlineValueResolverDef;
@@ -28,25 +29,33 @@ EntityClass extends ConfigraphEntity = ConfigraphEntity,
   get parentEntityId() { return this.internalEntity?.parentId!; }
 
   readonly inputSchema: PluginInputSchema<NodeMetadata>;
+  /** max number of nodes using this plugin's resolvers that will be resolved in parallel */
+  readonly resolutionConcurrency?: number;
 
   internalEntity?: EntityClass;
   constructor(
     readonly instanceId: string,
     readonly opts: {
       inputSchema: PluginInputSchema<NodeMetadata>,
+      /**
+       * max number of nodes using this plugin's resolvers that will be resolved in parallel
+       * useful if the underlying service has rate limits
+       */
+      resolutionConcurrency?: number,
     },
   ) {
     this.inputSchema = opts.inputSchema;
+    this.resolutionConcurrency = opts.resolutionConcurrency;
   }
 
 
   // @ts-ignore
   EntityClass: (new (...args: Array<any>) => N) = ConfigraphEntity;
 
-  initInternalEntity(graphRoot: Configraph, parentEntityId: string) {
+  initInternalEntity(graphRoot: Configraph, parentEntityId: string, entityId?: string) {
     this.internalEntity = new this.EntityClass(graphRoot, {
       // TODO: something better for the id? figure out what characters are reserved?
-      id: `$PLUGINS/${this.instanceId}`,
+      id: entityId ?? `$PLUGINS/${this.instanceId}`,
       parentId: parentEntityId,
       configSchema: this.inputSchema,
     });
@@ -114,6 +123,7 @@ EntityClass extends ConfigraphEntity = ConfigraphEntity,
   get isValid() { return this.internalEntity?.isValid; }
   get isSchemaValid() { return this.internalEntity?.isSchemaValid; }
   get schemaErrors() { return this.internalEntity?.schemaErrors; }
+  get warnings() { return this.internalEntity?.warnings; }
 
 
   toCoreJSON(): SerializedConfigraphPlugin {
@@ -123,10 +133,8 @@ EntityClass extends ConfigraphEntity = ConfigraphEntity,
       pluginType: this.pluginType,
       isValid: this.isValid,
       isSchemaValid: this.isSchemaValid,
-      schemaErrors:
-        this.schemaErrors?.length
-          ? _.map(this.schemaErrors, (err) => err.toJSON())
-          : undefined,
+      schemaErrors: serializeErrors(_.reject(this.schemaErrors, (err) => err.isWarning)),
+      warnings: serializeErrors(this.warnings),
       inputNodes: _.mapValues(this.internalEntity?.configNodes, (n) => n.toCoreJSON()),
       usedByConfigItemResolverPaths: _.map(this.resolvers, (r) => r.fullPath),
     };
@@ -3,6 +3,7 @@ import { AsyncLocalStorage } from 'node:async_hooks';
 import _ from 'lodash-es';
 import { ConfigraphNode } from './config-node';
 import { ResolutionError } from './errors';
+import { CacheItemOptions, CacheMaxAge, GetCacheItemOptions } from './caching';
 import { SerializedResolver, SerializedResolverBranch } from '.';
 
 
@@ -37,6 +38,11 @@ type ResolverDefinition = {
   // createdByPlugin?: DmnoPlugin,
   createdByPluginId?: string,
 
+  /**
+   * set if the resolved value directly embeds the values of its dependencies (ex: string templates)
+   * so that properties of those dependencies (like being sensitive) can carry over
+   */
+  embedsDependencyValues?: boolean,
 
   /** set a specific icon for the resolver, will default to the plugin's icon if set */
   icon?: ValueOrValueGetter<string>,
@@ -47,6 +53,11 @@ type ResolverDefinition = {
    * this is just a convenience to avoid having to explicityl interact with the caching logic directly
    * */
   cacheKey?: ValueOrValueGetter<string>,
+  /**
+   * how long the cached value is valid for (seconds, or a duration string like `1h`)
+   * only applies if `cacheKey` is set, and defaults to never expiring
+   * */
+  cacheMaxAge?: CacheMaxAge,
 
   /**
    * function that will be called while processing the graph's schema
@@ -104,6 +115,12 @@ export class ConfigValueResolver {
   isResolved = false;
   resolvedValue?: ConfigValue;
   isUsingCache = false;
+  /** cache key used during the last resolution, if any */
+  cacheKey?: string;
+  /** transforms from registered type adapters, keyed by the injected node's path - see `inject()` / `collect()` */
+  injectionValueTransforms?: Record<string, (val: any) => any>;
+  /** full paths of the nodes referenced by a `template()`, keyed by the reference */
+  templateRefFullPaths?: Record<string, string>;
 
   resolutionError?: ResolutionError;
   get selfOrChildResolutionError(): ResolutionError | undefined {
@@ -134,6 +151,22 @@ export class ConfigValueResolver {
     if (!this._configNode) throw new Error('expected resolver configNode to be set');
     return this._configNode;
   }
+  get isAttachedToNode() { return !!this._configNode; }
+
+  /**
+   * creates a fresh copy of this resolver (and any branch resolvers) with no processing/resolution state
+   * used when the same resolver definition is shared by multiple nodes - ex: a template instantiated multiple times
+   */
+  clone(): ConfigValueResolver {
+    if (!('resolveBranches' in this.def)) return new ConfigValueResolver(this.def);
+    return new ConfigValueResolver({
+      ...this.def,
+      resolveBranches: this.def.resolveBranches.map((branchDef) => ({
+        ...branchDef,
+        resolver: branchDef.resolver.clone(),
+      })),
+    });
+  }
 
   get parentResolver() {
     return this.linkedBranch?.parentResolver;
@@ -159,6 +192,8 @@ export class ConfigValueResolver {
 
   resetResolutionState() {
     delete this.resolutionError;
+    delete this.cacheKey;
+    this.isUsingCache = false;
     for (const depPath in this.dependsOnPathsObj) {
       if (this.dependsOnPathsObj[depPath] === 'resolution') {
         delete this.dependsOnPathsObj[depPath];
@@ -188,6 +223,14 @@ export class ConfigValueResolver {
   }
   get dependsOnPaths() { return _.keys(this.dependsOnPathsObj); }
 
+  /** ids of plugins which created this resolver or any of its child branch resolvers */
+  getPluginIds(): Array<string> {
+    return _.uniq(_.compact([
+      this.def.createdByPluginId,
+      ..._.flatMap(this.branches, (b) => b.resolver.getPluginIds()),
+    ]));
+  }
+
   process(item: ConfigraphNode): void | Array<() => void> {
     const postProcessFns = [];
     // call process fn if one is defined
@@ -219,10 +262,27 @@ export class ConfigValueResolver {
       // TODO: should add error handling here
       cacheKey = this.def.cacheKey(ctx);
     }
+
+    if (cacheKey) {
+      // other resolvers may be generating a value for the same key at the same time
+      // so we wait for them to finish, and will then find their value in the cache
+      await ctx.withCacheKeyLock(cacheKey, () => this.resolveValue(ctx, cacheKey));
+    } else {
+      await this.resolveValue(ctx);
+    }
+  }
+
+  private async resolveValue(ctx: ResolverContext, cacheKey?: string) {
     // if a cache key is set, we first check the cache and return that value if found
     if (cacheKey) {
+      const resolveFn = 'resolve' in this.def ? this.def.resolve : undefined;
       // console.log(kleur.bgMagenta(`CHECK VALUE CACHE FOR KEY: ${this.cacheKey}`));
-      const cachedValue = await ctx.getCacheItem(cacheKey);
+      const cachedValue = await ctx.getCacheItem(cacheKey, {
+        maxAge: this.def.cacheMaxAge,
+        // in stale-while-revalidate mode, we can re-run a simple resolver in the background
+        // (branched resolvers must be re-resolved normally)
+        ...resolveFn && { revalidate: async () => resolveFn.call(this.def, ctx) },
+      });
       if (cachedValue !== undefined) {
         // console.log(kleur.bgMagenta('> USING CACHED VALUE!'));
         this.resolvedValue = cachedValue;
@@ -296,7 +356,7 @@ export class ConfigValueResolver {
     // save result in cache if this resolver has a cache key
     if (cacheKey && this.resolvedValue !== undefined && this.resolvedValue !== null) {
       // console.log(kleur.bgMagenta(`SAVE CACHED VALUE IN KEY: ${this.cacheKey}`));
-      await ctx.setCacheItem(cacheKey, this.resolvedValue);
+      await ctx.setCacheItem(cacheKey, this.resolvedValue, { maxAge: this.def.cacheMaxAge });
     }
   }
 
@@ -306,6 +366,7 @@ export class ConfigValueResolver {
       icon: this.icon,
       label: this.label,
       createdByPluginId: this.def.createdByPluginId,
+      ...this.cacheKey && { cacheKey: this.cacheKey, isUsingCache: this.isUsingCache },
       // itemPath: this.configItem?.fullPath,
       // branchIdPath: this.branchIdPath,
       ...this.branches && {
@@ -360,7 +421,7 @@ export function processInlineResolverDef(resolverDef: InlineValueResolverDef) {
   // static value case - including explicitly setting to `undefined
   } else if (
     _.isString(resolverDef) || _.isNumber(resolverDef) || _.isBoolean(resolverDef)
-    || _.isPlainObject(resolverDef)
+    || _.isPlainObject(resolverDef) || _.isArray(resolverDef)
     || resolverDef === undefined
   ) {
     return createResolver({
@@ -412,6 +473,14 @@ export class ResolverContext {
   dependsOnPathsObj: Record<string, boolean> = {};
   get dependsOnPaths() { return _.keys(this.dependsOnPathsObj); }
 
+  /**
+   * adds a warning to the node being resolved, which is shown to the user but does not make it invalid
+   * pass a `code` to allow users to suppress it via `suppressWarnings`
+   */
+  warn(message: string, more?: { tip?: string | Array<string>, code?: string }) {
+    this.configNode.resolutionWarnings.push(new ResolutionError(message, { ...more, severity: 'warning' }));
+  }
+
   get(nodePath: string): any {
     const node = this.entity?.getConfigNodeByPath(nodePath);
     if (!node) {
@@ -444,6 +513,23 @@ export class ResolverContext {
     return node.resolvedValue;
   }
 
+  /** get the value of the source node, when resolving the `value` of a picked node */
+  getPickedValue(): any {
+    const sourceNode = this.configNode.pickFromNode;
+    if (!sourceNode) throw new Error('`getPickedValue()` can only be used on picked nodes');
+    if (!sourceNode.isResolved) {
+      throw new DependencyNotResolvedResolutionError(
+        `Tried to access picked node that was not yet resolved - ${sourceNode.fullPath}`,
+      );
+    }
+    if (!sourceNode.isValid) {
+      throw new DependencyInvalidResolutionError(
+        `Resolver tried to use picked node that is invalid - ${sourceNode.fullPath}`,
+      );
+    }
+    return sourceNode.resolvedValue;
+  }
+
   // TODO: needs a better name -
   // get the values of items we declared dependencies for during process()
   getDeclaredDependencyValues() {
@@ -464,19 +550,31 @@ export class ResolverContext {
   }
 
 
-  async getCacheItem(key: string) {
-    return this.entity?.graphRoot.getCacheItem(key, this.nodeFullPath);
+  async getCacheItem(key: string, opts?: GetCacheItemOptions) {
+    const cachedValue = await this.entity?.graphRoot.getCacheItem(key, this.nodeFullPath, opts);
+    // track cache usage on the resolver, so we can explain where a value came from
+    if (this.resolver) {
+      this.resolver.cacheKey = key;
+      if (cachedValue !== undefined) this.resolver.isUsingCache = true;
+    }
+    return cachedValue;
   }
-  async setCacheItem(key: string, value: ConfigValue) {
+  async setCacheItem(key: string, value: ConfigValue, opts?: CacheItemOptions) {
     if (value === undefined || value === null) return;
-    return this.entity?.graphRoot.setCacheItem(key, value, this.nodeFullPath);
-  }
-  async getOrSetCacheItem(key: string, getValToWrite: () => Promise<ConfigValue>) {
-    const cachedValue = await this.getCacheItem(key);
-    if (cachedValue !== undefined) return cachedValue;
-    const val = await getValToWrite();
-    await this.setCacheItem(key, val);
-    return val;
+    return this.entity?.graphRoot.setCacheItem(key, value, this.nodeFullPath, opts);
+  }
+  async withCacheKeyLock<T>(key: string, fn: () => Promise<T>) {
+    if (!this.entity) return fn();
+    return this.entity.graphRoot.withCacheKeyLock(key, fn);
+  }
+  async getOrSetCacheItem(key: string, getValToWrite: () => Promise<ConfigValue>, opts?: CacheItemOptions) {
+    return this.withCacheKeyLock(key, async () => {
+      const cachedValue = await this.getCacheItem(key, { ...opts, revalidate: getValToWrite });
+      if (cachedValue !== undefined) return cachedValue;
+      const val = await getValToWrite();
+      await this.setCacheItem(key, val, opts);
+      return val;
+    });
   }
 }
 
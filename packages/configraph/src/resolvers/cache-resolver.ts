@@ -4,26 +4,36 @@ import {
   ConfigValueResolver,
   createResolver,
 } from '../resolvers';
+import { CacheMaxAge } from '../caching';
 
 
 /**
  * helper fn to add caching to a value resolver that does not have it built-in
  * for example, a fn that generates a random number / key
+ *
+ * pass in an options object to also set a max age, after which the value will be regenerated
  * */
 export function cacheFunctionResult(resolverFn: ConfigValueInlineFunction): ConfigValueResolver;
 export function cacheFunctionResult(cacheKey: string, resolverFn: ConfigValueInlineFunction): ConfigValueResolver;
 export function cacheFunctionResult(
-  cacheKeyOrResolverFn: string | ConfigValueInlineFunction,
+  opts: { key?: string, maxAge?: CacheMaxAge },
+  resolverFn: ConfigValueInlineFunction
+): ConfigValueResolver;
+export function cacheFunctionResult(
+  cacheKeyOrOptsOrResolverFn: string | { key?: string, maxAge?: CacheMaxAge } | ConfigValueInlineFunction,
   resolverFn?: ConfigValueInlineFunction,
 ): ConfigValueResolver {
-  const explicitCacheKey = _.isString(cacheKeyOrResolverFn) ? cacheKeyOrResolverFn : undefined;
-  const fn = _.isString(cacheKeyOrResolverFn) ? resolverFn! : cacheKeyOrResolverFn;
+  let opts: { key?: string, maxAge?: CacheMaxAge } = {};
+  let fn = resolverFn!;
+  if (_.isFunction(cacheKeyOrOptsOrResolverFn)) fn = cacheKeyOrOptsOrResolverFn;
+  else if (_.isString(cacheKeyOrOptsOrResolverFn)) opts = { key: cacheKeyOrOptsOrResolverFn };
+  else opts = cacheKeyOrOptsOrResolverFn;
 
   return createResolver({
     icon: 'f7:function', // TODO: different fn for cached?
     label: 'cached fn',
-    cacheKey: explicitCacheKey || ((ctx) => ctx.resolverFullPath),
+    cacheKey: opts.key || ((ctx) => ctx.resolverFullPath),
+    cacheMaxAge: opts.maxAge,
     resolve: fn,
   });
 }
-
@@ -0,0 +1,204 @@
+import _ from 'lodash-es';
+import { SchemaError } from '../errors';
+import {
+  ConfigValueResolver, createResolver, InlineValueResolverDef, processInlineResolverDef, ResolverContext,
+} from '../resolvers';
+
+/**
+ * matches a value against a string (exact, or a glob using `*` / `?` - ex: `preview-*`), a RegExp,
+ * or an array of either, where any match counts
+ */
+export type ValueMatcher = string | RegExp | Array<string | RegExp>;
+
+function globToRegex(glob: string) {
+  const escaped = glob.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`^${escaped.replaceAll('*', '.*').replaceAll('?', '.')}$`);
+}
+
+export function checkValueMatches(val: any, matcher: ValueMatcher): boolean {
+  if (_.isArray(matcher)) return _.some(matcher, (m) => checkValueMatches(val, m));
+  // empty values never match
+  if (val === undefined || val === null) return false;
+  const valStr = String(val);
+  if (_.isRegExp(matcher)) return matcher.test(valStr);
+  if (matcher.includes('*') || matcher.includes('?')) return globToRegex(matcher).test(valStr);
+  return valStr === matcher;
+}
+
+function getMatcherLabel(matcher: ValueMatcher): string {
+  if (_.isArray(matcher)) return matcher.map(getMatcherLabel).join(' | ');
+  if (_.isRegExp(matcher)) return matcher.toString();
+  return `"${matcher}"`;
+}
+
+/** condition used to choose a branch, which can reference multiple nodes */
+export type ResolverCondition = {
+  label: string,
+  /** paths of nodes the condition reads, which are added as dependencies */
+  nodePaths: Array<string>,
+  check: (ctx: ResolverContext) => boolean,
+};
+/** a condition, a node path (checks if its value is truthy), or a custom function */
+export type ResolverConditionOrShorthand = ResolverCondition | string | ((ctx: ResolverContext) => boolean);
+
+function normalizeCondition(condition: ResolverConditionOrShorthand): ResolverCondition {
+  if (_.isString(condition)) {
+    return { label: condition, nodePaths: [condition], check: (ctx) => !!ctx.get(condition) };
+  }
+  if (_.isFunction(condition)) {
+    // node dependencies of custom functions are detected during resolution via `ctx.get`
+    return { label: 'custom condition', nodePaths: [], check: condition };
+  }
+  return condition;
+}
+
+export function whenEquals(nodePath: string, value: any): ResolverCondition {
+  return {
+    label: `${nodePath} === ${JSON.stringify(value)}`,
+    nodePaths: [nodePath],
+    check: (ctx) => ctx.get(nodePath) === value,
+  };
+}
+export function whenMatches(nodePath: string, matcher: ValueMatcher): ResolverCondition {
+  return {
+    label: `${nodePath} matches ${getMatcherLabel(matcher)}`,
+    nodePaths: [nodePath],
+    check: (ctx) => checkValueMatches(ctx.get(nodePath), matcher),
+  };
+}
+export function whenAll(...conditions: Array<ResolverConditionOrShorthand>): ResolverCondition {
+  const normalized = conditions.map(normalizeCondition);
+  return {
+    label: normalized.map((c) => `(${c.label})`).join(' && '),
+    nodePaths: _.uniq(_.flatMap(normalized, (c) => c.nodePaths)),
+    check: (ctx) => _.every(normalized, (c) => c.check(ctx)),
+  };
+}
+export function whenAny(...conditions: Array<ResolverConditionOrShorthand>): ResolverCondition {
+  const normalized = conditions.map(normalizeCondition);
+  return {
+    label: normalized.map((c) => `(${c.label})`).join(' || '),
+    nodePaths: _.uniq(_.flatMap(normalized, (c) => c.nodePaths)),
+    check: (ctx) => _.some(normalized, (c) => c.check(ctx)),
+  };
+}
+export function whenNot(condition: ResolverConditionOrShorthand): ResolverCondition {
+  const normalized = normalizeCondition(condition);
+  return {
+    label: `!(${normalized.label})`,
+    nodePaths: normalized.nodePaths,
+    check: (ctx) => !normalized.check(ctx),
+  };
+}
+
+/** adds schema dependencies on the nodes referenced by the conditions */
+function addConditionDependencies(resolver: ConfigValueResolver, nodePaths: Array<string>, helperName: string) {
+  const containingEntity = resolver.configNode.parentEntity!;
+  for (const nodePath of _.uniq(nodePaths)) {
+    let node;
+    try {
+      node = containingEntity.getConfigNodeByPath(nodePath);
+    } catch (err) {
+      // invalid nested paths are handled below
+    }
+    if (!node) {
+      resolver.configNode.schemaErrors.push(new SchemaError(`${helperName} referencing invalid path - ${nodePath}`));
+    } else {
+      resolver.dependsOnPathsObj[node.fullPath] = 'schema';
+    }
+  }
+}
+
+/**
+ * uses the value from the first case whose condition passes, otherwise the default (if set)
+ * @example switchWhen([[whenAll('IS_CI', whenMatches('APP_ENV', 'preview-*')), 'ci-preview']], 'other')
+ */
+export function switchWhen(
+  cases: Array<[ResolverConditionOrShorthand, InlineValueResolverDef]>,
+  defaultValue?: InlineValueResolverDef,
+) {
+  const normalizedCases = cases.map(([condition, value]) => [normalizeCondition(condition), value] as const);
+  return createResolver({
+    icon: 'gravity-ui:branches-right',
+    label: 'switch when',
+    process() {
+      addConditionDependencies(this, _.flatMap(normalizedCases, ([c]) => c.nodePaths), 'switchWhen');
+    },
+    resolveBranches: [
+      ...normalizedCases.map(([condition, value], i) => ({
+        id: `case-${i}`,
+        label: condition.label,
+        isDefault: false,
+        condition: condition.check,
+        resolver: processInlineResolverDef(value),
+      })),
+      {
+        id: '_default',
+        label: 'default',
+        isDefault: true,
+        condition: () => false,
+        resolver: processInlineResolverDef(defaultValue),
+      },
+    ],
+  });
+}
+
+/** choose between 2 values based on a condition */
+export function ifThenElse(
+  condition: ResolverConditionOrShorthand,
+  thenValue: InlineValueResolverDef,
+  elseValue?: InlineValueResolverDef,
+) {
+  const normalizedCondition = normalizeCondition(condition);
+  return createResolver({
+    icon: 'gravity-ui:branches-right',
+    label: `if ${normalizedCondition.label}`,
+    process() {
+      addConditionDependencies(this, normalizedCondition.nodePaths, 'ifThenElse');
+    },
+    resolveBranches: [
+      {
+        id: 'then',
+        label: normalizedCondition.label,
+        isDefault: false,
+        condition: normalizedCondition.check,
+        resolver: processInlineResolverDef(thenValue),
+      },
+      {
+        id: 'else',
+        label: `!(${normalizedCondition.label})`,
+        isDefault: true,
+        condition: () => false,
+        resolver: processInlineResolverDef(elseValue),
+      },
+    ],
+  });
+}
+
+/**
+ * like `switchBy`, but branch keys are matched as globs (ex: `preview-*`)
+ * pass an array of `[matcher, value]` entries to use RegExps or match multiple values with the same branch
+ */
+export function switchByMatch(
+  switchByKey: string,
+  branches: Record<string, InlineValueResolverDef> | Array<[ValueMatcher, InlineValueResolverDef]>,
+) {
+  const branchEntries = _.isArray(branches) ? branches : _.toPairs(branches);
+  return createResolver({
+    icon: 'gravity-ui:branches-right',
+    label: `switch by ${switchByKey} (match)`,
+    process() {
+      addConditionDependencies(this, [switchByKey], 'switchByMatch');
+    },
+    resolveBranches: branchEntries.map(([matcher, itemDef], i) => {
+      const isDefault = matcher === '_default' || matcher === '_';
+      return {
+        id: _.isString(matcher) ? matcher : `match-${i}`,
+        label: isDefault ? 'default' : `${switchByKey} matches ${getMatcherLabel(matcher)}`,
+        isDefault,
+        condition: (ctx: ResolverContext) => checkValueMatches(ctx.get(switchByKey), matcher),
+        resolver: processInlineResolverDef(itemDef),
+      };
+    }),
+  });
+}
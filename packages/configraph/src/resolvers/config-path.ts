@@ -1,7 +1,68 @@
+import { ConfigraphNode } from '../config-node';
 import { ConfigraphEntity } from '../entity';
+import { resolveTemplateEntityId } from '../entity-template';
 import { SchemaError } from '../errors';
 import { ConfigValueResolver, createResolver } from '../resolvers';
 
+/**
+ * finds the entity referenced by an entity path, relative to the resolver's node
+ * supports `.` (self), `..` (parent), `~` / `~/id` (within a template instance), or an entity id
+ *
+ * adds a SchemaError to the node and returns undefined if the path is not valid
+ */
+export function getEntityAtPath(resolver: ConfigValueResolver, entityPath: string): ConfigraphEntity | undefined {
+  const parentEntity = resolver.configNode.parentEntity;
+  if (!parentEntity) throw new Error('unable to detect parent entity');
+  const graph = parentEntity.graphRoot;
+  const schemaErrors = resolver.configNode.schemaErrors;
+
+  if (entityPath === '.') return parentEntity;
+
+  if (entityPath.startsWith('.')) {
+    let entity: ConfigraphEntity | undefined = parentEntity;
+    for (const entityPathPart of entityPath.split('/')) {
+      if (entityPathPart === '..') {
+        entity = entity.parentEntity;
+
+        if (!entity) {
+          schemaErrors.push(new SchemaError(`Invalid entity path "${entityPath}" - reached the root`));
+          return;
+        }
+      } else {
+        schemaErrors.push(new SchemaError('Only ".." is supported for now', {
+          tip: 'Within a template, use `~` to reference the template root or `~/entityId` for another entity',
+        }));
+        return;
+      }
+    }
+    return entity;
+  }
+
+  if (entityPath.startsWith('~')) {
+    // template-relative path - ex: `~` or `~/db`
+    if (!parentEntity.templateRootId) {
+      schemaErrors.push(new SchemaError(`Invalid entity path "${entityPath}" - only valid within a template`));
+      return;
+    }
+    const entityId = resolveTemplateEntityId(entityPath, parentEntity.templateRootId);
+    const entity = graph.entitiesById[entityId];
+    if (!entity) schemaErrors.push(new SchemaError(`Invalid entity path "${entityPath}" - "${entityId}" not found`));
+    return entity;
+  }
+
+  const entity = graph.entitiesById[entityPath];
+  if (!entity) schemaErrors.push(new SchemaError(`Invalid entity id "${entityPath}"`));
+  return entity;
+}
+
+/** finds the node at a path within an entity, returning undefined (rather than throwing) if the path is not valid */
+export function getNodeAtPath(entity: ConfigraphEntity, nodePath: string): ConfigraphNode | undefined {
+  try {
+    return entity.getConfigNodeByPath(nodePath);
+  } catch (err) {
+    return undefined;
+  }
+}
 
 export function configPath(entityPath: string, path: string): ConfigValueResolver;
 export function configPath(path: string): ConfigValueResolver;
@@ -9,49 +70,24 @@ export function configPath(entityPathOrPath: string, pathOnly?: string): ConfigV
   return createResolver({
     label: 'path',
     icon: 'majesticons:map-marker-path',
+    // the referenced value is copied as-is
+    embedsDependencyValues: true,
     process() {
-      const parentEntity = this.configNode.parentEntity;
-      if (!parentEntity) throw new Error('unable to detect parent entity');
-
-      const graph = parentEntity.graphRoot;
-
-      let entity: ConfigraphEntity | undefined;
-
       const nodePath = pathOnly || entityPathOrPath;
       const entityPath = pathOnly ? entityPathOrPath : '.';
 
-      if (entityPath === '.') {
-        entity = parentEntity;
-      } else if (entityPath.startsWith('.')) {
-        entity = parentEntity;
-        for (const entityPathPart of entityPath.split('/')) {
-          if (entityPathPart === '..') {
-            entity = entity.parentEntity;
-
-            if (!entity) {
-              this.configNode.schemaErrors.push(new SchemaError(`Invalid entity path "${nodePath}" - reached the root`));
-              return;
-            }
-          } else {
-            // TODO: will need to support using relative paths within templates where IDs are not final
-            this.configNode.schemaErrors.push(new SchemaError('Only ".." is supported for now'));
-            return;
-          }
-        }
-      } else {
-        entity = graph.entitiesById[nodePath];
-        if (!entity) {
-          this.configNode.schemaErrors.push(new SchemaError(`Invalid entity id "${nodePath}"`));
-          return;
-        }
-      }
+      const entity = getEntityAtPath(this, entityPath);
+      if (!entity) return;
 
-      const nodeAtPath = entity.getConfigNodeByPath(nodePath);
-      if (!nodeAtPath) {
-        this.configNode.schemaErrors.push(new SchemaError(`Invalid configPath within node ${entity.id} - ${nodePath}`));
-      } else {
-        this.dependsOnPathsObj[nodeAtPath.fullPath] = 'schema';
-      }
+      // nodes in the target entity may not be initialized until after this entity is processed
+      return () => {
+        const nodeAtPath = getNodeAtPath(entity, nodePath);
+        if (!nodeAtPath) {
+          this.configNode.schemaErrors.push(new SchemaError(`Invalid configPath within node ${entity.id} - ${nodePath}`));
+        } else {
+          this.dependsOnPathsObj[nodeAtPath.fullPath] = 'schema';
+        }
+      };
     },
     resolve(ctx) {
       // not quite sure about this yet...
@@ -8,6 +8,8 @@ export function createdPickedValueResolver(
   return createResolver({
     icon: 'material-symbols:content-copy-outline-sharp',
     label: 'picked value',
+    // the picked value is copied as-is, unless it is transformed
+    embedsDependencyValues: !valueTransform,
     process() {
       this.dependsOnPathsObj[sourceNode.fullPath] = 'schema';
     },
@@ -0,0 +1,128 @@
+import _ from 'lodash-es';
+import { ConfigraphEntity } from '../entity';
+import { SchemaError } from '../errors';
+import { createResolver } from '../resolvers';
+import { getEntityAtPath, getNodeAtPath } from './config-path';
+
+type TemplatePart = string | {
+  /** the original reference - ex: `DB_HOST` or `api!DB_URL` */
+  ref: string,
+  entityPath: string,
+  nodePath: string,
+};
+
+// matches escaped `\${` or a `${ref}`
+const TEMPLATE_REF_REGEX = /\\\$\{|\$\{([^}]*)\}/g;
+
+function parseTemplateRef(rawRef: string): Exclude<TemplatePart, string> {
+  const ref = rawRef.trim();
+  // references to other entities use the same `entity!path` format as node full paths
+  const separatorIndex = ref.indexOf('!');
+  return {
+    ref,
+    entityPath: separatorIndex >= 0 ? ref.substring(0, separatorIndex) : '.',
+    nodePath: separatorIndex >= 0 ? ref.substring(separatorIndex + 1) : ref,
+  };
+}
+
+/** splits a template string into static strings and node references */
+function parseTemplateString(templateStr: string): Array<TemplatePart> {
+  const parts: Array<TemplatePart> = [];
+  let currentStr = '';
+  let lastIndex = 0;
+  for (const match of templateStr.matchAll(TEMPLATE_REF_REGEX)) {
+    currentStr += templateStr.substring(lastIndex, match.index);
+    lastIndex = match.index! + match[0].length;
+    if (match[0] === '\\${') {
+      currentStr += '${';
+      continue;
+    }
+    if (currentStr) parts.push(currentStr);
+    currentStr = '';
+
+    parts.push(parseTemplateRef(match[1]));
+  }
+  currentStr += templateStr.substring(lastIndex);
+  if (currentStr) parts.push(currentStr);
+  return parts;
+}
+
+function stringifyTemplateValue(val: any) {
+  if (_.isString(val)) return val;
+  if (_.isPlainObject(val) || _.isArray(val)) return JSON.stringify(val);
+  return String(val);
+}
+
+/**
+ * builds a string from other config items, referenced using `${PATH}`
+ * references are detected while processing the schema, so they become dependencies up front
+ *
+ * - use `${entityPath!PATH}` to reference other entities, using the same entity paths as `configPath`
+ * - use `\${` for a literal `${` (in a tagged template, static text is always literal)
+ * - if any referenced value is empty, the result will be empty
+ *
+ * can also be used as a tagged template, where each interpolated expression is a reference
+ * @example template('postgres://${DB_USER}:${DB_PASS}@${DB_HOST}/${DB_NAME}')
+ * @example template`postgres://${'DB_USER'}@${'..!DB_HOST'}`
+ */
+export function template(templateStrOrStrings: string | TemplateStringsArray, ...refs: Array<string>) {
+  // tagged templates are already split into static strings and references, so we use them directly
+  // which uses the cooked strings (so escapes like `\n` work) and keeps any `${` in them literal
+  const parts = _.isString(templateStrOrStrings)
+    ? parseTemplateString(templateStrOrStrings)
+    : _.flatMap(templateStrOrStrings, (str, i): Array<TemplatePart> => _.compact([
+      // cooked strings are undefined if they contain an invalid escape sequence
+      str ?? templateStrOrStrings.raw[i],
+      i < refs.length && parseTemplateRef(refs[i]),
+    ]));
+
+  return createResolver({
+    label: 'template',
+    icon: 'mdi:code-braces',
+    embedsDependencyValues: true,
+    process() {
+      const entitiesByRef: Record<string, ConfigraphEntity> = {};
+      for (const part of parts) {
+        if (_.isString(part) || entitiesByRef[part.ref]) continue;
+        if (!part.nodePath) {
+          this.configNode.schemaErrors.push(new SchemaError(`Invalid template reference "\${${part.ref}}"`));
+          continue;
+        }
+        const entity = getEntityAtPath(this, part.entityPath);
+        if (entity) entitiesByRef[part.ref] = entity;
+      }
+
+      // nodes in other entities may not be initialized until after this entity is processed
+      return () => {
+        // stored on the resolver, since the same definition may be shared by multiple nodes
+        const refFullPaths: Record<string, string> = {};
+        for (const ref in entitiesByRef) {
+          const part = _.find(parts, (p) => !_.isString(p) && p.ref === ref) as Exclude<TemplatePart, string>;
+          const node = getNodeAtPath(entitiesByRef[ref], part.nodePath);
+          if (!node) {
+            this.configNode.schemaErrors.push(new SchemaError(`Invalid template reference "\${${ref}}" - node not found`));
+          } else {
+            refFullPaths[ref] = node.fullPath;
+            this.dependsOnPathsObj[node.fullPath] = 'schema';
+          }
+        }
+        this.templateRefFullPaths = refFullPaths;
+      };
+    },
+    resolve(ctx) {
+      const refFullPaths = ctx.resolver?.templateRefFullPaths || {};
+      const depValues = ctx.getDeclaredDependencyValues();
+      let result = '';
+      for (const part of parts) {
+        if (_.isString(part)) {
+          result += part;
+        } else {
+          const val = depValues[refFullPaths[part.ref]];
+          if (val === undefined || val === null) return undefined;
+          result += stringifyTemplateValue(val);
+        }
+      }
+      return result;
+    },
+  });
+}
@@ -12,6 +12,7 @@ import { ConfigraphNode, ConfigValueOverride } from './config-node';
 import { ConfigraphDataTypeDefinition } from './data-types';
 import { ConfigraphPlugin } from './plugin';
 import { ConfigValueResolver } from './resolvers';
+import { ConfigraphErrorSeverity, ErrorLocation } from './errors';
 // import {
 //   DmnoService, InjectedDmnoEnv,
 // } from '../config-engine/config-engine';
@@ -34,6 +35,7 @@ export type SerializedConfigraphEntity =
     isResolved: boolean,
     configLoadError?: SerializedConfigraphError,
     schemaErrors?: Array<SerializedConfigraphError>,
+    warnings?: Array<SerializedConfigraphError>,
     ownedPluginNames: Array<string>,
     injectedPluginNames: Array<string>,
     // configNodes: Record<string, SerializedConfigraphNode>,
@@ -46,6 +48,7 @@ ConfigraphPlugin,
 > & {
   usedByConfigItemResolverPaths?: Array<string>,
   schemaErrors?: Array<SerializedConfigraphError>,
+  warnings?: Array<SerializedConfigraphError>,
   inputNodes: Record<string, SerializedConfigraphNode>,
 };
 
@@ -59,6 +62,8 @@ export type SerializedConfigraphNode =
     schemaErrors?: Array<SerializedConfigraphError>,
     // TODO: dedupe some items from the resolver
     resolutionError?: SerializedConfigraphError,
+    /** warnings from any stage (schema, resolution, validation) which have not been suppressed */
+    warnings?: Array<SerializedConfigraphError>,
     resolver?: SerializedResolver,
 
     mappedToNodePath: string | undefined,
@@ -70,6 +75,7 @@ export type SerializedConfigraphNode =
 
 export type SerializedResolver =
   Pick<ConfigValueResolver, 'isResolved'>
+  & Partial<Pick<ConfigValueResolver, 'cacheKey' | 'isUsingCache'>>
   & {
     icon?: string,
     label?: string,
@@ -106,8 +112,12 @@ export type SerializedConfigraphError = {
   name: string,
   message: string,
   isUnexpected: boolean,
+  /** not set by older versions, in which case it should be treated as an error */
+  severity?: ConfigraphErrorSeverity,
+  code?: string,
   cleanedStack?: Array<string>,
   tip?: string,
+  location?: ErrorLocation,
 };
 
 
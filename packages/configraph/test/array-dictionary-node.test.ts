@@ -0,0 +1,176 @@
+import { expect, test, describe } from 'vitest';
+import _ from 'lodash-es';
+import {
+  Configraph, ConfigraphBaseTypes,
+} from '@dmno/configraph';
+
+describe('array config nodes', () => {
+  describe('coercion', () => {
+    _.each({
+      'arrays are left alone': { value: ['a', 'b'], expected: ['a', 'b'] },
+      'csv strings are split and trimmed': { value: 'a, b,c', expected: ['a', 'b', 'c'] },
+      'json strings are parsed': { value: '["a","b"]', expected: ['a', 'b'] },
+      'empty string becomes an empty array': { value: '', expected: [] },
+      'custom separator': { value: 'a|b', expected: ['a', 'b'], settings: { separator: '|' } },
+      'items are coerced using the item schema': {
+        value: '1,2,3',
+        expected: [1, 2, 3],
+        settings: { itemSchema: 'number' },
+      },
+      'invalid json is a coercion error': { value: '["a",', expectCoercionError: true },
+      'non-strings cannot be coerced': { value: 123, expectCoercionError: true },
+    }, (spec, label) => {
+      test(label, async () => {
+        const g = new Configraph();
+        const e = g.createEntity({
+          configSchema: {
+            arr: {
+              extends: ConfigraphBaseTypes.array('settings' in spec ? spec.settings as any : undefined),
+              value: spec.value,
+            },
+          },
+        });
+        await g.resolveConfig();
+        if ('expectCoercionError' in spec) {
+          expect(e.configNodes.arr.coercionError).toBeTruthy();
+        } else {
+          expect(e.configNodes.arr.resolvedValue).toStrictEqual(spec.expected);
+          expect(e.configNodes.arr.isValid).toBe(true);
+        }
+      });
+    });
+  });
+
+  describe('length validation', () => {
+    _.each({
+      'minLength - pass': { settings: { minLength: 2 }, value: ['a', 'b'], valid: true },
+      'minLength - fail': { settings: { minLength: 2 }, value: ['a'], valid: false },
+      'maxLength - pass': { settings: { maxLength: 2 }, value: ['a', 'b'], valid: true },
+      'maxLength - fail': { settings: { maxLength: 2 }, value: ['a', 'b', 'c'], valid: false },
+      'isLength - pass': { settings: { isLength: 1 }, value: ['a'], valid: true },
+      'isLength - fail': { settings: { isLength: 1 }, value: ['a', 'b'], valid: false },
+    }, (spec, label) => {
+      test(label, async () => {
+        const g = new Configraph();
+        const e = g.createEntity({
+          configSchema: {
+            arr: { extends: ConfigraphBaseTypes.array(spec.settings), value: spec.value },
+          },
+        });
+        await g.resolveConfig();
+        expect(e.configNodes.arr.isValid).toBe(spec.valid);
+      });
+    });
+  });
+
+  test('invalid items are reported using their path', async () => {
+    const g = new Configraph();
+    const e = g.createEntity({
+      configSchema: {
+        ALLOWED_ORIGINS: {
+          extends: ConfigraphBaseTypes.array({ itemSchema: ConfigraphBaseTypes.url() }),
+          value: 'https://a.com,https://b.com,not-a-url',
+        },
+      },
+    });
+    await g.resolveConfig();
+    const node = e.configNodes.ALLOWED_ORIGINS;
+    expect(node.isValid).toBe(false);
+    expect(node.children['2'].path).toEqual('ALLOWED_ORIGINS[2]');
+    expect(node.children['2'].isValid).toBe(false);
+    expect(node.children['0'].isValid).toBe(true);
+    expect(node.validationErrors).toHaveLength(1);
+    expect(node.validationErrors?.[0].message).toContain('ALLOWED_ORIGINS[2]');
+  });
+
+  test('items can be accessed using bracket paths', async () => {
+    const g = new Configraph();
+    const e = g.createEntity({
+      configSchema: {
+        arr: {
+          extends: ConfigraphBaseTypes.array({
+            itemSchema: ConfigraphBaseTypes.object({ host: {} }),
+          }),
+          value: [{ host: 'a.com' }, { host: 'b.com' }],
+        },
+      },
+    });
+    await g.resolveConfig();
+    expect(e.getConfigNodeByPath('arr[1]').resolvedValue).toStrictEqual({ host: 'b.com' });
+    expect(e.getConfigNodeByPath('arr[1].host').resolvedValue).toEqual('b.com');
+    expect(e.getConfigNodeByPath('arr["0"].host').resolvedValue).toEqual('a.com');
+    expect(() => e.getConfigNodeByPath('arr[5]')).toThrow();
+  });
+
+  test('items can be objects', async () => {
+    const g = new Configraph();
+    const e = g.createEntity({
+      configSchema: {
+        arr: {
+          extends: ConfigraphBaseTypes.array({
+            itemSchema: ConfigraphBaseTypes.object({
+              port: { extends: 'number' },
+            }),
+          }),
+          value: '[{"port":"123"},{"port":"456"}]',
+        },
+      },
+    });
+    await g.resolveConfig();
+    expect(e.configNodes.arr.resolvedValue).toStrictEqual([{ port: 123 }, { port: 456 }]);
+    expect(e.configNodes.arr.isValid).toBe(true);
+  });
+});
+
+describe('dictionary config nodes', () => {
+  test('json strings are parsed and items are coerced', async () => {
+    const g = new Configraph();
+    const e = g.createEntity({
+      configSchema: {
+        dict: {
+          extends: ConfigraphBaseTypes.dictionary({ itemSchema: 'number' }),
+          value: '{"a":"1","b":2}',
+        },
+      },
+    });
+    await g.resolveConfig();
+    expect(e.configNodes.dict.resolvedValue).toStrictEqual({ a: 1, b: 2 });
+    expect(e.configNodes.dict.isValid).toBe(true);
+  });
+
+  _.each({
+    'minItems - fail': { settings: { minItems: 2 }, value: { a: 1 }, valid: false },
+    'maxItems - fail': { settings: { maxItems: 1 }, value: { a: 1, b: 2 }, valid: false },
+    'minItems + maxItems - pass': { settings: { minItems: 1, maxItems: 2 }, value: { a: 1 }, valid: true },
+    'validateKeys - pass': { settings: { validateKeys: (k: string) => k.startsWith('x') }, value: { x1: 1 }, valid: true },
+    'validateKeys - fail': { settings: { validateKeys: (k: string) => k.startsWith('x') }, value: { y1: 1 }, valid: false },
+    'non-object - fail': { settings: {}, value: 'not-json', valid: false },
+  }, (spec, label) => {
+    test(label, async () => {
+      const g = new Configraph();
+      const e = g.createEntity({
+        configSchema: {
+          dict: { extends: ConfigraphBaseTypes.dictionary(spec.settings), value: spec.value },
+        },
+      });
+      await g.resolveConfig();
+      expect(e.configNodes.dict.isValid).toBe(spec.valid);
+    });
+  });
+
+  test('invalid items are reported using their path', async () => {
+    const g = new Configraph();
+    const e = g.createEntity({
+      configSchema: {
+        PORTS: {
+          extends: ConfigraphBaseTypes.dictionary({ itemSchema: ConfigraphBaseTypes.port() }),
+          value: { api: 3000, web: 'abc' },
+        },
+      },
+    });
+    await g.resolveConfig();
+    expect(e.configNodes.PORTS.isValid).toBe(false);
+    expect(e.configNodes.PORTS.children.web.path).toEqual('PORTS.web');
+    expect(e.configNodes.PORTS.validationErrors?.[0].message).toContain('PORTS.web');
+  });
+});
@@ -0,0 +1,118 @@
+import { expect, test, describe } from 'vitest';
+import {
+  Configraph, ConfigraphBaseTypes, createConfigraphDataType, ValidationError,
+} from '@dmno/configraph';
+
+const checkedValues: Array<string> = [];
+const RemoteCheckedType = createConfigraphDataType({
+  extends: ConfigraphBaseTypes.string(),
+  async asyncValidate(val) {
+    checkedValues.push(val);
+    if (val === 'bad') throw new Error('Remote check failed');
+    return true;
+  },
+});
+
+const SlowCheckedType = createConfigraphDataType({
+  extends: ConfigraphBaseTypes.string(),
+  asyncValidateTimeout: 20,
+  async asyncValidate() {
+    await new Promise((resolve) => { setTimeout(resolve, 200); });
+    return true;
+  },
+});
+
+describe('async validation', () => {
+  test('async validators are not run by default', async () => {
+    checkedValues.length = 0;
+    const g = new Configraph();
+    const e = g.createEntity({
+      configSchema: { item: { extends: RemoteCheckedType, value: 'bad' } },
+    });
+    await g.resolveConfig();
+    expect(checkedValues).toEqual([]);
+    expect(e.configNodes.item.isValid).toBe(true);
+    expect(e.configNodes.item.isAsyncValidated).toBe(false);
+  });
+
+  test('async validation errors are added to the node as ValidationErrors', async () => {
+    checkedValues.length = 0;
+    const g = new Configraph({ runAsyncValidation: true });
+    const e = g.createEntity({
+      configSchema: {
+        good: { extends: RemoteCheckedType, value: 'good' },
+        bad: { extends: RemoteCheckedType, value: 'bad' },
+        // async validation is skipped if the value is empty
+        empty: { extends: RemoteCheckedType },
+      },
+    });
+    await g.resolveConfig();
+    expect(checkedValues.sort()).toEqual(['bad', 'good']);
+    expect(e.configNodes.good.isValid).toBe(true);
+    expect(e.configNodes.good.isAsyncValidated).toBe(true);
+    expect(e.configNodes.bad.isValid).toBe(false);
+    expect(e.configNodes.bad.validationErrors?.[0]).toBeInstanceOf(ValidationError);
+    expect(e.configNodes.bad.validationErrors?.[0].message).toEqual('Remote check failed');
+  });
+
+  test('async validation is skipped if sync validation fails', async () => {
+    checkedValues.length = 0;
+    const g = new Configraph({ runAsyncValidation: true });
+    const e = g.createEntity({
+      configSchema: {
+        item: {
+          extends: RemoteCheckedType,
+          value: 'bad',
+          validate: () => new ValidationError('Sync check failed'),
+        },
+      },
+    });
+    await g.resolveConfig();
+    expect(checkedValues).toEqual([]);
+    expect(e.configNodes.item.validationErrors?.map((err) => err.message)).toEqual(['Sync check failed']);
+  });
+
+  test('sync validation warnings are only reported once', async () => {
+    checkedValues.length = 0;
+    const g = new Configraph({ runAsyncValidation: true });
+    const e = g.createEntity({
+      configSchema: {
+        item: {
+          extends: RemoteCheckedType,
+          value: 'good',
+          validate: () => new ValidationError('just a warning', { severity: 'warning' }),
+        },
+      },
+    });
+    await g.resolveConfig();
+    expect(checkedValues).toEqual(['good']);
+    expect(e.configNodes.item.isValid).toBe(true);
+    expect(e.configNodes.item.warnings.map((w) => w.message)).toEqual(['just a warning']);
+  });
+
+  test('validators that take too long fail with a timeout error', async () => {
+    const g = new Configraph({ runAsyncValidation: true });
+    const e = g.createEntity({
+      configSchema: { item: { extends: SlowCheckedType, value: 'val' } },
+    });
+    await g.resolveConfig();
+    expect(e.configNodes.item.isValid).toBe(false);
+    expect(e.configNodes.item.validationErrors?.[0].message).toContain('timed out after 20ms');
+  });
+
+  test('graph-level timeout is used when a validator does not set its own', async () => {
+    const SlowDefaultTimeoutType = createConfigraphDataType({
+      extends: ConfigraphBaseTypes.string(),
+      async asyncValidate() {
+        await new Promise((resolve) => { setTimeout(resolve, 200); });
+        return true;
+      },
+    });
+    const g = new Configraph({ runAsyncValidation: true, asyncValidationTimeout: 10 });
+    const e = g.createEntity({
+      configSchema: { item: { extends: SlowDefaultTimeoutType, value: 'val' } },
+    });
+    await g.resolveConfig();
+    expect(e.configNodes.item.validationErrors?.[0].message).toContain('timed out after 10ms');
+  });
+});
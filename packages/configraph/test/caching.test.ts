@@ -4,7 +4,7 @@ import {
 } from 'vitest';
 import _ from 'lodash-es';
 import {
-  cacheFunctionResult,
+  cacheFunctionResult, CacheMaxAge,
   Configraph, ConfigraphCachingProvider,
   createResolver,
 } from '@dmno/configraph';
@@ -75,4 +75,148 @@ describe('caching', () => {
 
     // TODO: enable re-resolving everything, and we should see the cach get reused
   });
+
+  test('nested cache key locks taken in opposite order do not deadlock', async () => {
+    const g = new Configraph();
+    g.cacheProvider = testCache;
+
+    const nestedCacheResolver = (outerKey: string, innerKey: string) => createResolver({
+      label: 'nested-cache-resolver',
+      cacheKey: outerKey,
+      async resolve(ctx) {
+        // give the other resolver a chance to grab its outer lock first
+        await new Promise((resolve) => { setTimeout(resolve, 10); });
+        return ctx.getOrSetCacheItem(innerKey, async () => `${innerKey}-value`);
+      },
+    });
+
+    const e = g.createEntity({
+      configSchema: {
+        aThenB: { value: nestedCacheResolver('lock-a', 'lock-b') },
+        bThenA: { value: nestedCacheResolver('lock-b', 'lock-a') },
+      },
+    });
+
+    // the keys are shared, so either value could end up cached - we just care that both resolve
+    await g.resolveConfig();
+    expect(e.configNodes.aThenB.resolvedValue).toMatch(/^lock-[ab]-value$/);
+    expect(e.configNodes.bThenA.resolvedValue).toMatch(/^lock-[ab]-value$/);
+  });
+});
+
+// uses the default get/set logic, so we can test expiration
+class MemoryCache extends ConfigraphCachingProvider {
+  /* eslint-disable class-methods-use-this,@typescript-eslint/no-empty-function */
+  async load() {}
+  async save() {}
+  async reset() { this.items = {}; }
+}
+
+describe('cache expiration', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  let counter = 1;
+  const createGraph = (cache: ConfigraphCachingProvider) => {
+    const g = new Configraph();
+    g.cacheProvider = cache;
+    const e = g.createEntity({
+      configSchema: {
+        fnWithMaxAge: { value: cacheFunctionResult({ key: 'fn', maxAge: '1h' }, () => `fn-${counter++}`) },
+        ctxWithMaxAge: {
+          value: createResolver({
+            label: 'ctx-with-max-age',
+            resolve: (ctx) => ctx.getOrSetCacheItem('ctx', async () => `ctx-${counter++}`, { maxAge: 60 }),
+          }),
+        },
+        noMaxAge: { value: cacheFunctionResult('forever', () => `forever-${counter++}`) },
+      },
+    });
+    return { g, e };
+  };
+
+  test('cached items are reused until they expire', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const cache = new MemoryCache();
+    counter = 1;
+
+    const r1 = createGraph(cache);
+    await r1.g.resolveConfig();
+    expect(r1.e.configNodes.fnWithMaxAge.resolvedValue).toBe('fn-1');
+    expect(r1.e.configNodes.ctxWithMaxAge.resolvedValue).toBe('ctx-2');
+    expect(r1.e.configNodes.noMaxAge.resolvedValue).toBe('forever-3');
+
+    // after 2 minutes, only the item with a 60s max age is regenerated
+    vi.advanceTimersByTime(2 * 60 * 1000);
+    const r2 = createGraph(cache);
+    await r2.g.resolveConfig();
+    expect(r2.e.configNodes.fnWithMaxAge.resolvedValue).toBe('fn-1');
+    expect(r2.e.configNodes.ctxWithMaxAge.resolvedValue).toBe('ctx-4');
+    expect(r2.e.configNodes.noMaxAge.resolvedValue).toBe('forever-3');
+
+    // after 2 hours, both items with a max age are regenerated
+    vi.advanceTimersByTime(2 * 60 * 60 * 1000);
+    const r3 = createGraph(cache);
+    await r3.g.resolveConfig();
+    expect(r3.e.configNodes.fnWithMaxAge.resolvedValue).toBe('fn-5');
+    expect(r3.e.configNodes.ctxWithMaxAge.resolvedValue).toBe('ctx-6');
+    expect(r3.e.configNodes.noMaxAge.resolvedValue).toBe('forever-3');
+  });
+
+  test('max age is applied when reading, so changing it affects existing cache entries', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const cache = new MemoryCache();
+    let maxAgeCounter = 1;
+    const resolveWithMaxAge = async (maxAge?: CacheMaxAge) => {
+      const g = new Configraph();
+      g.cacheProvider = cache;
+      const e = g.createEntity({
+        configSchema: {
+          item: {
+            value: createResolver({
+              label: 'configurable-max-age',
+              resolve: (ctx) => ctx.getOrSetCacheItem('item', async () => `item-${maxAgeCounter++}`, { maxAge }),
+            }),
+          },
+        },
+      });
+      await g.resolveConfig();
+      return e.configNodes.item.resolvedValue;
+    };
+
+    expect(await resolveWithMaxAge()).toBe('item-1');
+    vi.advanceTimersByTime(2 * 60 * 1000);
+    // originally written without a max age, but now considered expired
+    expect(await resolveWithMaxAge('1m')).toBe('item-2');
+    expect(await resolveWithMaxAge('1m')).toBe('item-2');
+    // and removing the max age means it never expires
+    vi.advanceTimersByTime(2 * 60 * 1000);
+    expect(await resolveWithMaxAge()).toBe('item-2');
+  });
+
+  test('stale-while-revalidate mode uses expired values while refreshing in the background', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const cache = new MemoryCache();
+    counter = 1;
+
+    const r1 = createGraph(cache);
+    await r1.g.resolveConfig();
+
+    vi.advanceTimersByTime(2 * 60 * 60 * 1000);
+    const r2 = createGraph(cache);
+    r2.g.setCacheStaleWhileRevalidate(true);
+    await r2.g.resolveConfig();
+    // stale values are used
+    expect(r2.e.configNodes.fnWithMaxAge.resolvedValue).toBe('fn-1');
+    expect(r2.e.configNodes.ctxWithMaxAge.resolvedValue).toBe('ctx-2');
+    await r2.g.waitForCacheRevalidations();
+
+    // and refreshed values are available next time
+    const r3 = createGraph(cache);
+    await r3.g.resolveConfig();
+    expect(r3.e.configNodes.fnWithMaxAge.resolvedValue).toMatch(/^fn-[45]$/);
+    expect(r3.e.configNodes.ctxWithMaxAge.resolvedValue).toMatch(/^ctx-[45]$/);
+    expect(r3.e.configNodes.noMaxAge.resolvedValue).toBe('forever-3');
+  });
 });
@@ -0,0 +1,86 @@
+import { expect, test, describe } from 'vitest';
+import {
+  Configraph, ConfigraphEntityTemplate, configPath,
+} from '@dmno/configraph';
+
+function createPostgresTemplate() {
+  return new ConfigraphEntityTemplate({ label: 'postgres + migrations' })
+    .addEntity({
+      configSchema: {
+        DB_URL: {},
+        PORT: { value: 5432 },
+      },
+    })
+    .addEntity({
+      id: 'migrations',
+      configSchema: {
+        DB_URL: { value: configPath('~', 'DB_URL') },
+        DB_PORT: { value: configPath('~', 'PORT') },
+      },
+    })
+    .addEntity({
+      id: 'seeder',
+      parentId: '~/migrations',
+      pickSchema: [{ entityId: '~/migrations', key: 'DB_URL' }],
+    });
+}
+
+describe('entity templates', () => {
+  test('templates can be instantiated multiple times with generated ids', async () => {
+    const postgresTemplate = createPostgresTemplate();
+    const g = new Configraph();
+    g.createEntity({ id: 'root' });
+    g.createEntity({ id: 'users-db', extends: postgresTemplate, inputs: { DB_URL: 'postgres://localhost/users' } });
+    g.createEntity({
+      id: 'orders-db',
+      extends: postgresTemplate,
+      inputs: { DB_URL: 'postgres://localhost/orders', PORT: 5433 },
+    });
+    await g.resolveConfig();
+
+    expect(Object.keys(g.entitiesById)).toEqual([
+      'root',
+      'users-db', 'users-db/migrations', 'users-db/seeder',
+      'orders-db', 'orders-db/migrations', 'orders-db/seeder',
+    ]);
+    expect(g.entitiesById['users-db/migrations'].parentId).toEqual('users-db');
+    expect(g.entitiesById['users-db/seeder'].parentId).toEqual('users-db/migrations');
+
+    const usersMigrations = g.entitiesById['users-db/migrations'];
+    expect(usersMigrations.configNodes.DB_URL.resolvedValue).toEqual('postgres://localhost/users');
+    expect(usersMigrations.configNodes.DB_PORT.resolvedValue).toEqual('5432');
+    const ordersMigrations = g.entitiesById['orders-db/migrations'];
+    expect(ordersMigrations.configNodes.DB_URL.resolvedValue).toEqual('postgres://localhost/orders');
+    expect(ordersMigrations.configNodes.DB_PORT.resolvedValue).toEqual('5433');
+    expect(g.entitiesById['users-db/seeder'].configNodes.DB_URL.resolvedValue).toEqual('postgres://localhost/users');
+    expect(g.entitiesById['orders-db/seeder'].configNodes.DB_URL.resolvedValue).toEqual('postgres://localhost/orders');
+  });
+
+  test('template root can reference child entities', async () => {
+    const template = new ConfigraphEntityTemplate({ label: 'with child' })
+      .addEntity({
+        configSchema: { CHILD_VAL: { value: configPath('~/child', 'VAL') } },
+      })
+      .addEntity({
+        id: 'child',
+        configSchema: { VAL: { value: 'from-child' } },
+      });
+    const g = new Configraph();
+    g.createEntity({ id: 'root' });
+    const instance = g.createEntity({ id: 'instance', extends: template });
+    await g.resolveConfig();
+    expect(instance.configNodes.CHILD_VAL.resolvedValue).toEqual('from-child');
+  });
+
+  test('invalid inputs and template paths add schema errors', async () => {
+    const g = new Configraph();
+    g.createEntity({ id: 'root' });
+    const badInput = g.createEntity({ extends: createPostgresTemplate(), inputs: { BAD_KEY: 'x' } });
+    const noTemplate = g.createEntity({
+      configSchema: { ITEM: { value: configPath('~', 'ITEM') } },
+    });
+    await g.resolveConfig();
+    expect(badInput.schemaErrors[0].message).toContain('BAD_KEY');
+    expect(noTemplate.configNodes.ITEM.schemaErrors[0].message).toContain('only valid within a template');
+  });
+});
@@ -1,5 +1,7 @@
 import { expect, test, describe } from 'vitest';
-import { Configraph } from '@dmno/configraph';
+import {
+  Configraph, ConfigraphBaseTypes, ConfigraphPlugin, createResolver,
+} from '@dmno/configraph';
 
 describe('graph entities and dependency ordering', () => {
   describe('entity parents', () => {
@@ -59,12 +61,13 @@ describe('graph entities and dependency ordering', () => {
   });
 
   test('entity ids must be unique', async () => {
-    expect(() => {
-      const g = new Configraph();
-      g.createEntity({ id: 'dupe' });
-      g.createEntity({ id: 'dupe' });
-      // probably should change this into a schema error rather than throwing?
-    }).toThrowError();
+    const g = new Configraph();
+    const first = g.createEntity({ id: 'dupe' });
+    g.createEntity({ id: 'dupe' });
+    // duplicates are reported as a graph level error, and the first entity is kept
+    expect(g.schemaErrors.map((err) => err.message)).toEqual(['Entity IDs must be unique - duplicate id detected "dupe"']);
+    expect(g.entitiesById.dupe).toBe(first);
+    expect(g.isSchemaValid).toBe(false);
   });
 
   test('picking nodes affects dep order', async () => {
@@ -80,3 +83,60 @@ describe('graph entities and dependency ordering', () => {
     expect(g.sortedEntityIds.indexOf('b')).toBeLessThan(g.sortedEntityIds.indexOf('c'));
   });
 });
+
+class TestPlugin extends ConfigraphPlugin {}
+
+describe('schema errors', () => {
+  test('processing never throws for schema mistakes, and all errors are collected', async () => {
+    const g = new Configraph();
+    g.createEntity({ id: 'root' });
+    g.registerPlugin(new TestPlugin('plugin', { inputSchema: {} }));
+    const duplicatePlugin = new TestPlugin('plugin', { inputSchema: {} });
+    g.registerPlugin(duplicatePlugin);
+    const badPluginParent = new TestPlugin('bad-parent', { inputSchema: {} });
+    g.registerPlugin(badPluginParent, 'does-not-exist');
+    const e = g.createEntity({
+      id: 'child',
+      configSchema: {
+        badShorthand: 'not-a-type' as any,
+        badExtends: { extends: 'also-not-a-type' as any },
+        badObjectChild: { extends: ConfigraphBaseTypes.object({ child: 'nope' as any }) },
+        throwsInProcess: {
+          value: createResolver({
+            label: 'throws',
+            process() { throw new Error('process failed'); },
+            resolve: () => 'val',
+          }),
+        },
+        valid: { value: 'ok' },
+      },
+      overrides: { missing: 'val' },
+    });
+
+    await g.resolveConfig();
+    expect(g.isSchemaValid).toBe(false);
+    expect(duplicatePlugin.schemaErrors?.map((err) => err.message)).toEqual([
+      'Plugin instance IDs must be unique - duplicate id detected "plugin"',
+    ]);
+    expect(g.pluginsById.plugin).not.toBe(duplicatePlugin);
+    expect(badPluginParent.schemaErrors?.[0].message).toContain('Invalid parent entity ID "does-not-exist"');
+    expect(e.configNodes.badShorthand.isSchemaValid).toBe(false);
+    expect(e.configNodes.badExtends.isSchemaValid).toBe(false);
+    expect(e.configNodes.badObjectChild.children.child.isSchemaValid).toBe(false);
+    expect(e.configNodes.throwsInProcess.schemaErrors[0].message).toBe('process failed');
+    expect(e.schemaErrors.map((err) => err.message)).toEqual(['Invalid override path "missing" - node not found']);
+    // other nodes are unaffected
+    expect(e.configNodes.valid.resolvedValue).toBe('ok');
+
+    const allErrors = g.getAllSchemaErrors();
+    expect(allErrors.map((e) => [e.entityId, e.nodePath, e.error.message])).toEqual([
+      [duplicatePlugin.internalEntity!.id, undefined, 'Plugin instance IDs must be unique - duplicate id detected "plugin"'],
+      ['$PLUGINS/bad-parent', undefined, 'Invalid parent entity ID "does-not-exist" for plugin bad-parent'],
+      ['child', undefined, 'Invalid override path "missing" - node not found'],
+      ['child', 'badShorthand', 'found invalid parent (string) in extends chain - "not-a-type"'],
+      ['child', 'badExtends', 'found invalid parent (string) in extends chain - "also-not-a-type"'],
+      ['child', 'badObjectChild.child', 'found invalid parent (string) in extends chain - "nope"'],
+      ['child', 'throwsInProcess', 'process failed'],
+    ]);
+  });
+});
@@ -352,4 +352,182 @@ describe('type based value/dependency injection', async () => {
       expect(e.configNodes.injectFail.isSchemaValid).toBe(false);
     });
   });
+
+  describe('search options', () => {
+    test('scope: self - injects from the same entity', async () => {
+      const g = new Configraph();
+      g.createEntity({
+        configSchema: { rootSrc: { extends: InjectableType, value: 'root-val' } },
+      });
+      const e = g.createEntity({
+        configSchema: {
+          selfSrc: { extends: InjectableType, value: 'self-val' },
+          injectDest: { extends: InjectableType, value: inject({ scope: 'self' }) },
+        },
+      });
+      await g.resolveConfig();
+      expect(e.configNodes.injectDest.resolvedValue).toEqual('self-val');
+    });
+
+    test('scope: parent - only searches the direct parent', async () => {
+      const g = new Configraph();
+      g.createEntity({
+        id: 'a',
+        configSchema: { a1: { extends: InjectableType, value: 'a1' } },
+      });
+      g.createEntity({ id: 'b', parentId: 'a', configSchema: {} });
+      const e = g.createEntity({
+        id: 'c',
+        parentId: 'b',
+        configSchema: { c1: { extends: InjectableType, value: inject({ scope: 'parent' }) } },
+      });
+      await g.resolveConfig();
+      expect(e.configNodes.c1.isSchemaValid).toBe(false);
+    });
+
+    test('maxDepth limits how many levels are searched', async () => {
+      const g = new Configraph();
+      const e = g.createEntity({
+        id: 'a',
+        configSchema: {
+          a1: { extends: InjectableType, value: collect({ maxDepth: 1 }) },
+          a2: { extends: InjectableType, value: collect({ maxDepth: 2 }) },
+        },
+      });
+      g.createEntity({ id: 'b', parentId: 'a', configSchema: {} });
+      g.createEntity({
+        id: 'c',
+        parentId: 'b',
+        configSchema: { c1: { extends: InjectableType, value: 'c1' } },
+      });
+      await g.resolveConfig();
+      expect(e.configNodes.a1.isSchemaValid).toBe(false);
+      expect(e.configNodes.a2.resolvedValue).toEqual('c1');
+    });
+
+    test('only top-level nodes are collected', async () => {
+      const g = new Configraph();
+      const e = g.createEntity({
+        configSchema: { collectDest: { extends: InjectableType, value: collect() } },
+      });
+      g.createEntity({
+        configSchema: {
+          collectSrc: { extends: InjectableType, value: 'top-level' },
+          obj: {
+            extends: ConfigraphBaseTypes.object({
+              nested: { extends: InjectableType, value: 'nested' },
+            }),
+          },
+        },
+      });
+      await g.resolveConfig();
+      expect(e.configNodes.collectDest.isSchemaValid).toBe(true);
+      expect(e.configNodes.collectDest.resolvedValue).toEqual('top-level');
+    });
+
+    test('multiple matches can be disambiguated by entity id or tag', async () => {
+      const g = new Configraph();
+      const e = g.createEntity({
+        configSchema: {
+          byId: { extends: InjectableType, value: collect({ entityId: 'b' }) },
+          byTag: { extends: InjectableType, value: collect({ entityTag: 'tagged' }) },
+        },
+      });
+      g.createEntity({ id: 'b', configSchema: { b1: { extends: InjectableType, value: 'b1' } } });
+      g.createEntity({ id: 'c', tags: ['tagged'], configSchema: { c1: { extends: InjectableType, value: 'c1' } } });
+      await g.resolveConfig();
+      expect(e.configNodes.byId.resolvedValue).toEqual('b1');
+      expect(e.configNodes.byTag.resolvedValue).toEqual('c1');
+    });
+
+    test('multiple: true collects a deduped array from all levels', async () => {
+      const g = new Configraph();
+      const e = g.createEntity({
+        id: 'root',
+        configSchema: {
+          allUrls: {
+            extends: ConfigraphBaseTypes.array({ itemSchema: { extends: InjectableType } }),
+            value: collect({ multiple: true }),
+          },
+        },
+      });
+      g.createEntity({ id: 'b', configSchema: { b1: { extends: InjectableType, value: 'url1' } } });
+      g.createEntity({ id: 'c', configSchema: { c1: { extends: InjectableType, value: 'url2' } } });
+      g.createEntity({ id: 'd', parentId: 'c', configSchema: { d1: { extends: InjectableType, value: 'url1' } } });
+      // empty values are skipped
+      g.createEntity({ id: 'e', configSchema: { e1: { extends: InjectableType } } });
+      await g.resolveConfig();
+      expect(e.configNodes.allUrls.isValid).toBe(true);
+      expect(e.configNodes.allUrls.resolvedValue).toEqual(['url1', 'url2']);
+    });
+  });
+
+  describe('type compatibility registry', () => {
+    const PackageAUrlType = createConfigraphDataType({});
+    const PackageBUrlType = createConfigraphDataType({});
+    const PackageAPortType = createConfigraphDataType({});
+    const PackageBPortType = createConfigraphDataType({});
+    const createGraphWithAdapters = () => {
+      const g = new Configraph();
+      g.defaultDataTypeRegistry.registerCompatibleTypes(PackageAUrlType, PackageBUrlType);
+      g.defaultDataTypeRegistry.registerTypeAdapter({
+        from: PackageAPortType,
+        to: PackageBPortType,
+        transformValue: (val) => `port-${val}`,
+      });
+      return g;
+    };
+
+    test('compatible types can be injected in either direction', async () => {
+      const g = createGraphWithAdapters();
+      g.createEntity({
+        configSchema: { src: { extends: PackageAUrlType, value: 'a-url' } },
+      });
+      const e = g.createEntity({
+        configSchema: { dest: { extends: PackageBUrlType, value: inject() } },
+      });
+      const e2 = g.createEntity({
+        configSchema: { collectDest: { extends: PackageAUrlType, value: collect() } },
+      });
+      g.createEntity({
+        parentId: e2.id,
+        configSchema: { src: { extends: PackageBUrlType, value: 'b-url' } },
+      });
+      await g.resolveConfig();
+      expect(e.configNodes.dest.resolvedValue).toEqual('a-url');
+      expect(e2.configNodes.collectDest.resolvedValue).toEqual('b-url');
+    });
+
+    test('adapters can transform the value, and only apply in one direction', async () => {
+      const g = createGraphWithAdapters();
+      g.createEntity({
+        configSchema: {
+          srcA: { extends: PackageAPortType, value: 123 },
+        },
+      });
+      const e = g.createEntity({
+        configSchema: {
+          destB: { extends: PackageBPortType, value: inject() },
+          selfSrcB: { extends: PackageBPortType, value: 456 },
+          destA: { extends: PackageAPortType, value: inject({ scope: 'self' }) },
+        },
+      });
+      await g.resolveConfig();
+      expect(e.configNodes.destB.resolvedValue).toEqual('port-123');
+      expect(e.configNodes.destA.isSchemaValid).toBe(false);
+    });
+
+    test('adapters are registered per graph', async () => {
+      createGraphWithAdapters();
+      const g = new Configraph();
+      g.createEntity({
+        configSchema: { src: { extends: PackageAUrlType, value: 'a-url' } },
+      });
+      const e = g.createEntity({
+        configSchema: { dest: { extends: PackageBUrlType, value: inject() } },
+      });
+      await g.resolveConfig();
+      expect(e.configNodes.dest.isSchemaValid).toBe(false);
+    });
+  });
 });
@@ -127,6 +127,44 @@ describe('pick behaviour', async () => {
     });
   });
 
+  describe('value and type overrides', () => {
+    test('can replace the value, and reference the source value', async () => {
+      const g = new Configraph();
+      g.createEntity({ configSchema: { a: { value: 'a' }, b: { value: 'b' } } });
+      const e = g.createEntity({
+        pickSchema: [
+          { key: 'a', value: 'static' },
+          { key: 'b', value: (ctx) => `${ctx.getPickedValue()}-replaced` },
+        ],
+      });
+      await g.resolveConfig();
+      expect(e.configNodes.a.resolvedValue).toEqual('static');
+      expect(e.configNodes.b.resolvedValue).toEqual('b-replaced');
+      // dependency on the source node is kept
+      expect(e.configNodes.a.dependsOnPaths).toEqual([g.rootEntity.configNodes.a.fullPath]);
+    });
+    test('can layer type options on top of the source type', async () => {
+      const g = new Configraph();
+      g.createEntity({ configSchema: { a: { description: 'original', expose: true } } });
+      const e = g.createEntity({
+        pickSchema: [{ key: 'a', typeOverrides: { required: true, description: 'overridden' } }],
+      });
+      await g.resolveConfig();
+      expect(e.configNodes.a.type.description).toEqual('overridden');
+      expect(e.configNodes.a.type.expose).toBe(true);
+      // source is not required, but the picked node is
+      expect(g.rootEntity.configNodes.a.isValid).toBe(true);
+      expect(e.configNodes.a.isValid).toBe(false);
+    });
+    test('cannot set both value and transformValue', async () => {
+      const g = new Configraph();
+      g.createEntity({ configSchema: { a: { value: 'a' } } });
+      const e = g.createEntity({ pickSchema: [{ key: 'a', value: 'x', transformValue: (v) => v }] });
+      g.processConfig();
+      expect(e.schemaErrors.length).toBe(1);
+    });
+  });
+
   describe('pick-related SchemaErrors', () => {
     test('root entity cannot pick', async () => {
       const g = new Configraph();
@@ -164,6 +202,10 @@ describe('pick behaviour', async () => {
       await g.resolveConfig();
       expect(Object.keys(e.configNodes)).toEqual([]);
       expect(e.schemaErrors.length).toEqual(1);
+      // this is only a warning, so the entity is still valid
+      expect(e.schemaErrors[0].isWarning).toBe(true);
+      expect(e.isSchemaValid).toBe(true);
+      expect(e.warnings.map((w) => w.code)).toEqual(['PICK_FILTER_NO_MATCHES']);
     });
     test('pick cycle', async () => {
       const g = new Configraph();
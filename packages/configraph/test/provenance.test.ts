@@ -0,0 +1,136 @@
+import {
+  expect, test, describe, vi,
+} from 'vitest';
+import {
+  Configraph, ConfigraphCachingProvider, ConfigraphBaseTypes,
+  cacheFunctionResult, switchBy,
+} from '@dmno/configraph';
+
+class TestCache extends ConfigraphCachingProvider {
+  items: Record<string, any> = {};
+  async reset() { this.items = {}; }
+
+  /* eslint-disable class-methods-use-this,@typescript-eslint/no-empty-function */
+  async load() {}
+  async save() {}
+  async getItem(key: string) {
+    return this.items[key];
+  }
+  async setItem(key: string, value: any) {
+    this.items[key] = value;
+  }
+}
+
+describe('value provenance', () => {
+  test('overrides are listed with the first one active', async () => {
+    const g = new Configraph();
+    const e = g.createEntity({
+      configSchema: { item: { value: 'schema-val' } },
+    });
+    g.processConfig();
+    e.configNodes.item.overrides.push(
+      { sourceType: '.env file', sourceLabel: '.env.local', value: 'local-val' },
+      { sourceType: '.env file', sourceLabel: '.env', value: 'env-val' },
+    );
+    await g.resolveConfig();
+    const provenance = e.configNodes.item.getValueProvenance();
+    expect(provenance.source).toEqual('override');
+    expect(provenance.overrides.map((o) => [o.sourceLabel, o.isActive])).toEqual([
+      ['.env.local', true],
+      ['.env', false],
+    ]);
+    expect(provenance.resolvedValue).toEqual('local-val');
+  });
+
+  test('follows the active resolver branches and lists dependencies', async () => {
+    const g = new Configraph();
+    const e = g.createEntity({
+      configSchema: {
+        env: { value: 'staging' },
+        item: {
+          value: switchBy('env', {
+            _default: 'default-val',
+            staging: 'staging-val',
+          }),
+        },
+      },
+    });
+    await g.resolveConfig();
+    const provenance = e.configNodes.item.getValueProvenance();
+    expect(provenance.source).toEqual('resolver');
+    expect(provenance.resolvers).toHaveLength(2);
+    expect(provenance.resolvers[1].branch).toMatchObject({ isDefault: false });
+    expect(provenance.resolvers[1].branch?.label).toContain('staging');
+    expect(provenance.dependencies).toEqual([{ fullPath: `${e.id}!env`, type: 'schema' }]);
+  });
+
+  test('shows cache keys and cache hits', async () => {
+    const cache = new TestCache();
+    const createGraph = () => {
+      const g = new Configraph();
+      g.cacheProvider = cache;
+      const e = g.createEntity({
+        configSchema: {
+          item: { value: cacheFunctionResult({ key: 'cache-key' }, () => 'cached-val') },
+        },
+      });
+      return { g, e };
+    };
+
+    const first = createGraph();
+    await first.g.resolveConfig();
+    expect(first.e.configNodes.item.getValueProvenance().resolvers[0]).toMatchObject({
+      cacheKey: 'cache-key',
+      isUsingCache: false,
+    });
+
+    // 2nd time around, the value will come from the cache
+    const second = createGraph();
+    await second.g.resolveConfig();
+    expect(second.e.configNodes.item.getValueProvenance().resolvers[0]).toMatchObject({
+      cacheKey: 'cache-key',
+      isUsingCache: true,
+    });
+  });
+
+  test('shows the picked source node', async () => {
+    const g = new Configraph();
+    const root = g.createEntity({ configSchema: { pickMe: { value: 'root-val' } } });
+    const child = g.createEntity({ pickSchema: ['pickMe'] });
+    const grandchild = g.createEntity({
+      parentId: child.id,
+      pickSchema: [{ entityId: child.id, key: 'pickMe' }],
+    });
+    await g.resolveConfig();
+    expect(grandchild.configNodes.pickMe.getValueProvenance().pickedFrom).toEqual([
+      `${child.id}!pickMe`,
+      `${root.id}!pickMe`,
+    ]);
+  });
+
+  test('records each coercion step through the type chain', async () => {
+    const g = new Configraph();
+    const e = g.createEntity({
+      configSchema: {
+        port: { extends: ConfigraphBaseTypes.port(), value: '8080' },
+      },
+    });
+    await g.resolveConfig();
+    const { coercionSteps } = e.configNodes.port.getValueProvenance();
+    expect(coercionSteps).toEqual([{ typeLabel: 'dmno/number', input: '8080', output: 8080 }]);
+  });
+
+  test('coercion steps are recorded without re-running coerce fns', async () => {
+    const g = new Configraph();
+    const coerce = vi.fn((val: string) => val.toUpperCase());
+    const e = g.createEntity({
+      configSchema: {
+        shout: { extends: ConfigraphBaseTypes.string({}), coerce, value: 'hi' },
+      },
+    });
+    await g.resolveConfig();
+    const { coercionSteps } = e.configNodes.shout.getValueProvenance();
+    expect(coercionSteps.at(-1)).toEqual({ typeLabel: undefined, input: 'hi', output: 'HI' });
+    expect(coerce).toHaveBeenCalledOnce();
+  });
+});
@@ -1,7 +1,8 @@
 import { expect, test, describe } from 'vitest';
 import {
   Configraph, ConfigraphBaseTypes, createResolver, ResolutionError, switchBy,
-  getResolverCtx,
+  getResolverCtx, ConfigraphPlugin, ifThenElse, switchByMatch, switchWhen, whenAll, whenAny, whenEquals, whenMatches,
+  whenNot,
 } from '@dmno/configraph';
 
 const testResolver = (opts?: {
@@ -145,4 +146,199 @@ describe('graph resolution', () => {
       expect(e.configNodes.switchTest.schemaErrors).toHaveLength(1);
     });
   });
+
+  describe('conditional resolvers', () => {
+    test('ifThenElse() uses a node path, and marks the active branch', async () => {
+      const g = new Configraph();
+      const e = g.createEntity({
+        configSchema: {
+          isCi: { extends: 'boolean', value: true },
+          isNotCi: { extends: 'boolean', value: false },
+          ifTrue: { value: ifThenElse('isCi', 'ci-val', 'local-val') },
+          ifFalse: { value: ifThenElse('isNotCi', 'ci-val', 'local-val') },
+        },
+      });
+      await g.resolveConfig();
+      expect(e.configNodes.ifTrue.resolvedValue).toBe('ci-val');
+      expect(e.configNodes.ifFalse.resolvedValue).toBe('local-val');
+      const branches = e.configNodes.ifFalse.valueResolver!.toJSON().branches;
+      expect(branches?.map((b) => [b.id, b.isActive])).toEqual([['then', false], ['else', true]]);
+    });
+
+    test('switchByMatch() matches globs, regexes, and arrays', async () => {
+      const g = new Configraph();
+      const e = g.createEntity({
+        configSchema: {
+          env: { value: 'preview-123' },
+          byGlob: {
+            value: switchByMatch('env', {
+              production: 'prod-val',
+              'preview-*': 'preview-val',
+              _default: 'default-val',
+            }),
+          },
+          byArray: {
+            value: switchByMatch('env', [
+              [['staging', /^preview-\d+$/], 'non-prod-val'],
+              ['_default', 'default-val'],
+            ]),
+          },
+          noMatch: {
+            value: switchByMatch('env', { 'preview-?': 'preview-val', _default: 'default-val' }),
+          },
+        },
+      });
+      await g.resolveConfig();
+      expect(e.configNodes.byGlob.resolvedValue).toBe('preview-val');
+      expect(e.configNodes.byArray.resolvedValue).toBe('non-prod-val');
+      expect(e.configNodes.noMatch.resolvedValue).toBe('default-val');
+    });
+
+    test('switchWhen() supports compound conditions across multiple nodes', async () => {
+      const g = new Configraph();
+      const e = g.createEntity({
+        configSchema: {
+          env: { value: 'preview-1' },
+          region: { value: 'eu' },
+          result: {
+            value: switchWhen([
+              [whenAll(whenMatches('env', 'preview-*'), whenEquals('region', 'us')), 'us-preview'],
+              [whenAll(whenMatches('env', 'preview-*'), whenNot(whenEquals('region', 'us'))), 'other-preview'],
+              [whenAny(whenEquals('env', 'staging'), whenEquals('env', 'production')), 'deployed'],
+            ], 'default-val'),
+          },
+        },
+      });
+      await g.resolveConfig();
+      expect(e.configNodes.result.resolvedValue).toBe('other-preview');
+      expect(e.configNodes.result.dependsOnPaths.sort()).toEqual([e.configNodes.env.fullPath, e.configNodes.region.fullPath]);
+      expect(e.configNodes.result.valueResolver!.toJSON().branches?.[1].label)
+        .toBe('(env matches "preview-*") && (!(region === "us"))');
+    });
+
+    test('switchWhen() falls back to the default value', async () => {
+      const g = new Configraph();
+      const e = g.createEntity({
+        configSchema: {
+          env: { value: 'staging' },
+          result: { value: switchWhen([[whenEquals('env', 'production'), 'prod']], 'default-val') },
+        },
+      });
+      await g.resolveConfig();
+      expect(e.configNodes.result.resolvedValue).toBe('default-val');
+    });
+
+    test('conditions referencing invalid paths add a SchemaError', async () => {
+      const g = new Configraph();
+      const e = g.createEntity({
+        configSchema: {
+          result: { value: switchWhen([[whenAny('isMissing', whenEquals('alsoMissing', 'x')), 'val']]) },
+        },
+      });
+      await g.resolveConfig();
+      expect(e.configNodes.result.schemaErrors.map((err) => err.message)).toEqual([
+        'switchWhen referencing invalid path - isMissing',
+        'switchWhen referencing invalid path - alsoMissing',
+      ]);
+    });
+  });
+});
+
+// resolver which waits a bit, while tracking how many are running at the same time
+function createConcurrencyTracker() {
+  const tracker = { running: 0, maxRunning: 0 };
+  const resolverDef = (value: any) => ({
+    label: 'slow',
+    async resolve() {
+      tracker.running++;
+      tracker.maxRunning = Math.max(tracker.maxRunning, tracker.running);
+      await new Promise((r) => { setTimeout(r, 5); });
+      tracker.running--;
+      return value;
+    },
+  });
+  return { tracker, resolverDef };
+}
+
+class TestPlugin extends ConfigraphPlugin {}
+
+describe('parallel resolution', () => {
+  test('independent nodes are resolved in parallel, up to the graph concurrency limit', async () => {
+    const { tracker, resolverDef } = createConcurrencyTracker();
+    const g = new Configraph({ resolutionConcurrency: 3 });
+    const e = g.createEntity({
+      configSchema: {
+        a: { value: createResolver(resolverDef('a')) },
+        b: { value: createResolver(resolverDef('b')) },
+        c: { value: createResolver(resolverDef('c')) },
+        d: { value: createResolver(resolverDef('d')) },
+        e: { value: createResolver(resolverDef('e')) },
+      },
+    });
+    await g.resolveConfig();
+    expect(tracker.maxRunning).toEqual(3);
+    expect(e.configNodes.e.resolvedValue).toEqual('e');
+  });
+
+  test('nodes are not resolved until their declared dependencies are resolved', async () => {
+    const { tracker, resolverDef } = createConcurrencyTracker();
+    let dependentResolveCount = 0;
+    const g = new Configraph();
+    const e = g.createEntity({
+      configSchema: {
+        a: { value: createResolver(resolverDef('a')) },
+        b: { value: createResolver(resolverDef('b')) },
+        c: {
+          value: createResolver({
+            label: 'depends on a',
+            process() {
+              const depNode = this.configNode.parentEntity!.getConfigNodeByPath('a');
+              this.dependsOnPathsObj[depNode.fullPath] = 'schema';
+            },
+            resolve(ctx) {
+              dependentResolveCount++;
+              return `${ctx.get('a')}!`;
+            },
+          }),
+        },
+      },
+    });
+    await g.resolveConfig();
+    expect(tracker.maxRunning).toEqual(2);
+    expect(dependentResolveCount).toEqual(1);
+    expect(e.configNodes.c.resolvedValue).toEqual('a!');
+  });
+
+  test('plugins can set their own concurrency limit', async () => {
+    const { tracker, resolverDef } = createConcurrencyTracker();
+    const g = new Configraph();
+    g.createEntity({ id: 'root' });
+    const plugin = new TestPlugin('test', { inputSchema: {}, resolutionConcurrency: 1 });
+    g.registerPlugin(plugin);
+    const e = g.createEntity({
+      id: 'child',
+      configSchema: {
+        a: { value: plugin.createResolver(resolverDef('a')) },
+        b: { value: plugin.createResolver(resolverDef('b')) },
+        c: { value: switchBy('a', { _default: plugin.createResolver(resolverDef('c')) }) },
+        d: { value: createResolver(resolverDef('d')) },
+      },
+    });
+    await g.resolveConfig();
+    expect(tracker.maxRunning).toEqual(2);
+    expect(e.configNodes.c.resolvedValue).toEqual('c');
+  });
+
+  test('resolver ctx is isolated while resolving in parallel', async () => {
+    const g = new Configraph();
+    const e = g.createEntity({
+      configSchema: {
+        a: { value: async () => { await new Promise((r) => { setTimeout(r, 10); }); return getResolverCtx().nodePath; } },
+        b: { value: async () => { await new Promise((r) => { setTimeout(r, 1); }); return getResolverCtx().nodePath; } },
+      },
+    });
+    await g.resolveConfig();
+    expect(e.configNodes.a.resolvedValue).toEqual('a');
+    expect(e.configNodes.b.resolvedValue).toEqual('b');
+  });
 });
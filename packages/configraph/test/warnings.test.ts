@@ -0,0 +1,127 @@
+import { expect, test, describe } from 'vitest';
+import {
+  Configraph, ConfigraphBaseTypes, createConfigraphDataType, createResolver, SchemaError, ValidationError,
+} from '@dmno/configraph';
+
+const warnIfLocalhost = createConfigraphDataType({
+  extends: ConfigraphBaseTypes.string(),
+  validate(val: string) {
+    if (val.includes('localhost')) {
+      return new ValidationError('Using localhost', { severity: 'warning', code: 'LOCALHOST' });
+    }
+  },
+});
+
+describe('warnings', () => {
+  test('validation warnings do not make the node invalid', async () => {
+    const g = new Configraph();
+    const e = g.createEntity({
+      configSchema: {
+        warns: { extends: warnIfLocalhost, value: 'http://localhost' },
+        ok: { extends: warnIfLocalhost, value: 'http://example.com' },
+      },
+    });
+    await g.resolveConfig();
+    expect(e.configNodes.warns.isValid).toBe(true);
+    expect(e.configNodes.warns.warnings.map((w) => w.message)).toEqual(['Using localhost']);
+    expect(e.configNodes.ok.warnings).toEqual([]);
+
+    const json = e.configNodes.warns.toCoreJSON();
+    expect(json.validationErrors).toBeUndefined();
+    expect(json.warnings).toEqual([expect.objectContaining({ severity: 'warning', code: 'LOCALHOST' })]);
+  });
+
+  test('warnings from a parent type do not skip further validation', async () => {
+    const g = new Configraph();
+    const e = g.createEntity({
+      configSchema: {
+        item: {
+          extends: warnIfLocalhost,
+          validate: (val) => val.startsWith('https'),
+          value: 'http://localhost',
+        },
+      },
+    });
+    await g.resolveConfig();
+    expect(e.configNodes.item.isValid).toBe(false);
+    expect(e.configNodes.item.validationErrors?.map((err) => err.isWarning)).toEqual([true, false]);
+  });
+
+  test('resolvers can add warnings using `ctx.warn()`', async () => {
+    const g = new Configraph();
+    const e = g.createEntity({
+      configSchema: {
+        item: {
+          value: createResolver({
+            label: 'deprecated',
+            resolve(ctx) {
+              ctx.warn('This resolver is deprecated', { code: 'DEPRECATED' });
+              return 'val';
+            },
+          }),
+        },
+      },
+    });
+    await g.resolveConfig();
+    expect(e.configNodes.item.isValid).toBe(true);
+    expect(e.configNodes.item.resolvedValue).toBe('val');
+    expect(e.configNodes.item.warnings.map((w) => w.code)).toEqual(['DEPRECATED']);
+  });
+
+  test('schema warnings do not make the schema invalid', async () => {
+    const g = new Configraph();
+    const e = g.createEntity({
+      configSchema: {
+        item: {
+          value: createResolver({
+            label: 'test',
+            process() {
+              this.configNode.schemaErrors.push(new SchemaError('Schema warning', { severity: 'warning' }));
+            },
+            resolve: () => 'val',
+          }),
+        },
+      },
+    });
+    await g.resolveConfig();
+    expect(e.configNodes.item.isSchemaValid).toBe(true);
+    expect(e.configNodes.item.warnings).toHaveLength(1);
+    expect(e.configNodes.item.toCoreJSON().schemaErrors).toBeUndefined();
+  });
+
+  test('warnings can be suppressed by code, on the item or on an ancestor entity', async () => {
+    const g = new Configraph();
+    g.createEntity({ id: 'root', suppressWarnings: ['LOCALHOST'] });
+    const child = g.createEntity({
+      id: 'child',
+      configSchema: { item: { extends: warnIfLocalhost, value: 'localhost' } },
+    });
+    const other = g.createEntity({
+      id: 'other',
+      parentId: 'child',
+      configSchema: {
+        suppressed: { extends: warnIfLocalhost, value: 'localhost', suppressWarnings: true },
+        notMatchingCode: { extends: warnIfLocalhost, value: 'localhost', suppressWarnings: ['OTHER'] },
+      },
+      suppressWarnings: false,
+    });
+    await g.resolveConfig();
+    // suppressed by the root entity
+    expect(child.configNodes.item.warnings).toEqual([]);
+    // the warning is still there, just not reported
+    expect(child.configNodes.item.validationErrors).toHaveLength(1);
+    expect(other.configNodes.suppressed.warnings).toEqual([]);
+    expect(other.configNodes.notMatchingCode.warnings).toHaveLength(1);
+  });
+
+  test('errors are never suppressed', async () => {
+    const g = new Configraph();
+    const e = g.createEntity({
+      suppressWarnings: true,
+      configSchema: { item: { extends: ConfigraphBaseTypes.string({ startsWith: 'a' }), value: 'b' } },
+    });
+    await g.resolveConfig();
+    expect(e.configNodes.item.isValid).toBe(false);
+    expect(e.configNodes.item.validationErrors?.[0].isSuppressedBy(true)).toBe(false);
+  });
+});
@@ -26,6 +26,10 @@ import { PluginCommand } from './commands/plugin.command';
 import { InitCommand } from './commands/init.command';
 import { ClearCacheCommand } from './commands/clear-cache.command';
 import { PrintEnvCommand } from './commands/printenv.command';
+import { CheckCommand } from './commands/check.command';
+import { DiffCommand } from './commands/diff.command';
+import { ExplainCommand } from './commands/explain.command';
+import { GraphCommand } from './commands/graph.command';
 
 
 
@@ -43,6 +47,10 @@ program.addCommand(InitCommand);
 program.addCommand(ClearCacheCommand);
 program.addCommand(PluginCommand);
 program.addCommand(PrintEnvCommand);
+program.addCommand(CheckCommand);
+program.addCommand(DiffCommand);
+program.addCommand(ExplainCommand);
+program.addCommand(GraphCommand);
 
 
 
@@ -0,0 +1,116 @@
+import kleur from 'kleur';
+import _ from 'lodash-es';
+import { DmnoCommand } from '../lib/dmno-command';
+
+import { addServiceSelection } from '../lib/selection-helpers';
+import { getCliRunCtx } from '../lib/cli-ctx';
+import { addCacheFlags } from '../lib/cache-helpers';
+import { CliExitError } from '../lib/cli-error';
+import { formatError, formatWarning } from '../lib/formatting';
+import {
+  collectCheckResults, formatCheckResultsAsJSON, formatCheckResultsAsJUnit, formatCheckResultsAsSarif,
+  isWarningIssue,
+} from '../lib/check-report';
+
+const CHECK_OUTPUT_FORMATS = ['json', 'junit', 'sarif'];
+
+const program = new DmnoCommand('check')
+  .summary('Validate config for the entire workspace')
+  .description('Loads every service, checks the config schema and resolved values, and exits with an error if anything is invalid - useful in CI')
+  .option('--skip-resolve', 'only check the config schema, without resolving any values')
+  .option('-f,--format <format>', `machine-readable output format (${CHECK_OUTPUT_FORMATS.join(', ')})`)
+  .option('--strict', 'treat warnings as errors')
+  .example('dmno check', 'Checks the schema and resolved config of every service')
+  .example('dmno check --skip-resolve', 'Checks only the config schema, without resolving any values')
+  .example('dmno check --service service1', 'Checks only service1')
+  .example('dmno check --strict', 'Checks all config, and also fails if there are any warnings')
+  .example('dmno check --format sarif > dmno.sarif', 'Outputs results in SARIF format, to annotate pull requests in CI')
+  .example('dmno check --format junit > dmno-results.xml', 'Outputs results in JUnit XML format');
+
+addCacheFlags(program);
+addServiceSelection(program, {
+  disableAutoSelect: true,
+  disableMenuSelect: true,
+  allowNoSelection: true,
+});
+
+
+program.action(async (opts: {
+  skipResolve?: boolean,
+  format?: string,
+  strict?: boolean,
+}, thisCommand) => {
+  const ctx = getCliRunCtx();
+
+  if (opts.format) {
+    if (!CHECK_OUTPUT_FORMATS.includes(opts.format)) {
+      throw new CliExitError(`Invalid format - "${opts.format}"`, {
+        suggestion: `Valid formats are: ${CHECK_OUTPUT_FORMATS.join(', ')}`,
+        forceExit: true,
+      });
+    }
+    ctx.expectingOutput = true;
+  }
+
+  const workspace = ctx.workspace!;
+  const services = ctx.selectedService ? [ctx.selectedService] : workspace.allServices;
+
+  // resolving is not safe with an invalid schema, so we only resolve if the schema checks pass
+  const schemaResults = collectCheckResults(workspace, services);
+  const hasSchemaIssues = _.some(schemaResults, (r) => _.some(r.issues, (i) => !isWarningIssue(i)))
+    || _.some(_.values(workspace.allServices), (s) => !s.isSchemaValid);
+  let results = schemaResults;
+  if (!opts.skipResolve) {
+    if (hasSchemaIssues) {
+      ctx.log(kleur.yellow('\nSkipping config resolution because of schema errors\n'));
+    } else {
+      await workspace.resolveConfig();
+      results = collectCheckResults(workspace, services);
+    }
+  }
+
+  const allIssues = results.flatMap((r) => r.issues);
+  const warningCount = _.filter(allIssues, isWarningIssue).length;
+  const errorCount = allIssues.length - warningCount;
+
+  if (opts.format === 'json') {
+    console.log(formatCheckResultsAsJSON(results));
+  } else if (opts.format === 'junit') {
+    console.log(formatCheckResultsAsJUnit(results));
+  } else if (opts.format === 'sarif') {
+    console.log(formatCheckResultsAsSarif(results, workspace.rootService.path));
+  } else {
+    _.each(results, (r) => {
+      if (!r.issues.length) {
+        console.log(`✅ ${kleur.magenta(r.serviceName)}`);
+        return;
+      }
+      const onlyWarnings = _.every(r.issues, isWarningIssue);
+      console.log(`\n${onlyWarnings ? '⚠️ ' : '❌'} ${kleur.magenta(r.serviceName)}`);
+      _.each(r.issues, (issue) => {
+        const label = issue.pluginInstanceId
+          ? `${kleur.gray('plugin')} ${issue.pluginInstanceId}${issue.itemPath ? ` > ${issue.itemPath}` : ''}`
+          : issue.itemPath || kleur.gray('(service)');
+        const loc = issue.error.location;
+        console.log(`  ${kleur.bold(label)} ${loc?.file ? kleur.gray(_.compact([loc.file, loc.line, loc.column]).join(':')) : ''}`);
+        console.log(`    ${isWarningIssue(issue) ? formatWarning(issue.error) : formatError(issue.error)}`);
+      });
+    });
+    console.log();
+  }
+
+  // warnings only fail the check in strict mode
+  const issueCount = errorCount + (opts.strict ? warningCount : 0);
+  if (issueCount) {
+    throw new CliExitError(`Config check failed - found ${issueCount} problem${issueCount === 1 ? '' : 's'}`, {
+      forceExit: true,
+    });
+  }
+  ctx.log(kleur.green(`All config is valid! (${results.length} service${results.length === 1 ? '' : 's'} checked)`));
+  if (warningCount) {
+    ctx.log(kleur.yellow(`Found ${warningCount} warning${warningCount === 1 ? '' : 's'} - use \`--strict\` to treat warnings as errors`));
+  }
+  process.exit(0);
+});
+
+export const CheckCommand = program;
@@ -0,0 +1,163 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import kleur from 'kleur';
+import _ from 'lodash-es';
+import { DmnoCommand } from '../lib/dmno-command';
+
+import { addServiceSelection } from '../lib/selection-helpers';
+import { getCliRunCtx } from '../lib/cli-ctx';
+import { addCacheFlags } from '../lib/cache-helpers';
+import { CliExitError } from '../lib/cli-error';
+import { joinAndCompact } from '../lib/formatting';
+import {
+  diffConfigSnapshots, formatConfigDiff, getRedactedConfigDiff, getServiceConfigSnapshot,
+} from '../lib/config-diff';
+import { exportGitFolderAtRef, listGitIgnoredFiles, resolveGitRef } from '../../lib/git-utils';
+
+// git-ignored local override files are copied from the working copy, so they apply to both sides
+const LOCAL_OVERRIDE_FILE_REGEX = /^(\.env|overrides)\./;
+
+const program = new DmnoCommand('diff')
+  .summary('Compare resolved config between environments or git revisions')
+  .description('Resolves the config for a service twice and shows which items were added, removed, or changed. Sensitive values are redacted.')
+  .option('--from-env <env>', 'environment to compare from (sets the env var below)')
+  .option('--to-env <env>', 'environment to compare to (sets the env var below)')
+  .option('--env-var <name>', 'env var used to select the environment - use NODE_ENV if using `switchByNodeEnv`', 'DMNO_ENV')
+  .option('--ref <gitRef>', 'compare from the .dmno folder(s) at another git ref (ex: main, HEAD~1) - git-ignored local overrides (ex: .env.local) from your working copy are applied to both sides')
+  .option('-f,--format <format>', 'output format (json)')
+  .example('dmno diff --from-env staging --to-env production', 'Shows what changes between staging and production')
+  .example('dmno diff --to-env production --env-var NODE_ENV', 'Shows what changes when NODE_ENV is set to production')
+  .example('dmno diff --ref main', 'Shows what changes compared to the config on the main branch')
+  .example('dmno diff --ref main --to-env production --format json', 'Combines options, and outputs the diff as JSON');
+
+addCacheFlags(program);
+addServiceSelection(program);
+
+
+program.action(async (opts: {
+  fromEnv?: string,
+  toEnv?: string,
+  envVar: string,
+  ref?: string,
+  format?: string,
+}, thisCommand) => {
+  const ctx = getCliRunCtx();
+
+  if (opts.format) {
+    if (opts.format !== 'json') {
+      throw new CliExitError(`Invalid format - "${opts.format}"`, {
+        suggestion: 'Valid formats are: json',
+        forceExit: true,
+      });
+    }
+    ctx.expectingOutput = true;
+  }
+
+  if (!ctx.selectedService) return; // error message already handled
+
+  if (!opts.ref && opts.fromEnv === undefined && opts.toEnv === undefined) {
+    throw new CliExitError('Nothing to compare', {
+      suggestion: 'Use --from-env / --to-env to compare environments, and/or --ref to compare against another git revision',
+      forceExit: true,
+    });
+  }
+
+  const configLoader = ctx.configLoader;
+  const serviceName = ctx.selectedService.serviceName;
+
+  let gitSha: string | undefined;
+  if (opts.ref) {
+    gitSha = await resolveGitRef(opts.ref, ctx.workspace!.rootPath);
+    if (!gitSha) {
+      throw new CliExitError(`Invalid git ref - "${opts.ref}"`, { forceExit: true });
+    }
+  }
+
+  async function loadConfigSnapshot(env?: string, ref?: string) {
+    const originalEnvValue = process.env[opts.envVar];
+    let tempRootPath: string | undefined;
+    const label = joinAndCompact([ref || 'current', env !== undefined && `(${opts.envVar}=${env})`]);
+    try {
+      if (env !== undefined) process.env[opts.envVar] = env;
+
+      if (ref) {
+        // export each .dmno folder at that ref into a temp folder, mirroring the workspace layout
+        // node_modules folders are linked so package imports still work
+        // but imports of files outside of the .dmno folder will resolve relative to the temp folder
+        const workspaceRootPath = ctx.workspace!.rootPath;
+        tempRootPath = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'dmno-diff-'));
+        configLoader.dmnoFolderOverrides = {};
+        for (const service of configLoader.dmnoWorkspace!.allServices) {
+          const tempServicePath = path.join(tempRootPath, path.relative(workspaceRootPath, service.path));
+          const tempFolderPath = path.join(tempServicePath, '.dmno');
+          const exportedFileCount = await exportGitFolderAtRef(ref, service.dmnoFolderPath, tempFolderPath);
+          if (!exportedFileCount) {
+            // the service did not exist yet at that ref
+            if (service.isRoot || service.serviceName === serviceName) {
+              throw new CliExitError(`Service "${service.serviceName}" has no .dmno folder at ${label}`, { forceExit: true });
+            }
+            configLoader.dmnoFolderOverrides[service.path] = false;
+            continue;
+          }
+          for (const localFilePath of await listGitIgnoredFiles(service.dmnoFolderPath)) {
+            if (!LOCAL_OVERRIDE_FILE_REGEX.test(path.basename(localFilePath))) continue;
+            await fs.promises.cp(
+              path.join(service.dmnoFolderPath, localFilePath),
+              path.join(tempFolderPath, localFilePath),
+            );
+          }
+          if (fs.existsSync(path.join(service.path, 'node_modules'))) {
+            await fs.promises.symlink(path.join(service.path, 'node_modules'), path.join(tempServicePath, 'node_modules'));
+          }
+          configLoader.dmnoFolderOverrides[service.path] = tempFolderPath;
+        }
+      }
+
+      await configLoader.reload();
+      const service = configLoader.dmnoWorkspace!.getService({ serviceName });
+      if (!service) {
+        throw new CliExitError(`Service "${serviceName}" not found in ${label}`, { forceExit: true });
+      }
+      if (!service.isSchemaValid) {
+        throw new CliExitError(`Unable to load config schema for ${label}`, {
+          details: service.configLoadError?.message,
+          forceExit: true,
+        });
+      }
+      return { label, snapshot: getServiceConfigSnapshot(service) };
+    } finally {
+      if (originalEnvValue === undefined) delete process.env[opts.envVar];
+      else process.env[opts.envVar] = originalEnvValue;
+      configLoader.dmnoFolderOverrides = undefined;
+      if (tempRootPath) await fs.promises.rm(tempRootPath, { recursive: true, force: true });
+    }
+  }
+
+  const from = await loadConfigSnapshot(opts.fromEnv, gitSha);
+  const to = await loadConfigSnapshot(opts.toEnv);
+  const diff = diffConfigSnapshots(from.snapshot, to.snapshot);
+
+  if (opts.format === 'json') {
+    console.log(JSON.stringify({
+      from: from.label,
+      to: to.label,
+      changes: getRedactedConfigDiff(diff),
+    }));
+    process.exit(0);
+  }
+
+  ctx.log(`\nComparing config for service ${kleur.magenta(serviceName)}`);
+  ctx.log(`${kleur.red(from.label)} → ${kleur.green(to.label)}\n`);
+  if (!diff.length) {
+    ctx.log(kleur.gray('No changes'));
+  } else {
+    ctx.log(formatConfigDiff(diff));
+    const changeCounts = _.countBy(diff, (d) => d.change);
+    ctx.log(kleur.gray(`\n${_.map(changeCounts, (count, change) => `${count} ${change}`).join(', ')}`));
+  }
+  ctx.log();
+  process.exit(0);
+});
+
+export const DiffCommand = program;
@@ -0,0 +1,184 @@
+import kleur from 'kleur';
+import _ from 'lodash-es';
+import { CoercionError } from '@dmno/configraph';
+import { DmnoCommand } from '../lib/dmno-command';
+
+import { addServiceSelection } from '../lib/selection-helpers';
+import { getCliRunCtx } from '../lib/cli-ctx';
+import { addCacheFlags } from '../lib/cache-helpers';
+import { addWatchMode } from '../lib/watch-mode-helpers';
+import { CliExitError } from '../lib/cli-error';
+import { checkForSchemaErrors } from '../lib/check-errors-helpers';
+import { formatError, formattedValue, joinAndCompact } from '../lib/formatting';
+import { redactString } from '../../lib/redaction-helpers';
+import { DmnoConfigraphNode } from '../../config-engine/configraph-adapter';
+
+const program = new DmnoCommand('explain')
+  .summary('Explain why a config item has its value')
+  .description('Resolves the config and then shows where an item\'s value came from - overrides, resolver branches, cache, picks, coercion, and dependencies')
+  .argument('<itemPath>')
+  .option('-f,--format <format>', 'output format (json)')
+  .example('dmno explain SOME_KEY', 'shows where the value of SOME_KEY came from')
+  .example('dmno explain DB.host', 'explains a nested item')
+  .example('dmno explain SOME_KEY --format json', 'outputs the explanation as JSON');
+
+addWatchMode(program); // must be first
+addCacheFlags(program);
+addServiceSelection(program);
+
+
+program.action(async (itemPath: string, opts: {
+  format?: string,
+}, thisCommand) => {
+  const ctx = getCliRunCtx();
+
+  if (opts.format) {
+    if (opts.format !== 'json') {
+      throw new CliExitError(`Invalid format - "${opts.format}"`, {
+        suggestion: 'Valid formats are: json',
+        forceExit: true,
+      });
+    }
+    ctx.expectingOutput = true;
+  }
+
+  if (!ctx.selectedService) return; // error message already handled
+
+  const workspace = ctx.workspace!;
+  const service = ctx.selectedService;
+  checkForSchemaErrors(workspace);
+  await workspace.resolveConfig();
+
+  let node: DmnoConfigraphNode | undefined;
+  try {
+    node = service.configraphEntity.getConfigNodeByPath(itemPath) as DmnoConfigraphNode | undefined;
+  } catch (err) {
+    // path was not found within the node's children
+  }
+  if (!node) {
+    throw new CliExitError(`Config item ${itemPath} not found in config schema`, {
+      details: [
+        'Perhaps you meant one of:',
+        ..._.map(service.config, (val, key) => `${kleur.gray('-')} ${key}`),
+      ],
+    });
+  }
+
+  const provenance = node.getValueProvenance();
+
+  // sensitive values are always redacted, including the values of any sensitive dependencies
+  function redactIfSensitive(val: any, isSensitive: boolean) {
+    if (!isSensitive || val === undefined || val === null || val instanceof CoercionError) return val;
+    return redactString(_.isString(val) ? val : JSON.stringify(val));
+  }
+  const isSensitive = node.isSensitive;
+  const dependencies = provenance.dependencies.map((dep) => {
+    const depNode = workspace.configraph.nodesByFullPath[dep.fullPath] as DmnoConfigraphNode | undefined;
+    return {
+      ...dep,
+      resolvedValue: redactIfSensitive(depNode?.resolvedValue, !!depNode?.isSensitive),
+      isValid: depNode?.isValid,
+    };
+  });
+
+  const redactedProvenance = {
+    ...provenance,
+    overrides: provenance.overrides.map((o) => ({ ...o, value: redactIfSensitive(o.value, isSensitive) })),
+    valueFromParent: redactIfSensitive(provenance.valueFromParent, isSensitive),
+    resolvedRawValue: redactIfSensitive(provenance.resolvedRawValue, isSensitive),
+    coercionSteps: provenance.coercionSteps.map((step) => ({
+      ...step,
+      input: redactIfSensitive(step.input, isSensitive),
+      output: redactIfSensitive(step.output, isSensitive),
+    })),
+    resolvedValue: redactIfSensitive(provenance.resolvedValue, isSensitive),
+    isSensitive,
+    isValid: node.isValid,
+    dependencies,
+  };
+
+  if (opts.format === 'json') {
+    console.log(JSON.stringify(redactedProvenance, (_key, val) => (val instanceof Error ? val.message : val)));
+    return;
+  }
+
+  const sectionHeading = (label: string) => `\n${kleur.underline(label)}`;
+
+  console.log(joinAndCompact([
+    `\n🔎 ${kleur.magenta(service.serviceName)} ${kleur.gray('/')} ${kleur.cyan(node.path)}`,
+    isSensitive && ` 🔐${kleur.italic().gray('sensitive')}`,
+  ]));
+  console.log(`${kleur.gray('└')} ${formattedValue(redactedProvenance.resolvedValue, true)} ${node.isValid ? '✅' : '❌'}`);
+  const nodeErrors = _.compact([node.resolutionError, node.coercionError, ...node.validationErrors || []]);
+  _.each(nodeErrors, (err) => console.log(`  ${formatError(err.toJSON())}`));
+
+  console.log(sectionHeading('Value source'));
+  if (provenance.source === 'override') {
+    console.log('Set via override');
+  } else if (provenance.source === 'parent') {
+    console.log(`Passed down from parent object ${kleur.gray('=')} ${formattedValue(redactedProvenance.valueFromParent)}`);
+  } else if (provenance.source === 'resolver') {
+    console.log('Set by resolver defined in schema');
+  } else {
+    console.log(kleur.gray('No value set'));
+  }
+
+  if (redactedProvenance.overrides.length) {
+    console.log(sectionHeading('Overrides'));
+    _.each(redactedProvenance.overrides, (o) => {
+      console.log(joinAndCompact([
+        o.isActive ? kleur.green('✔') : kleur.gray('✗'),
+        o.sourceType,
+        o.sourceLabel && kleur.gray(`- ${o.sourceLabel}`),
+        kleur.gray('='),
+        formattedValue(o.value),
+        o.isActive ? kleur.green('(active)') : kleur.gray('(ignored)'),
+      ]));
+    });
+  }
+
+  if (provenance.pickedFrom.length) {
+    console.log(sectionHeading('Picked from'));
+    console.log(provenance.pickedFrom.join(kleur.gray(' ← ')));
+  }
+
+  if (provenance.resolvers.length) {
+    console.log(sectionHeading('Resolver'));
+    _.each(provenance.resolvers, (r, i) => {
+      const indent = i ? `${'  '.repeat(i - 1)}${kleur.gray('└')} ` : '';
+      console.log(indent + joinAndCompact([
+        r.branch && `${kleur.gray('branch')} ${kleur.yellow(r.branch.label)}${r.branch.isDefault ? kleur.gray(' (default)') : ''} ${kleur.gray('→')}`,
+        r.label || kleur.gray('(unlabeled resolver)'),
+        r.createdByPluginId && kleur.gray(`[plugin: ${r.createdByPluginId}]`),
+        r.cacheKey && kleur.blue(`[cache: ${r.cacheKey} - ${r.isUsingCache ? 'hit' : 'miss'}]`),
+      ]));
+    });
+  }
+
+  if (provenance.coercionSteps.length) {
+    console.log(sectionHeading('Coercion'));
+    console.log(`${kleur.gray('raw')} ${formattedValue(redactedProvenance.resolvedRawValue, true)}`);
+    _.each(redactedProvenance.coercionSteps, (step) => {
+      const output = step.output instanceof CoercionError
+        ? kleur.red(`💥 ${step.output.message}`)
+        : formattedValue(step.output, true);
+      console.log(`${kleur.gray('→')} ${output} ${kleur.gray(`(${step.typeLabel || 'inline type'})`)}`);
+    });
+  }
+
+  if (dependencies.length) {
+    console.log(sectionHeading('Dependencies'));
+    _.each(dependencies, (dep) => {
+      console.log(joinAndCompact([
+        dep.isValid ? '✅' : '❌',
+        dep.fullPath,
+        kleur.gray(`(${dep.type})`),
+        kleur.gray('='),
+        formattedValue(dep.resolvedValue),
+      ]));
+    });
+  }
+  console.log();
+});
+
+export const ExplainCommand = program;
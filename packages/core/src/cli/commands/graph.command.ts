@@ -0,0 +1,103 @@
+import kleur from 'kleur';
+import _ from 'lodash-es';
+import { DmnoCommand } from '../lib/dmno-command';
+
+import { addServiceSelection } from '../lib/selection-helpers';
+import { getCliRunCtx } from '../lib/cli-ctx';
+import { addCacheFlags } from '../lib/cache-helpers';
+import { CliExitError } from '../lib/cli-error';
+import { checkForSchemaErrors } from '../lib/check-errors-helpers';
+import {
+  filterGraph, formatGraphAsDot, formatGraphAsMermaid, getConfigNodesGraph, getServicesGraph,
+} from '../lib/graph-export';
+
+const GRAPH_OUTPUT_FORMATS = ['mermaid', 'dot', 'json'];
+const GRAPH_DIRECTIONS = ['ancestors', 'descendants', 'both'];
+
+const program = new DmnoCommand('graph')
+  .summary('Export the dependency graph of services or config items')
+  .description('Exports the graph of services (parent/pick relationships) or config items (dependencies) as Mermaid, Graphviz DOT, or JSON')
+  .option('--nodes', 'export the graph of individual config items, rather than services')
+  .option('--item <itemPath>', 'only include this item (within the selected service) and the items connected to it - implies --nodes')
+  .option('--direction <direction>', `when filtering, which connected nodes to include (${GRAPH_DIRECTIONS.join(', ')})`, 'both')
+  .option('-f,--format <format>', `output format (${GRAPH_OUTPUT_FORMATS.join(', ')})`, 'mermaid')
+  .example('dmno graph', 'Exports the services graph as a Mermaid flowchart')
+  .example('dmno graph --format dot | dot -Tsvg > services.svg', 'Renders the services graph using Graphviz')
+  .example('dmno graph --nodes --service api', 'Exports the config items graph for the api service and everything connected to it')
+  .example('dmno graph --service api --item DB_URL --direction ancestors', 'Shows everything that DB_URL depends on')
+  .example('dmno graph --nodes --format json', 'Exports the config items graph as JSON');
+
+addCacheFlags(program);
+addServiceSelection(program, {
+  disableAutoSelect: true,
+  disableMenuSelect: true,
+  allowNoSelection: true,
+});
+
+
+program.action(async (opts: {
+  nodes?: boolean,
+  item?: string,
+  direction: 'ancestors' | 'descendants' | 'both',
+  format: string,
+}, thisCommand) => {
+  const ctx = getCliRunCtx();
+
+  if (!GRAPH_OUTPUT_FORMATS.includes(opts.format)) {
+    throw new CliExitError(`Invalid format - "${opts.format}"`, {
+      suggestion: `Valid formats are: ${GRAPH_OUTPUT_FORMATS.join(', ')}`,
+      forceExit: true,
+    });
+  }
+  if (!GRAPH_DIRECTIONS.includes(opts.direction)) {
+    throw new CliExitError(`Invalid direction - "${opts.direction}"`, {
+      suggestion: `Valid directions are: ${GRAPH_DIRECTIONS.join(', ')}`,
+      forceExit: true,
+    });
+  }
+  ctx.expectingOutput = true;
+
+  const workspace = ctx.workspace!;
+  const service = ctx.selectedService;
+  checkForSchemaErrors(workspace);
+
+  let graph;
+  if (opts.nodes || opts.item) {
+    // resolution dependencies are only known once the config is resolved
+    await workspace.resolveConfig();
+    graph = getConfigNodesGraph(workspace);
+
+    if (opts.item) {
+      if (!service) {
+        throw new CliExitError('You must select a service when using --item', {
+          suggestion: 'Try rerunning using -s flag',
+          forceExit: true,
+        });
+      }
+      const itemFullPath = `${service.serviceName}!${opts.item}`;
+      if (!_.some(graph.nodes, (n) => n.id === itemFullPath)) {
+        throw new CliExitError(`Config item ${opts.item} not found in service ${kleur.magenta(service.serviceName)}`, {
+          forceExit: true,
+        });
+      }
+      graph = filterGraph(graph, [itemFullPath], opts.direction);
+    } else if (service) {
+      const serviceNodeIds = graph.nodes.filter((n) => n.group === service.serviceName).map((n) => n.id);
+      graph = filterGraph(graph, serviceNodeIds, opts.direction);
+    }
+  } else {
+    graph = getServicesGraph(workspace);
+    if (service) graph = filterGraph(graph, [service.serviceName], opts.direction);
+  }
+
+  if (opts.format === 'json') {
+    console.log(JSON.stringify(graph, null, 2));
+  } else if (opts.format === 'dot') {
+    console.log(formatGraphAsDot(graph));
+  } else {
+    console.log(formatGraphAsMermaid(graph));
+  }
+  process.exit(0);
+});
+
+export const GraphCommand = program;
@@ -8,49 +8,93 @@ import { addCacheFlags } from '../lib/cache-helpers';
 import { addWatchMode } from '../lib/watch-mode-helpers';
 import { CliExitError } from '../lib/cli-error';
 import { checkForConfigErrors, checkForSchemaErrors } from '../lib/check-errors-helpers';
+import { shellQuote } from '../lib/config-output-formats';
+import { DmnoConfigraphNode } from '../../config-engine/configraph-adapter';
 
+const PRINTENV_OUTPUT_FORMATS = ['raw', 'json', 'shell'];
 
 const program = new DmnoCommand('printenv')
-  .summary('Print a single config value')
-  .description('Resolves the config and then prints a single value')
-  .argument('<itemPath>')
-  .example('dmno printenv SOME_KEY', 'resolves config and prints the value of the single item');
+  .summary('Print config value(s)')
+  .description('Resolves the config and then prints one or more values')
+  .argument('<itemPaths...>')
+  .option('-f,--format <format>', `output format - ${PRINTENV_OUTPUT_FORMATS.join('|')}`, 'raw')
+  .option('--only-item-errors', 'only fail if the requested item(s) are invalid, ignoring errors elsewhere in the config')
+  .example('dmno printenv SOME_KEY', 'resolves config and prints the value of the single item')
+  .example('dmno printenv DB.host DB.port', 'prints multiple values, one per line')
+  .example('dmno printenv ALLOWED_ORIGINS[0]', 'prints a single item from within an array')
+  .example('dmno printenv SOME_KEY --format shell', 'prints the value quoted so it is safe to use in a shell')
+  .example('dmno printenv KEY1 KEY2 --format json', 'prints an object of the values keyed by path')
+  .example('dmno printenv SOME_KEY --only-item-errors', 'prints the value as long as that item is valid, even if other items are not');
 
 addWatchMode(program); // must be first
 addCacheFlags(program);
 addServiceSelection(program);
 
 
-program.action(async (itemPath: string, opts: {}, thisCommand) => {
+function formatRawValue(val: any) {
+  if (val === undefined) return '';
+  if (_.isString(val)) return val;
+  if (_.isArray(val) || _.isObject(val)) return JSON.stringify(val);
+  return String(val);
+}
+
+program.action(async (itemPaths: Array<string>, opts: {
+  format: string,
+  onlyItemErrors?: boolean,
+}, thisCommand) => {
   const ctx = getCliRunCtx();
 
   ctx.expectingOutput = true;
 
   if (!ctx.selectedService) return; // error message already handled
 
+  if (!PRINTENV_OUTPUT_FORMATS.includes(opts.format)) {
+    throw new CliExitError(`Invalid format: ${opts.format}`, {
+      suggestion: `Use one of: ${PRINTENV_OUTPUT_FORMATS.join(', ')}`,
+    });
+  }
+
   const workspace = ctx.workspace!;
   const service = ctx.selectedService;
   checkForSchemaErrors(workspace);
   await workspace.resolveConfig();
-  checkForConfigErrors(service);
-
-  // TODO: could be smarter about not caring about errors unless they affect the item(s) being printed
-  // TODO: support nested paths
-  // TODO: do we want to support multiple items?
-
-  if (!service.config[itemPath]) {
-    throw new CliExitError(`Config item ${itemPath} not found in config schema`, {
-      details: [
-        'Perhaps you meant one of:',
-        ..._.map(service.config, (val, key) => `${kleur.gray('-')} ${key}`),
-      ],
-    });
+
+  const nodesByPath: Record<string, DmnoConfigraphNode> = {};
+  for (const itemPath of itemPaths) {
+    let node: DmnoConfigraphNode | undefined;
+    try {
+      node = service.configraphEntity.getConfigNodeByPath(itemPath) as DmnoConfigraphNode | undefined;
+    } catch (err) {
+      // path was not found within the node's children
+    }
+    if (!node) {
+      throw new CliExitError(`Config item ${itemPath} not found in config schema`, {
+        details: [
+          'Perhaps you meant one of:',
+          ..._.map(service.config, (val, key) => `${kleur.gray('-')} ${key}`),
+        ],
+      });
+    }
+    nodesByPath[itemPath] = node;
   }
 
+  // a node's validity already takes into account its children and its dependencies
+  checkForConfigErrors(service, {
+    ...opts.onlyItemErrors && { items: _.values(nodesByPath) },
+  });
 
-  // TODO: what to do about formatting of arrays/objects/etc
-  // now just print the resolved value
-  ctx.logOutput(service.config[itemPath].resolvedValue);
+  if (opts.format === 'json') {
+    if (itemPaths.length === 1) {
+      ctx.logOutput(JSON.stringify(nodesByPath[itemPaths[0]].resolvedValue ?? null));
+    } else {
+      ctx.logOutput(JSON.stringify(_.mapValues(nodesByPath, (node) => node.resolvedValue)));
+    }
+  } else {
+    for (const itemPath of itemPaths) {
+      const formattedVal = formatRawValue(nodesByPath[itemPath].resolvedValue);
+      ctx.logOutput(opts.format === 'shell' ? shellQuote(formattedVal) : formattedVal);
+    }
+  }
 });
 
 export const PrintEnvCommand = program;
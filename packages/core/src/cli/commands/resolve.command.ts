@@ -3,6 +3,7 @@ import _ from 'lodash-es';
 import { tryCatch } from '@dmno/ts-lib';
 import { outdent } from 'outdent';
 import boxen from 'boxen';
+import YAML from 'yaml';
 import { DmnoCommand } from '../lib/dmno-command';
 
 import {
@@ -14,19 +15,49 @@ import { addCacheFlags } from '../lib/cache-helpers';
 import { addWatchMode } from '../lib/watch-mode-helpers';
 import { CliExitError } from '../lib/cli-error';
 import { checkForConfigErrors, checkForSchemaErrors } from '../lib/check-errors-helpers';
+import {
+  flattenConfigForEnv, formatAsDotEnv, formatAsK8sManifests, formatAsShellExports,
+} from '../lib/config-output-formats';
+
+const RESOLVE_OUTPUT_FORMATS = ['json', 'json-full', 'json-injected', 'dotenv', 'shell', 'yaml', 'k8s'];
 
 const program = new DmnoCommand('resolve')
   .summary('Loads config schema and resolves config values')
   .description('Loads the resolved config for a service')
-  .option('-f,--format <format>', 'format to output resolved config (ex. json)')
+  .option('-f,--format <format>', `format to output resolved config (${RESOLVE_OUTPUT_FORMATS.join(', ')})`)
   .option('--public', 'only loads public (non-sensitive) values')
   .option('--show-all', 'shows all items, even when config is failing')
+  .option('--k8s-name <name>', 'name to use for generated k8s manifests (defaults to service name)')
+  .option('--k8s-namespace <namespace>', 'namespace to use for generated k8s manifests')
+  .option('--deep-check', 'also run async validations - expensive checks like testing connections or api keys')
+  .option('--deep-check-timeout <ms>', 'default timeout for each async validation, in milliseconds')
+  .option('--strict', 'treat warnings as errors')
   .example('dmno resolve', 'Loads the resolved config for the root service')
   .example('dmno resolve --service service1', 'Loads the resolved config for service1')
-  .example('dmno resolve --service service1 --format json', 'Loads the resolved config for service1 in JSON format');
+  .example('dmno resolve --service service1 --format json', 'Loads the resolved config for service1 in JSON format')
+  .example('dmno resolve --format dotenv > .env.production', 'Writes the resolved config as a .env file')
+  .example('eval "$(dmno resolve --format shell)"', 'Exports the resolved config into the current shell')
+  .example('dmno resolve --format k8s | kubectl apply -f -', 'Creates a k8s Secret (sensitive items) and ConfigMap (everything else)')
+  .example('dmno resolve --deep-check', 'Resolves config and runs async validations, for example checking a database url can connect');
 
 addWatchMode(program); // must be first
 addCacheFlags(program);
+// async validation must be enabled before the workspace is loaded and resolved
+program.hook('preAction', async (thisCommand) => {
+  const ctx = getCliRunCtx();
+  const { deepCheck, deepCheckTimeout } = thisCommand.opts();
+  if (deepCheckTimeout) {
+    const timeout = parseInt(deepCheckTimeout);
+    if (!(timeout > 0)) {
+      throw new CliExitError(`Invalid timeout - "${deepCheckTimeout}"`, {
+        suggestion: 'Timeout must be a positive number of milliseconds',
+        forceExit: true,
+      });
+    }
+    ctx.configLoader.asyncValidationTimeout = timeout;
+  }
+  ctx.configLoader.runAsyncValidation = !!deepCheck;
+});
 addServiceSelection(program);
 
 
@@ -40,10 +71,22 @@ program.action(async (opts: {
   format?: string,
   public?: boolean,
   showAll?: boolean,
+  k8sName?: string,
+  k8sNamespace?: string,
+  deepCheck?: boolean,
+  strict?: boolean,
 }, thisCommand) => {
   const ctx = getCliRunCtx();
 
-  if (opts.format) ctx.expectingOutput = true;
+  if (opts.format) {
+    if (!RESOLVE_OUTPUT_FORMATS.includes(opts.format)) {
+      throw new CliExitError(`Invalid format - "${opts.format}"`, {
+        suggestion: `Valid formats are: ${RESOLVE_OUTPUT_FORMATS.join(', ')}`,
+        forceExit: true,
+      });
+    }
+    ctx.expectingOutput = true;
+  }
 
   if (!ctx.selectedService) return; // error message already handled
 
@@ -51,19 +94,43 @@ program.action(async (opts: {
 
   const workspace = ctx.workspace!;
   const service = ctx.selectedService;
-  checkForSchemaErrors(workspace);
+  checkForSchemaErrors(workspace, { strict: opts.strict });
   await workspace.resolveConfig();
-  checkForConfigErrors(service, { showAll: opts?.showAll });
+  if (opts.deepCheck) {
+    const deepCheckedCount = _.filter(service.configraphEntity.configNodes, (n) => n.isAsyncValidated).length;
+    ctx.log(kleur.gray(`🔬 Ran async validations for ${deepCheckedCount} item(s)\n`));
+  }
+  checkForConfigErrors(service, { showAll: opts?.showAll, strict: opts.strict });
+
+  let exposedConfig = service.config;
+  if (opts.public) {
+    exposedConfig = _.pickBy(exposedConfig, (c) => !c.isSensitive);
+  }
 
   // console.log(service.config);
   if (opts.format === 'json') {
-    let exposedConfig = service.config;
-    if (opts.public) {
-      exposedConfig = _.pickBy(exposedConfig, (c) => !c.type.getMetadata('sensitive'));
-    }
     const valuesOnly = _.mapValues(exposedConfig, (val) => val.resolvedValue);
 
     console.log(JSON.stringify(valuesOnly));
+  } else if (opts.format === 'yaml') {
+    const valuesOnly = _.mapValues(exposedConfig, (val) => val.resolvedValue);
+    console.log(YAML.stringify(valuesOnly).trimEnd());
+  } else if (opts.format === 'dotenv' || opts.format === 'shell' || opts.format === 'k8s') {
+    let envEntries = flattenConfigForEnv(exposedConfig);
+    // nested children may be sensitive even if the parent is not
+    if (opts.public) envEntries = envEntries.filter((e) => !e.isSensitive);
+
+    if (opts.format === 'dotenv') {
+      console.log(formatAsDotEnv(envEntries));
+    } else if (opts.format === 'shell') {
+      console.log(formatAsShellExports(envEntries));
+    } else {
+      console.log(formatAsK8sManifests(envEntries, {
+        // k8s names must be lowercase alphanumeric + dashes
+        name: opts.k8sName || _.kebabCase(service.serviceName),
+        namespace: opts.k8sNamespace,
+      }));
+    }
   } else if (opts.format === 'json-full') {
     // TODO: this includes sensitive info when using --public option
     console.dir(service.toJSON(), { depth: null });
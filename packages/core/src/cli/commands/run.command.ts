@@ -18,6 +18,7 @@ const program = new DmnoCommand('run')
   .description('Runs a command with the resolved config for a service')
   .usage('[options] -- [command to pass config to]')
   .argument('external command')
+  .option('--strict', 'treat warnings as errors')
   .example('dmno run --service service1 -- printenv $SOME_ITEM', 'Runs the echo command with the resolved config for service1')
   .example('dmno run —-service service1 -- somecommand --some-option=(printenv SOME_VAR)', 'Runs the somecommand with the resolved config using SOME_VAR via printenv');
 
@@ -31,6 +32,7 @@ let childCommandKilledFromRestart = false;
 
 program.action(async (_command, opts: {
   service: string,
+  strict?: boolean,
 }, more) => {
   const commandToRunAsArgs = more.args;
   const commandToRunStr = more.args.join(' ');
@@ -58,9 +60,9 @@ program.action(async (_command, opts: {
   // TODO: not quite right
   const workspace = ctx.workspace!;
   const service = ctx.selectedService;
-  checkForSchemaErrors(workspace);
+  checkForSchemaErrors(workspace, { strict: opts.strict });
   await workspace.resolveConfig();
-  checkForConfigErrors(service);
+  checkForConfigErrors(service, { strict: opts.strict });
 
   const serviceEnv = service.getEnv();
 
@@ -1,12 +1,24 @@
 import kleur from 'kleur';
 import _ from 'lodash-es';
+import { ConfigraphError } from '@dmno/configraph';
 import { DmnoService, DmnoWorkspace } from '../../config-engine/config-engine';
+import { DmnoConfigraphNode } from '../../config-engine/configraph-adapter';
 import { CliExitError } from './cli-error';
 import {
-  formatError, formattedValue, getItemSummary, joinAndCompact,
+  formatError, formattedValue, formatWarning, getItemSummary, joinAndCompact,
 } from './formatting';
 
-export function checkForSchemaErrors(workspace: DmnoWorkspace) {
+export type CheckErrorsOptions = {
+  /** treat warnings as errors */
+  strict?: boolean,
+};
+
+function failIfStrict(opts: CheckErrorsOptions | undefined, warningCount: number) {
+  if (!opts?.strict || !warningCount) return;
+  throw new CliExitError(`Found ${warningCount} warning(s) - warnings are treated as errors in \`--strict\` mode`);
+}
+
+export function checkForSchemaErrors(workspace: DmnoWorkspace, opts?: CheckErrorsOptions) {
   // first display loading errors (which would likely cascade into schema errors)
   if (_.some(_.values(workspace.allServices), (s) => s.configLoadError)) {
     console.log(`\n🚨 🚨 🚨  ${kleur.bold().underline('We were unable to load all of your config')}  🚨 🚨 🚨\n`);
@@ -26,6 +38,16 @@ export function checkForSchemaErrors(workspace: DmnoWorkspace) {
     throw new CliExitError('Unable to load all config files');
   }
 
+  // errors not related to a specific service or plugin - ex: duplicate ids
+  const graphSchemaErrors = _.reject(workspace.configraph.schemaErrors, (err) => err.isWarning);
+  if (graphSchemaErrors.length) {
+    console.log(`\n🚨 🚨 🚨  ${kleur.bold().underline('Your config schema is invalid')}  🚨 🚨 🚨\n`);
+    _.each(graphSchemaErrors, (err) => {
+      console.log(formatError(err));
+    });
+    throw new CliExitError('Config schema errors');
+  }
+
   // now show plugin errors - which would also likely cause further errors
   if (_.some(_.values(workspace.plugins), (p) => !p.isValid)) {
     console.log(`\n🚨 🚨 🚨  ${kleur.bold().underline('Your plugins were unable to initialize correctly')}  🚨 🚨 🚨\n`);
@@ -44,11 +66,11 @@ export function checkForSchemaErrors(workspace: DmnoWorkspace) {
 
         console.log(`\n${kleur.underline('Input value')}: ${formattedValue(item.resolvedValue, false)}`);
 
-        const errors = _.compact([
-          item.coercionError,
+        const errors = _.reject([
+          ..._.compact([item.coercionError]),
           ...item.validationErrors || [],
-          item.schemaError,
-        ]);
+          ...item.schemaErrors,
+        ], (err) => err.isWarning);
         console.log(`\n${kleur.underline('Error(s)')}:`);
         console.log(errors?.map((err) => `- ${err.message}`).join('\n'));
         console.log('');
@@ -60,7 +82,7 @@ export function checkForSchemaErrors(workspace: DmnoWorkspace) {
 
   // now show schema errors
   const servicesWithSchemaErrors = _.values(workspace.allServices).filter(
-    (s) => s.schemaErrors?.length || _.some(_.values(s.config), (i) => !i.isSchemaValid),
+    (s) => _.some(s.schemaErrors, (err) => !err.isWarning) || _.some(_.values(s.config), (i) => !i.isSchemaValid),
   );
   if (servicesWithSchemaErrors.length) {
     console.log(`\n🚨 🚨 🚨  ${kleur.bold().underline('Your config schema is invalid')}  🚨 🚨 🚨\n`);
@@ -70,22 +92,44 @@ export function checkForSchemaErrors(workspace: DmnoWorkspace) {
     _.each(servicesWithSchemaErrors, (service) => {
       console.log(`Service: ${kleur.green(service.serviceName)}`);
       _.each(service.schemaErrors, (err) => {
-        console.log(formatError(err));
+        if (!err.isWarning) console.log(formatError(err));
       });
       const invalidSchemaItems = _.values(service.config).filter((i) => !i.isSchemaValid);
       _.each(invalidSchemaItems, (item) => {
         console.log(`> ${item.key}`);
-        console.log(item.schemaErrors.map(formatError).join('\n'));
+        console.log(_.reject(item.schemaErrors, (err) => err.isWarning).map(formatError).join('\n'));
       });
     });
     throw new CliExitError('Config schema errors');
   }
+
+  // service and plugin level warnings - item warnings are shown along with the rest of the item's details
+  const warningsByLabel: Record<string, Array<ConfigraphError>> = {};
+  _.each(workspace.allServices, (service) => {
+    if (service.warnings.length) warningsByLabel[`Service: ${kleur.green(service.serviceName)}`] = service.warnings;
+  });
+  _.each(workspace.plugins, (plugin) => {
+    if (plugin.warnings?.length) warningsByLabel[`Plugin: ${kleur.green(plugin.instanceId)}`] = plugin.warnings;
+  });
+  if (!_.isEmpty(warningsByLabel)) {
+    // warnings are written to stderr, so they do not interfere with commands that output config (ex: `--format json`)
+    console.warn(`\n⚠️  ${kleur.bold().underline('Your config schema has warnings')}\n`);
+    _.each(warningsByLabel, (warnings, label) => {
+      console.warn(label);
+      _.each(warnings, (warning) => console.warn(`  ${formatWarning(warning.toJSON())}`));
+    });
+    console.warn();
+  }
+  failIfStrict(opts, _.sumBy(_.values(warningsByLabel), (w) => w.length));
 }
 
-export function checkForConfigErrors(service: DmnoService, opts?: {
-  showAll?: boolean
+export function checkForConfigErrors(service: DmnoService, opts?: CheckErrorsOptions & {
+  showAll?: boolean,
+  /** only check these specific items, rather than the entire service */
+  items?: Array<DmnoConfigraphNode>,
 }) {
-  const failingItems = _.filter(service.config, (item) => !item.isValid);
+  const itemsToCheck = opts?.items || _.values(service.config);
+  const failingItems = _.filter(itemsToCheck, (item) => !item.isValid);
 
   // TODO: make isValid flag on service to work
   if (failingItems.length > 0) {
@@ -103,7 +147,7 @@ export function checkForConfigErrors(service: DmnoService, opts?: {
         kleur.italic().gray('(remove `--show-all` flag to hide)'),
       ]));
       console.log();
-      const validItems = _.filter(service.config, (i) => !!i.isValid);
+      const validItems = _.filter(itemsToCheck, (i) => !!i.isValid);
       _.each(validItems, (item) => {
         console.log(getItemSummary(item.toJSON()));
       });
@@ -111,4 +155,16 @@ export function checkForConfigErrors(service: DmnoService, opts?: {
 
     throw new CliExitError('Resolved config did not pass validation');
   }
+
+  const itemsWithWarnings = _.filter(itemsToCheck, (item) => item.warnings.length > 0);
+  if (itemsWithWarnings.length) {
+    // written to stderr, like the schema warnings above
+    console.warn(`\n⚠️  ${kleur.bold().underline(`Configuration of service "${kleur.magenta(service.serviceName)}" has warnings`)}\n`);
+    _.each(itemsWithWarnings, (item) => {
+      console.warn(`> ${item.key}`);
+      _.each(item.warnings, (warning) => console.warn(`  ${formatWarning(warning.toJSON())}`));
+    });
+    console.warn();
+  }
+  failIfStrict(opts, _.sumBy(itemsWithWarnings, (item) => item.warnings.length));
 }
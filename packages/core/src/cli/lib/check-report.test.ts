@@ -0,0 +1,125 @@
+import { expect, test, describe } from 'vitest';
+import { outdent } from 'outdent';
+import {
+  CheckServiceResult,
+  findItemLocation, formatCheckResultsAsJSON, formatCheckResultsAsJUnit, formatCheckResultsAsSarif,
+} from './check-report';
+
+const configFile = outdent`
+  import { defineDmnoService } from 'dmno';
+
+  export default defineDmnoService({
+    schema: {
+      PORT: { extends: 'number' },
+      DB: {
+        extends: DmnoBaseTypes.object({
+          'host': {},
+          PORT: {},
+        }),
+      },
+    },
+  });
+`;
+
+const results: Array<CheckServiceResult> = [
+  {
+    serviceName: 'api',
+    configFilePath: '/repo/api/.dmno/config.mts',
+    itemPaths: ['PORT', 'DB', 'DB.host'],
+    issues: [{
+      serviceName: 'api',
+      itemPath: 'PORT',
+      error: {
+        icon: '❌',
+        type: 'ValidationError',
+        name: 'ValidationError',
+        message: 'Value must be <= 65535',
+        isUnexpected: false,
+        location: { file: '/repo/api/.dmno/config.mts', line: 5, column: 5 },
+      },
+    }],
+  },
+  {
+    serviceName: 'web',
+    configFilePath: '/repo/web/.dmno/config.mts',
+    itemPaths: ['URL'],
+    issues: [],
+  },
+];
+
+describe('check report', () => {
+  describe('findItemLocation', () => {
+    test('finds top level items', () => {
+      expect(findItemLocation('config.mts', configFile, 'PORT')).toEqual({ file: 'config.mts', line: 5, column: 5 });
+    });
+    test('finds nested items, searching after the parent', () => {
+      expect(findItemLocation('config.mts', configFile, 'DB.PORT')).toEqual({ file: 'config.mts', line: 9, column: 9 });
+      expect(findItemLocation('config.mts', configFile, 'DB.host')).toEqual({ file: 'config.mts', line: 8, column: 9 });
+    });
+    test('falls back to the closest parent', () => {
+      expect(findItemLocation('config.mts', configFile, 'DB[0]')).toEqual({ file: 'config.mts', line: 6, column: 5 });
+      expect(findItemLocation('config.mts', configFile, 'NOPE')).toEqual({ file: 'config.mts' });
+    });
+  });
+
+  test('json', () => {
+    const report = JSON.parse(formatCheckResultsAsJSON(results));
+    expect(report.isValid).toBe(false);
+    expect(report.issueCount).toBe(1);
+    expect(report.services[1]).toEqual({ serviceName: 'web', isValid: true, issues: [] });
+  });
+
+  test('junit', () => {
+    const xml = formatCheckResultsAsJUnit(results);
+    expect(xml).toContain('<testsuites name="dmno check" tests="4" failures="1">');
+    expect(xml).toContain('<testsuite name="api" tests="3" failures="1">');
+    expect(xml).toContain('<failure message="Value must be &lt;= 65535" type="ValidationError">');
+    expect(xml).toContain('<testcase classname="web" name="URL" />');
+  });
+
+  test('sarif', () => {
+    const sarif = JSON.parse(formatCheckResultsAsSarif(results, '/repo'));
+    expect(sarif.version).toBe('2.1.0');
+    expect(sarif.runs[0].tool.driver.rules).toEqual([{ id: 'ValidationError', name: 'ValidationError' }]);
+    expect(sarif.runs[0].results[0].locations[0].physicalLocation).toEqual({
+      artifactLocation: { uri: 'api/.dmno/config.mts' },
+      region: { startLine: 5, startColumn: 5 },
+    });
+  });
+
+  describe('warnings', () => {
+    const resultsWithWarning: Array<CheckServiceResult> = [{
+      ...results[1],
+      issues: [{
+        serviceName: 'web',
+        itemPath: 'URL',
+        error: {
+          icon: '❌',
+          type: 'ValidationError',
+          name: 'ValidationError',
+          message: 'Using localhost',
+          isUnexpected: false,
+          severity: 'warning',
+          code: 'LOCALHOST',
+        },
+      }],
+    }];
+
+    test('warnings do not make the report invalid', () => {
+      const report = JSON.parse(formatCheckResultsAsJSON(resultsWithWarning));
+      expect(report.isValid).toBe(true);
+      expect(report.issueCount).toBe(1);
+      expect(report.warningCount).toBe(1);
+    });
+
+    test('warnings are not junit failures', () => {
+      const xml = formatCheckResultsAsJUnit(resultsWithWarning);
+      expect(xml).toContain('<testsuites name="dmno check" tests="1" failures="0">');
+    });
+
+    test('warnings use the sarif warning level', () => {
+      const sarif = JSON.parse(formatCheckResultsAsSarif(resultsWithWarning, '/repo'));
+      expect(sarif.runs[0].results[0].level).toBe('warning');
+    });
+  });
+});
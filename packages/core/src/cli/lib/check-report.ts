@@ -0,0 +1,273 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import _ from 'lodash-es';
+import {
+  ConfigraphError, ConfigraphNode, ErrorLocation, InvalidChildError, splitNodePath,
+} from '@dmno/configraph';
+import { DmnoService, DmnoWorkspace } from '../../config-engine/config-engine';
+import { SerializedDmnoError } from '../../config-loader/serialization-types';
+
+export type CheckIssue = {
+  serviceName: string,
+  /** path of the config item (or plugin input) the error relates to, if applicable */
+  itemPath?: string,
+  /** set if the error relates to a plugin owned by the service */
+  pluginInstanceId?: string,
+  error: SerializedDmnoError,
+};
+
+export type CheckServiceResult = {
+  serviceName: string,
+  configFilePath: string,
+  /** all item paths that were checked, used to report passing items */
+  itemPaths: Array<string>,
+  issues: Array<CheckIssue>,
+};
+
+/** warnings are reported, but do not fail the check (unless in strict mode) */
+export function isWarningIssue(issue: CheckIssue) {
+  return issue.error.severity === 'warning';
+}
+
+function getServiceConfigFilePath(service: DmnoService) {
+  return path.join(service.dmnoFolderPath, 'config.mts');
+}
+
+/**
+ * finds where an item is defined in a config file
+ * this is a naive text search for each part of the path used as an object key
+ * but is good enough to point CI annotations at the right place
+ */
+export function findItemLocation(
+  filePath: string,
+  fileContents: string | undefined,
+  itemPath: string,
+): ErrorLocation {
+  if (!fileContents) return { file: filePath };
+  const lines = fileContents.split('\n');
+  let location: ErrorLocation = { file: filePath };
+  let searchFromLine = 0;
+  for (const pathPart of splitNodePath(itemPath)) {
+    const keyRegex = new RegExp(`^(\\s*)['"]?${_.escapeRegExp(pathPart)}['"]?\\s*:`);
+    const lineIndex = _.findIndex(lines, (l) => keyRegex.test(l), searchFromLine);
+    // array items (and anything else we cant find) will point to the closest parent we found
+    if (lineIndex === -1) break;
+    const indent = lines[lineIndex].match(keyRegex)![1];
+    location = { file: filePath, line: lineIndex + 1, column: indent.length + 1 };
+    searchFromLine = lineIndex + 1;
+  }
+  return location;
+}
+
+/** finds the location within the config file from an error stack, if present */
+function findStackLocation(filePath: string, err?: Error): ErrorLocation {
+  const stackMatch = err?.stack?.match(new RegExp(`${_.escapeRegExp(filePath)}:(\\d+):(\\d+)`));
+  if (!stackMatch) return { file: filePath };
+  return { file: filePath, line: parseInt(stackMatch[1]), column: parseInt(stackMatch[2]) };
+}
+
+const isWarning = (err: ConfigraphError) => err.isWarning;
+
+/** collects all load/schema/resolution errors (and warnings) for the selected services */
+export function collectCheckResults(
+  workspace: DmnoWorkspace,
+  services: Array<DmnoService> = workspace.allServices,
+) {
+  return services.map((service) => {
+    const configFilePath = getServiceConfigFilePath(service);
+    const fileContents = fs.existsSync(configFilePath) ? fs.readFileSync(configFilePath, 'utf-8') : undefined;
+
+    const result: CheckServiceResult = {
+      serviceName: service.serviceName,
+      configFilePath,
+      itemPaths: [],
+      issues: [],
+    };
+
+    // errors can be shared between nodes (ex: children failing because the parent did) so we only report each once
+    const seenErrors = new Set<ConfigraphError>();
+    function addIssue(err: ConfigraphError, fallbackLocation: ErrorLocation, more?: {
+      itemPath?: string,
+      pluginInstanceId?: string,
+    }) {
+      if (seenErrors.has(err)) return;
+      seenErrors.add(err);
+      result.issues.push({
+        serviceName: service.serviceName,
+        ...more,
+        error: {
+          ...err.toJSON(),
+          location: err.location || fallbackLocation,
+        },
+      });
+    }
+
+    function addNodeIssues(node: ConfigraphNode, itemPath: string, pluginInstanceId?: string) {
+      if (!pluginInstanceId) result.itemPaths.push(itemPath);
+      const location = pluginInstanceId
+        ? { file: configFilePath }
+        : findItemLocation(configFilePath, fileContents, itemPath);
+      const nodeErrors = _.compact([
+        ..._.reject(node.schemaErrors, isWarning),
+        node.resolutionError,
+        node.coercionError,
+        // invalid children are reported individually
+        ..._.reject(node.validationErrors, (err) => err.isWarning || err instanceof InvalidChildError),
+        // warnings are collected separately, so that suppressed warnings are not included
+        ...node.warnings,
+      ]);
+      _.each(nodeErrors, (err) => addIssue(err, location, { itemPath, pluginInstanceId }));
+      _.each(node.children, (childNode) => addNodeIssues(childNode, childNode.path, pluginInstanceId));
+    }
+
+    if (service.configLoadError) {
+      addIssue(
+        service.configLoadError,
+        findStackLocation(configFilePath, service.configLoadError.originalError),
+      );
+      return result;
+    }
+
+    // graph-level errors (ex: duplicate ids) are not tied to a specific service, so we report them on the root
+    const graphSchemaErrors = service === workspace.rootService ? workspace.configraph.schemaErrors : [];
+    _.each([...graphSchemaErrors, ..._.reject(service.schemaErrors, isWarning), ...service.warnings], (err) => {
+      addIssue(err, { file: configFilePath });
+    });
+
+    _.each(workspace.plugins, (plugin) => {
+      if (plugin.parentEntityId !== service.serviceName) return;
+      _.each([..._.reject(plugin.schemaErrors, isWarning), ...plugin.warnings || []], (err) => {
+        addIssue(err, { file: configFilePath }, { pluginInstanceId: plugin.instanceId });
+      });
+      _.each(plugin.inputNodes, (node, key) => addNodeIssues(node, key, plugin.instanceId));
+    });
+
+    _.each(service.config, (node, key) => addNodeIssues(node, key));
+
+    return result;
+  });
+}
+
+
+// Machine readable output formats -----------------------------------------------
+
+export function formatCheckResultsAsJSON(results: Array<CheckServiceResult>) {
+  const issues = results.flatMap((r) => r.issues);
+  return JSON.stringify({
+    isValid: !_.some(issues, (i) => !isWarningIssue(i)),
+    issueCount: issues.length,
+    warningCount: _.filter(issues, isWarningIssue).length,
+    services: results.map((r) => ({
+      serviceName: r.serviceName,
+      isValid: !_.some(r.issues, (i) => !isWarningIssue(i)),
+      issues: r.issues,
+    })),
+  }, null, 2);
+}
+
+function escapeXml(str: string) {
+  return str
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+    .replaceAll("'", '&apos;');
+}
+
+function formatLocation(loc?: ErrorLocation) {
+  if (!loc?.file) return undefined;
+  return _.compact([loc.file, loc.line, loc.column]).join(':');
+}
+
+function getIssueLabel(issue: CheckIssue) {
+  if (issue.pluginInstanceId) {
+    return _.compact([`plugin ${issue.pluginInstanceId}`, issue.itemPath]).join(' > ');
+  }
+  return issue.itemPath || '(service)';
+}
+
+/** JUnit XML - one test suite per service, one test case per item (warnings are not included) */
+export function formatCheckResultsAsJUnit(results: Array<CheckServiceResult>) {
+  const suites = results.map((r) => {
+    const issuesByLabel = _.groupBy(_.reject(r.issues, isWarningIssue), getIssueLabel);
+    // make sure we have a test case for every item, even if it is passing
+    const testCaseLabels = _.uniq([..._.keys(issuesByLabel), ...r.itemPaths]);
+    const testCases = testCaseLabels.map((label) => {
+      const failures = (issuesByLabel[label] || []).map((issue) => {
+        const body = _.compact([
+          issue.error.message,
+          issue.error.tip,
+          formatLocation(issue.error.location),
+        ]).join('\n');
+        return `      <failure message="${escapeXml(issue.error.message)}" type="${escapeXml(issue.error.type)}">${escapeXml(body)}</failure>`;
+      });
+      const openTag = `    <testcase classname="${escapeXml(r.serviceName)}" name="${escapeXml(label)}"`;
+      if (!failures.length) return `${openTag} />`;
+      return [`${openTag}>`, ...failures, '    </testcase>'].join('\n');
+    });
+    const failureCount = _.size(issuesByLabel);
+    return [
+      `  <testsuite name="${escapeXml(r.serviceName)}" tests="${testCases.length}" failures="${failureCount}">`,
+      ...testCases,
+      '  </testsuite>',
+    ].join('\n');
+  });
+  const totalTests = _.sumBy(results, (r) => {
+    return _.uniq([...r.itemPaths, ..._.reject(r.issues, isWarningIssue).map(getIssueLabel)]).length;
+  });
+  const totalFailures = _.sumBy(results, (r) => _.size(_.groupBy(_.reject(r.issues, isWarningIssue), getIssueLabel)));
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="dmno check" tests="${totalTests}" failures="${totalFailures}">`,
+    ...suites,
+    '</testsuites>',
+  ].join('\n');
+}
+
+/**
+ * SARIF v2.1.0 - supported by GitHub code scanning and other tools to annotate PRs
+ * file paths are made relative to `rootPath` (usually the workspace root)
+ */
+export function formatCheckResultsAsSarif(results: Array<CheckServiceResult>, rootPath: string) {
+  const issues = results.flatMap((r) => r.issues);
+  const ruleIds = _.uniq(issues.map((i) => i.error.type));
+  return JSON.stringify({
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'dmno',
+          informationUri: 'https://dmno.dev',
+          rules: ruleIds.map((id) => ({ id, name: id })),
+        },
+      },
+      results: issues.map((issue) => {
+        const loc = issue.error.location;
+        return {
+          ruleId: issue.error.type,
+          level: isWarningIssue(issue) ? 'warning' : 'error',
+          message: {
+            text: _.compact([
+              `[${issue.serviceName}] ${getIssueLabel(issue)}: ${issue.error.message}`,
+              issue.error.tip,
+            ]).join('\n'),
+          },
+          ...loc?.file && {
+            locations: [{
+              physicalLocation: {
+                artifactLocation: { uri: path.relative(rootPath, loc.file).split(path.sep).join('/') },
+                ...loc.line && {
+                  region: {
+                    startLine: loc.line,
+                    ...loc.column && { startColumn: loc.column },
+                  },
+                },
+              },
+            }],
+          },
+        };
+      }),
+    }],
+  }, null, 2);
+}
@@ -0,0 +1,47 @@
+import { expect, test, describe } from 'vitest';
+import {
+  ConfigSnapshot, diffConfigSnapshots, getRedactedConfigDiff,
+} from './config-diff';
+
+const before: ConfigSnapshot = {
+  SAME: { value: 'a', isSensitive: false, isValid: true },
+  CHANGED: { value: 'a', isSensitive: false, isValid: true },
+  REMOVED: { value: 1, isSensitive: false, isValid: true },
+  'DB.password': { value: 'old-secret', isSensitive: true, isValid: true },
+  ARR: { value: ['a', 'b'], isSensitive: false, isValid: true },
+};
+const after: ConfigSnapshot = {
+  SAME: { value: 'a', isSensitive: false, isValid: true },
+  CHANGED: { value: 'b', isSensitive: false, isValid: true },
+  ADDED: { value: true, isSensitive: false, isValid: true },
+  'DB.password': { value: 'new-secret', isSensitive: true, isValid: true },
+  ARR: { value: ['a', 'b'], isSensitive: false, isValid: true },
+};
+
+describe('config diff', () => {
+  test('detects added, removed, and changed items', () => {
+    const diff = diffConfigSnapshots(before, after);
+    expect(diff.map((d) => [d.path, d.change])).toEqual([
+      ['CHANGED', 'changed'],
+      ['REMOVED', 'removed'],
+      ['DB.password', 'changed'],
+      ['ADDED', 'added'],
+    ]);
+  });
+
+  test('validity changes are treated as a change', () => {
+    const diff = diffConfigSnapshots(
+      { A: { value: 'x', isSensitive: false, isValid: true } },
+      { A: { value: 'x', isSensitive: false, isValid: false } },
+    );
+    expect(diff).toHaveLength(1);
+  });
+
+  test('sensitive values are redacted', () => {
+    const redacted = getRedactedConfigDiff(diffConfigSnapshots(before, after));
+    const passwordChange = redacted.find((d) => d.path === 'DB.password')!;
+    expect(passwordChange.before).toEqual('ol▒▒▒▒▒▒▒▒');
+    expect(passwordChange.after).toEqual('ne▒▒▒▒▒▒▒▒');
+    expect(redacted.find((d) => d.path === 'CHANGED')!.after).toEqual('b');
+  });
+});
@@ -0,0 +1,104 @@
+import _ from 'lodash-es';
+import kleur from 'kleur';
+import { DmnoService } from '../../config-engine/config-engine';
+import { DmnoConfigraphNode } from '../../config-engine/configraph-adapter';
+import { redactString } from '../../lib/redaction-helpers';
+
+export type ConfigSnapshotItem = {
+  value: any,
+  isSensitive: boolean,
+  isValid: boolean,
+};
+/** flattened resolved config, keyed by item path */
+export type ConfigSnapshot = Record<string, ConfigSnapshotItem>;
+
+function addNodeToSnapshot(snapshot: ConfigSnapshot, node: DmnoConfigraphNode, parentIsSensitive = false) {
+  const isSensitive = parentIsSensitive || node.isSensitive;
+  // objects with a schema are compared using their children, so we can pinpoint what changed
+  if (_.isPlainObject(node.resolvedValue) && !_.isEmpty(node.children)) {
+    _.each(node.children, (childNode) => addNodeToSnapshot(snapshot, childNode, isSensitive));
+    return;
+  }
+  snapshot[node.path] = {
+    value: node.resolvedValue,
+    isSensitive,
+    isValid: !!node.isValid,
+  };
+}
+
+export function getServiceConfigSnapshot(service: DmnoService) {
+  const snapshot: ConfigSnapshot = {};
+  _.each(service.config, (node) => addNodeToSnapshot(snapshot, node));
+  return snapshot;
+}
+
+export type ConfigDiffEntry = {
+  path: string,
+  change: 'added' | 'removed' | 'changed',
+  isSensitive: boolean,
+  before?: ConfigSnapshotItem,
+  after?: ConfigSnapshotItem,
+};
+
+export function diffConfigSnapshots(before: ConfigSnapshot, after: ConfigSnapshot) {
+  const diff: Array<ConfigDiffEntry> = [];
+  const allPaths = _.uniq([..._.keys(before), ..._.keys(after)]);
+  for (const path of allPaths) {
+    const beforeItem = before[path];
+    const afterItem = after[path];
+    const isSensitive = !!(beforeItem?.isSensitive || afterItem?.isSensitive);
+    if (!beforeItem) {
+      diff.push({
+        path, change: 'added', isSensitive, after: afterItem,
+      });
+    } else if (!afterItem) {
+      diff.push({
+        path, change: 'removed', isSensitive, before: beforeItem,
+      });
+    } else if (!_.isEqual(beforeItem.value, afterItem.value) || beforeItem.isValid !== afterItem.isValid) {
+      diff.push({
+        path, change: 'changed', isSensitive, before: beforeItem, after: afterItem,
+      });
+    }
+  }
+  return diff;
+}
+
+/** stringifies a value for display, redacting it if sensitive */
+export function getDiffDisplayValue(val: any, isSensitive: boolean) {
+  if (val === undefined) return 'undefined';
+  const strVal = _.isString(val) ? val : JSON.stringify(val);
+  return isSensitive ? redactString(strVal) : strVal;
+}
+
+/** JSON friendly version of the diff, with sensitive values redacted */
+export function getRedactedConfigDiff(diff: Array<ConfigDiffEntry>) {
+  return diff.map((entry) => ({
+    path: entry.path,
+    change: entry.change,
+    isSensitive: entry.isSensitive,
+    ...entry.before && {
+      before: entry.isSensitive ? getDiffDisplayValue(entry.before.value, true) : entry.before.value,
+    },
+    ...entry.after && {
+      after: entry.isSensitive ? getDiffDisplayValue(entry.after.value, true) : entry.after.value,
+    },
+  }));
+}
+
+export function formatConfigDiff(diff: Array<ConfigDiffEntry>) {
+  return diff.map((entry) => {
+    const lockIcon = entry.isSensitive ? ' 🔐' : '';
+    const invalidNote = entry.after && !entry.after.isValid ? kleur.red(' (invalid)') : '';
+    if (entry.change === 'added') {
+      return kleur.green(`+ ${entry.path}${lockIcon}: ${getDiffDisplayValue(entry.after!.value, entry.isSensitive)}`) + invalidNote;
+    } else if (entry.change === 'removed') {
+      return kleur.red(`- ${entry.path}${lockIcon}: ${getDiffDisplayValue(entry.before!.value, entry.isSensitive)}`);
+    }
+    return [
+      kleur.yellow(`~ ${entry.path}${lockIcon}`) + invalidNote,
+      kleur.red(`    - ${getDiffDisplayValue(entry.before!.value, entry.isSensitive)}`),
+      kleur.green(`    + ${getDiffDisplayValue(entry.after!.value, entry.isSensitive)}`),
+    ].join('\n');
+  }).join('\n');
+}
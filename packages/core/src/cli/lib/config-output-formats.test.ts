@@ -0,0 +1,76 @@
+import { execSync } from 'node:child_process';
+import { expect, test, describe } from 'vitest';
+import { loadDotEnvIntoObject } from '../../lib/dotenv-utils';
+import {
+  formatAsDotEnv, formatAsK8sManifests, formatAsShellExports, shellQuote,
+} from './config-output-formats';
+
+const entries = [
+  { key: 'PLAIN', value: 'foo', isSensitive: false },
+  { key: 'WITH_SINGLE_QUOTE', value: "it's", isSensitive: false },
+  { key: 'WITH_BOTH_QUOTES', value: 'it\'s "quoted"', isSensitive: false },
+  { key: 'WITH_ALL_QUOTES', value: 'it\'s "quoted" `cmd`\nline2', isSensitive: false },
+  { key: 'MULTILINE', value: 'line1\nline2', isSensitive: false },
+  { key: 'DB__PASSWORD', value: 'secret$`!', isSensitive: true },
+];
+
+describe('config output formats', () => {
+  test('dotenv output round-trips through our dotenv parser', () => {
+    const dotEnvStr = formatAsDotEnv(entries);
+    expect(loadDotEnvIntoObject(dotEnvStr)).toEqual({
+      PLAIN: 'foo',
+      WITH_SINGLE_QUOTE: "it's",
+      WITH_BOTH_QUOTES: 'it\'s "quoted"',
+      WITH_ALL_QUOTES: 'it\'s "quoted" `cmd`\nline2',
+      MULTILINE: 'line1\nline2',
+      DB__PASSWORD: 'secret$`!',
+    });
+  });
+
+  test('shell quoting is safe to eval', () => {
+    const val = 'it\'s $HOME `whoami` "quoted"';
+    const output = execSync(`printf %s ${shellQuote(val)}`, { shell: '/bin/sh' }).toString();
+    expect(output).toEqual(val);
+  });
+
+  test('shell exports', () => {
+    expect(formatAsShellExports(entries.slice(0, 2))).toEqual([
+      "export PLAIN='foo'",
+      "export WITH_SINGLE_QUOTE='it'\\''s'",
+    ].join('\n'));
+  });
+
+  test.each([
+    ['dotenv', formatAsDotEnv],
+    ['shell', formatAsShellExports],
+  ] as const)('%s output rejects keys which are not valid env var names', (_format, formatFn) => {
+    for (const key of ['DICT__a;touch x', 'DICT__$(cmd)', 'DICT__with-dash', '1_STARTS_WITH_NUMBER']) {
+      expect(() => formatFn([{ key, value: 'foo', isSensitive: false }]))
+        .toThrow('Config includes keys which are not valid env var names');
+    }
+    expect(formatFn([{ key: '_DICT__ok_Key1', value: 'foo', isSensitive: false }])).toContain('_DICT__ok_Key1=');
+  });
+
+  test('k8s manifests split sensitive items into a secret', () => {
+    const k8sEntries = entries.filter((e) => ['PLAIN', 'DB__PASSWORD'].includes(e.key));
+    const manifests = formatAsK8sManifests(k8sEntries, { name: 'my-api', namespace: 'prod' });
+    expect(manifests).toEqual([
+      'apiVersion: v1',
+      'kind: Secret',
+      'metadata:',
+      '  name: my-api',
+      '  namespace: prod',
+      'type: Opaque',
+      'stringData:',
+      '  DB__PASSWORD: secret$`!',
+      '---',
+      'apiVersion: v1',
+      'kind: ConfigMap',
+      'metadata:',
+      '  name: my-api',
+      '  namespace: prod',
+      'data:',
+      '  PLAIN: foo',
+    ].join('\n'));
+  });
+});
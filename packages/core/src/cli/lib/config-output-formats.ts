@@ -0,0 +1,141 @@
+import _ from 'lodash-es';
+import YAML from 'yaml';
+import { DmnoConfigraphNode } from '../../config-engine/configraph-adapter';
+import { CliExitError } from './cli-error';
+
+/** separator used to flatten nested objects - matches `getConfigFromEnvVars` so values round-trip */
+const ENV_NESTING_SEPARATOR = '__';
+
+export type FlattenedEnvEntry = {
+  key: string,
+  value: string,
+  isSensitive: boolean,
+};
+
+function stringifyEnvValue(val: any) {
+  if (_.isString(val)) return val;
+  // arrays (and anything else) are JSON stringified, which our array type can coerce back
+  if (_.isArray(val) || _.isObject(val)) return JSON.stringify(val);
+  return String(val);
+}
+
+function flattenObjectValue(
+  entries: Array<FlattenedEnvEntry>,
+  keyPrefix: string,
+  val: any,
+  isSensitive: boolean,
+) {
+  if (val === undefined || val === null) return;
+  if (_.isPlainObject(val)) {
+    _.each(val, (childVal, childKey) => {
+      flattenObjectValue(entries, `${keyPrefix}${ENV_NESTING_SEPARATOR}${childKey}`, childVal, isSensitive);
+    });
+  } else {
+    entries.push({ key: keyPrefix, value: stringifyEnvValue(val), isSensitive });
+  }
+}
+
+function flattenNode(
+  entries: Array<FlattenedEnvEntry>,
+  key: string,
+  node: DmnoConfigraphNode,
+  parentIsSensitive = false,
+) {
+  const isSensitive = parentIsSensitive || node.isSensitive;
+  const val = node.resolvedValue;
+  if (val === undefined || val === null) return;
+
+  // object nodes with a schema for their children can use the child nodes, so we know which are sensitive
+  if (_.isPlainObject(val) && !_.isEmpty(node.children)) {
+    _.each(node.children, (childNode, childKey) => {
+      flattenNode(entries, `${key}${ENV_NESTING_SEPARATOR}${childKey}`, childNode, isSensitive);
+    });
+  } else {
+    flattenObjectValue(entries, key, val, isSensitive);
+  }
+}
+
+/**
+ * flattens resolved config into env var style key/value pairs
+ * nested objects use "__" as the separator - ex: `DB__HOST`
+ */
+export function flattenConfigForEnv(nodes: Record<string, DmnoConfigraphNode>) {
+  const entries: Array<FlattenedEnvEntry> = [];
+  _.each(nodes, (node, key) => flattenNode(entries, key, node));
+  return entries;
+}
+
+
+/** quote a value so it is safe to use in a shell (ex: within `eval`) */
+export function shellQuote(val: string) {
+  return `'${val.replaceAll("'", "'\\''")}'`;
+}
+
+/** quote a value for a .env file, picking a quote style that will not need escaping */
+function dotEnvQuote(val: string) {
+  if (!val.includes("'")) return `'${val}'`;
+  if (!val.includes('"')) return `"${val.replaceAll('\n', '\\n').replaceAll('\r', '\\r')}"`;
+  if (!val.includes('`')) return `\`${val}\``;
+  // no great option left - so we escape the double quotes
+  return `"${val.replaceAll('"', '\\"').replaceAll('\n', '\\n').replaceAll('\r', '\\r')}"`;
+}
+
+const VALID_ENV_KEY_REGEX = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * keys are written without quoting, and object/dictionary keys can be anything
+ * so we must check them to avoid invalid output, or injecting commands when the output is passed to `eval`
+ */
+function checkEnvKeys(entries: Array<FlattenedEnvEntry>) {
+  const invalidKeys = entries.filter((e) => !VALID_ENV_KEY_REGEX.test(e.key)).map((e) => e.key);
+  if (!invalidKeys.length) return;
+  throw new CliExitError('Config includes keys which are not valid env var names', {
+    details: invalidKeys.map((key) => `- ${JSON.stringify(key)}`),
+    suggestion: 'Keys (including nested object and dictionary keys) may only use letters, numbers, and underscores, and must not start with a number',
+  });
+}
+
+export function formatAsDotEnv(entries: Array<FlattenedEnvEntry>) {
+  checkEnvKeys(entries);
+  return entries.map((e) => `${e.key}=${dotEnvQuote(e.value)}`).join('\n');
+}
+
+export function formatAsShellExports(entries: Array<FlattenedEnvEntry>) {
+  checkEnvKeys(entries);
+  return entries.map((e) => `export ${e.key}=${shellQuote(e.value)}`).join('\n');
+}
+
+
+/**
+ * generates Kubernetes manifests for the config
+ * sensitive items go in a `Secret` and everything else goes in a `ConfigMap`
+ */
+export function formatAsK8sManifests(entries: Array<FlattenedEnvEntry>, opts: {
+  name: string,
+  namespace?: string,
+}) {
+  const metadata = {
+    name: opts.name,
+    ...opts.namespace && { namespace: opts.namespace },
+  };
+  const manifests: Array<Record<string, any>> = [];
+  const [sensitiveEntries, publicEntries] = _.partition(entries, (e) => e.isSensitive);
+  if (sensitiveEntries.length) {
+    manifests.push({
+      apiVersion: 'v1',
+      kind: 'Secret',
+      metadata,
+      type: 'Opaque',
+      stringData: Object.fromEntries(sensitiveEntries.map((e) => [e.key, e.value])),
+    });
+  }
+  if (publicEntries.length) {
+    manifests.push({
+      apiVersion: 'v1',
+      kind: 'ConfigMap',
+      metadata,
+      data: Object.fromEntries(publicEntries.map((e) => [e.key, e.value])),
+    });
+  }
+  return manifests.map((m) => YAML.stringify(m)).join('---\n').trimEnd();
+}
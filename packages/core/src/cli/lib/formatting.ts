@@ -80,6 +80,15 @@ export function joinAndCompact(strings: Array<string | number | boolean | undefi
   )).join(joinChar);
 }
 
+export function formatWarning(warning: SerializedDmnoError) {
+  let warningStr = kleur.yellow(`⚠️ ${warning.message}`);
+  if (warning.code) warningStr += kleur.gray(` [${warning.code}]`);
+  if (warning.tip) {
+    warningStr += `\n${warning.tip.split('\n').map((line) => kleur.gray().italic(`     ${line}`)).join('\n')}`;
+  }
+  return warningStr;
+}
+
 export function getItemSummary(item: SerializedConfigItem) {
   const summary: Array<string> = [];
   const icon = item.coercionError?.icon || item.resolutionError?.icon || item?.validationErrors?.[0]?.icon || '✅';
@@ -91,7 +100,7 @@ export function getItemSummary(item: SerializedConfigItem) {
     kleur[item.isValid ? 'cyan' : 'red'](item.key) + (isRequired ? kleur.magenta('*') : ''),
 
     // kleur.gray(`[type = ${item.type.typeLabel}]`),
-    isSensitive && ` 🔐${kleur.italic().gray('sensitive')}`,
+    isSensitive && ` 🔐${kleur.italic().gray(item.sensitiveDependencyPaths ? 'sensitive (derived)' : 'sensitive')}`,
   ]));
 
   summary.push(joinAndCompact([
@@ -118,6 +127,10 @@ export function getItemSummary(item: SerializedConfigItem) {
     summary.push(`      ${overrideNote}`);
   }
 
+  item.warnings?.forEach((warning) => {
+    summary.push(`   ${formatWarning(warning)}`);
+  });
+
   const errors = _.compact([item.coercionError, item.resolutionError, ...item.validationErrors || []]);
   errors?.forEach((err) => {
     summary.push(kleur.red(`   - ${err.message}`));
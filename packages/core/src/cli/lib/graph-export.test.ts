@@ -0,0 +1,52 @@
+import { expect, test, describe } from 'vitest';
+import {
+  ExportedGraph, filterGraph, formatGraphAsDot, formatGraphAsMermaid,
+} from './graph-export';
+
+// root -> api -> web, and root -> other
+const graph: ExportedGraph = {
+  nodes: [
+    { id: 'root!A', label: 'A', group: 'root' },
+    { id: 'api!B', label: 'B', group: 'api' },
+    { id: 'web!C', label: 'C "quoted"', group: 'web' },
+    { id: 'other!D', label: 'D', group: 'other' },
+  ],
+  edges: [
+    { from: 'root!A', to: 'api!B', type: 'pick' },
+    { from: 'api!B', to: 'web!C', type: 'resolution' },
+    { from: 'root!A', to: 'other!D', type: 'schema' },
+  ],
+};
+
+describe('graph export', () => {
+  describe('filterGraph', () => {
+    test('ancestors', () => {
+      const filtered = filterGraph(graph, ['web!C'], 'ancestors');
+      expect(filtered.nodes.map((n) => n.id)).toEqual(['root!A', 'api!B', 'web!C']);
+      expect(filtered.edges).toHaveLength(2);
+    });
+    test('descendants', () => {
+      const filtered = filterGraph(graph, ['api!B'], 'descendants');
+      expect(filtered.nodes.map((n) => n.id)).toEqual(['api!B', 'web!C']);
+    });
+    test('both directions', () => {
+      const filtered = filterGraph(graph, ['api!B']);
+      expect(filtered.nodes.map((n) => n.id)).toEqual(['root!A', 'api!B', 'web!C']);
+    });
+  });
+
+  test('dot', () => {
+    const dot = formatGraphAsDot(graph);
+    expect(dot).toContain('subgraph "cluster_api" {');
+    expect(dot).toContain('"web!C" [label="C \\"quoted\\""];');
+    expect(dot).toContain('"api!B" -> "web!C" [label="resolution", style=dashed];');
+  });
+
+  test('mermaid', () => {
+    const mermaid = formatGraphAsMermaid(graph);
+    expect(mermaid).toContain('flowchart LR');
+    expect(mermaid).toContain('n2["C #quot;quoted#quot;"]');
+    expect(mermaid).toContain('n0 -->|pick| n1');
+    expect(mermaid).toContain('n1 -.->|resolution| n2');
+  });
+});
@@ -0,0 +1,125 @@
+import _ from 'lodash-es';
+import { DmnoWorkspace } from '../../config-engine/config-engine';
+
+export type GraphEdgeType = 'parent' | 'pick' | 'schema' | 'resolution';
+
+export type ExportedGraph = {
+  nodes: Array<{
+    id: string,
+    label: string,
+    /** used to cluster nodes together - ex: the service a config node belongs to */
+    group?: string,
+  }>,
+  edges: Array<{ from: string, to: string, type: GraphEdgeType }>,
+};
+
+/** graph of services, connected by parent and pick relationships */
+export function getServicesGraph(workspace: DmnoWorkspace): ExportedGraph {
+  return {
+    nodes: workspace.servicesDag.nodes().map((serviceName) => ({ id: serviceName, label: serviceName })),
+    edges: workspace.servicesDag.edges().map((e) => ({
+      from: e.v,
+      to: e.w,
+      type: workspace.servicesDag.edge(e)?.type,
+    })),
+  };
+}
+
+/**
+ * graph of individual config nodes, connected by their dependencies
+ * NOTE - resolution dependencies are only known after the config has been resolved
+ */
+export function getConfigNodesGraph(workspace: DmnoWorkspace): ExportedGraph {
+  const graph: ExportedGraph = { nodes: [], edges: [] };
+  _.each(workspace.configraph.nodesByFullPath, (node, fullPath) => {
+    graph.nodes.push({ id: fullPath, label: node.path, group: node.parentEntity?.id });
+    _.each(node.dependsOnPathsObj, (depType, depFullPath) => {
+      graph.edges.push({
+        from: depFullPath,
+        to: fullPath,
+        type: node.pickFromNode?.fullPath === depFullPath ? 'pick' : depType,
+      });
+    });
+  });
+  return graph;
+}
+
+/** filters a graph to only the ancestors and/or descendants of the starting node(s) */
+export function filterGraph(
+  graph: ExportedGraph,
+  startNodeIds: Array<string>,
+  direction: 'ancestors' | 'descendants' | 'both' = 'both',
+): ExportedGraph {
+  const includedIds = new Set(startNodeIds);
+  const walk = (nodeIds: Array<string>, getNextIds: (id: string) => Array<string>) => {
+    const queue = [...nodeIds];
+    const visited = new Set(nodeIds);
+    while (queue.length) {
+      for (const nextId of getNextIds(queue.shift()!)) {
+        if (visited.has(nextId)) continue;
+        visited.add(nextId);
+        includedIds.add(nextId);
+        queue.push(nextId);
+      }
+    }
+  };
+  if (direction !== 'descendants') {
+    walk(startNodeIds, (id) => graph.edges.filter((e) => e.to === id).map((e) => e.from));
+  }
+  if (direction !== 'ancestors') {
+    walk(startNodeIds, (id) => graph.edges.filter((e) => e.from === id).map((e) => e.to));
+  }
+  return {
+    nodes: graph.nodes.filter((n) => includedIds.has(n.id)),
+    edges: graph.edges.filter((e) => includedIds.has(e.from) && includedIds.has(e.to)),
+  };
+}
+
+
+function dotQuote(str: string) {
+  return `"${str.replaceAll('\\', '\\\\').replaceAll('"', '\\"')}"`;
+}
+
+/** Graphviz DOT format - render using `dot -Tsvg` */
+export function formatGraphAsDot(graph: ExportedGraph) {
+  const lines = ['digraph dmno {', '  rankdir=LR;', '  node [shape=box];'];
+  const nodesByGroup = _.groupBy(graph.nodes, (n) => n.group ?? '');
+  _.each(nodesByGroup, (groupNodes, group) => {
+    const indent = group ? '    ' : '  ';
+    if (group) lines.push(`  subgraph ${dotQuote(`cluster_${group}`)} {`, `    label=${dotQuote(group)};`);
+    _.each(groupNodes, (n) => lines.push(`${indent}${dotQuote(n.id)} [label=${dotQuote(n.label)}];`));
+    if (group) lines.push('  }');
+  });
+  _.each(graph.edges, (e) => {
+    const attrs = [`label=${dotQuote(e.type)}`, ...e.type === 'resolution' ? ['style=dashed'] : []];
+    lines.push(`  ${dotQuote(e.from)} -> ${dotQuote(e.to)} [${attrs.join(', ')}];`);
+  });
+  lines.push('}');
+  return lines.join('\n');
+}
+
+function mermaidLabel(str: string) {
+  return `"${str.replaceAll('"', '#quot;')}"`;
+}
+
+/** Mermaid flowchart - renders directly within markdown on GitHub and many docs sites */
+export function formatGraphAsMermaid(graph: ExportedGraph) {
+  // mermaid is picky about ids, so we generate simple ones
+  const mermaidIds = Object.fromEntries(graph.nodes.map((n, i) => [n.id, `n${i}`]));
+  const lines = ['flowchart LR'];
+  const nodesByGroup = _.groupBy(graph.nodes, (n) => n.group ?? '');
+  let groupIndex = 0;
+  _.each(nodesByGroup, (groupNodes, group) => {
+    const indent = group ? '    ' : '  ';
+    if (group) lines.push(`  subgraph g${groupIndex++} [${mermaidLabel(group)}]`);
+    _.each(groupNodes, (n) => lines.push(`${indent}${mermaidIds[n.id]}[${mermaidLabel(n.label)}]`));
+    if (group) lines.push('  end');
+  });
+  _.each(graph.edges, (e) => {
+    // edges pointing to nodes we dont know about are skipped
+    if (!mermaidIds[e.from] || !mermaidIds[e.to]) return;
+    const arrow = e.type === 'resolution' ? '-.->' : '-->';
+    lines.push(`  ${mermaidIds[e.from]} ${arrow}|${e.type}| ${mermaidIds[e.to]}`);
+  });
+  return lines.join('\n');
+}
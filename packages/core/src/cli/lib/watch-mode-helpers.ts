@@ -72,7 +72,10 @@ export function addWatchMode(program: Command) {
             console.error(err.getFormattedOutput());
 
             // unless error is marked as forcing an actual exit
-            if (err.forceExit) process.exit(1);
+            if (err.forceExit) {
+              await ctx.configLoader.waitForCacheRevalidations();
+              process.exit(1);
+            }
           } else {
             throw err;
           }
@@ -90,6 +93,7 @@ export function addWatchMode(program: Command) {
 
       // if the command supports watch mode but it is not enabled, we'll exit when the action is complete
       if (!thisCommand.opts().watch) {
+        await ctx.configLoader.waitForCacheRevalidations();
         process.exit(0);
 
       // otherwise we let the user know we are now waiting for changes to restart
@@ -0,0 +1,100 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  expect, test, describe, beforeAll, afterAll,
+} from 'vitest';
+import {
+  defineDmnoService, DmnoService, DmnoServiceConfig, DmnoWorkspace,
+} from './config-engine';
+import { collect, createDmnoDataType, inject } from './configraph-adapter';
+import {
+  beginServiceLoadPlugins, beginWorkspaceLoadPlugins, DmnoPlugin, finishServiceLoadPlugins,
+} from './dmno-plugin';
+
+let workspacePath: string;
+beforeAll(async () => {
+  workspacePath = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'dmno-workspace-'));
+});
+afterAll(async () => {
+  await fs.promises.rm(workspacePath, { recursive: true, force: true });
+});
+
+class TestPlugin extends DmnoPlugin {}
+
+/** loads a workspace from raw service configs, running `initPlugins` while the root service is loading */
+async function loadTestWorkspace(
+  serviceConfigs: Record<string, DmnoServiceConfig>,
+  initPlugins?: () => void,
+) {
+  const workspace = new DmnoWorkspace();
+  beginWorkspaceLoadPlugins(workspace);
+  for (const serviceName in serviceConfigs) {
+    const rawConfig = serviceConfigs[serviceName];
+    const servicePath = path.join(workspacePath, serviceName);
+    await fs.promises.mkdir(path.join(servicePath, '.dmno'), { recursive: true });
+    beginServiceLoadPlugins();
+    if (rawConfig.isRoot) initPlugins?.();
+    const service = new DmnoService({
+      packageName: serviceName,
+      path: servicePath,
+      workspace,
+      isRoot: !!rawConfig.isRoot,
+      rawConfig: defineDmnoService(rawConfig),
+    });
+    finishServiceLoadPlugins(service);
+    workspace.addService(service);
+  }
+  workspace.initServicesDag();
+  workspace.processConfig();
+  await workspace.resolveConfig();
+  return workspace;
+}
+
+describe('type adapters', () => {
+  const PackageAUrlType = createDmnoDataType({});
+  const PackageBUrlType = createDmnoDataType({});
+
+  const schemas = {
+    root: { isRoot: true, name: 'root', schema: { URL: { extends: PackageAUrlType, value: 'a-url' } } },
+    api: {
+      name: 'api',
+      schema: {
+        INJECTED_URL: { extends: PackageBUrlType, value: inject() },
+        COLLECTED_URL: { extends: PackageAUrlType, value: collect() },
+      },
+    },
+    child: { name: 'child', parent: 'api', schema: { URL: { extends: PackageBUrlType, value: 'b-url' } } },
+  } satisfies Record<string, DmnoServiceConfig>;
+
+  test('plugins can register compatible types', async () => {
+    const workspace = await loadTestWorkspace(schemas, () => {
+      new TestPlugin('test-plugin', { inputSchema: {} }).registerCompatibleTypes(PackageAUrlType, PackageBUrlType);
+    });
+    const api = workspace.getService('api');
+    expect(api.config.INJECTED_URL.resolvedValue).toEqual('a-url');
+    expect(api.config.COLLECTED_URL.resolvedValue).toEqual('b-url');
+  });
+
+  test('services can register type adapters, which apply to the whole workspace', async () => {
+    const workspace = await loadTestWorkspace({
+      ...schemas,
+      child: {
+        ...schemas.child,
+        typeAdapters: [{ from: PackageAUrlType, to: PackageBUrlType, transformValue: (val) => `${val}-transformed` }],
+      },
+    });
+    const api = workspace.getService('api');
+    expect(api.config.INJECTED_URL.resolvedValue).toEqual('a-url-transformed');
+    // adapters only work in one direction
+    expect(api.config.COLLECTED_URL.isValid).toBe(false);
+  });
+
+  test('adapters are not shared between workspaces', async () => {
+    await loadTestWorkspace(schemas, () => {
+      new TestPlugin('test-plugin', { inputSchema: {} }).registerCompatibleTypes(PackageAUrlType, PackageBUrlType);
+    });
+    const workspace = await loadTestWorkspace(schemas);
+    expect(workspace.getService('api').config.INJECTED_URL.isValid).toBe(false);
+  });
+});
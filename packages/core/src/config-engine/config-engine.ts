@@ -4,16 +4,19 @@ import Debug from 'debug';
 import validatePackageName from 'validate-npm-package-name';
 import graphlib from '@dagrejs/graphlib';
 import {
-  ConfigLoadError, ConfigraphDataTypeDefinitionOrShorthand, SchemaError,
+  ConfigLoadError, ConfigraphDataTypeAdapter, ConfigraphDataTypeDefinitionOrShorthand, InlineValueResolverDef,
+  PickTypeOverrides, SchemaError, serializeErrors,
 } from '@dmno/configraph';
 import { getConfigFromEnvVars } from '../lib/env-vars';
 import { SerializedService, SerializedWorkspace } from '../config-loader/serialization-types';
-import { loadServiceDotEnvFiles } from '../lib/dotenv-utils';
 import { RedactMode } from '../lib/redaction-helpers';
 import {
-  DmnoConfigraph, DmnoConfigraphServiceEntity, DmnoDataTypeMetadata, DmnoServiceSettings,
+  DmnoConfigraph, DmnoConfigraphNode, DmnoConfigraphServiceEntity, DmnoDataTypeMetadata, DmnoServiceSettings,
 } from './configraph-adapter';
 import { DmnoPlugin } from './dmno-plugin';
+import {
+  createDefaultOverrideSourceLoaderRegistry, NestedOverrideObj, OverrideSource,
+} from './override-sources';
 
 const debug = Debug('dmno');
 
@@ -29,8 +32,13 @@ type PickConfigItemDefinition = {
   /** function to transform value(s) */
   transformValue?: (value: any) => any,
 
-  // TOOD: also allow setting the value (not transforming)
-  // value?: use same value type as above
+  /**
+   * replace the picked value - can be static, a function, or a resolver
+   * the source item's value is still available via `ctx.getPickedValue()`
+   */
+  value?: InlineValueResolverDef,
+  /** override options on the picked item's type - ex: `{ sensitive: true, required: true }` */
+  typeOverrides?: PickTypeOverrides<DmnoDataTypeMetadata>,
 };
 
 /**
@@ -44,16 +52,23 @@ export type DmnoServiceConfig = {
   name?: string,
   /** settings for this service - each item will be inherited from parent(s) if unspecified */
   settings?: DmnoServiceSettings,
+  /** optional array of "tags" for the service */
+  tags?: Array<string>,
+  /**
+   * adapters allowing `inject()` / `collect()` to match unrelated types (and optionally transform values)
+   * note that these apply to the whole workspace, not just this service
+   */
+  typeAdapters?: Array<ConfigraphDataTypeAdapter>,
   /** the config schema itself */
   schema: Record<string, ConfigraphDataTypeDefinitionOrShorthand<DmnoDataTypeMetadata>>,
 } & ({
   isRoot: true
+  /** max number of config items to resolve in parallel across the whole workspace */
+  resolutionConcurrency?: number,
 } | {
   isRoot?: false,
   /** name of parent service (if applicable) - if empty this service will be a child of the root service */
   parent?: string,
-  /** optional array of "tags" for the service */
-  tags?: Array<string>,
   /** array of config items to be picked from parent */
   pick?: Array<PickConfigItemDefinition | string>,
 });
@@ -84,23 +99,28 @@ export function defineDmnoService(opts: DmnoServiceConfig) {
   return opts;
 }
 
-//! need to clean up overrrides
-type NestedOverrideObj<T = string> = {
-  [key: string]: NestedOverrideObj<T> | T;
-};
-
-export class OverrideSource {
-  constructor(
-    readonly type: string,
-    readonly label: string | undefined,
-    readonly values: NestedOverrideObj,
-    readonly enabled = true,
-  ) {}
-
-  /** get an env var override value using a dot notation path */
-  getOverrideForPath(path: string) {
-    return _.get(this.values, path);
-  }
+/**
+ * adds override values onto config nodes
+ * nested values are mapped onto the children of object nodes, so a partial object only overrides the children it contains
+ */
+function applyOverrideValues(
+  overrideSource: OverrideSource,
+  values: NestedOverrideObj,
+  nodes: Record<string, DmnoConfigraphNode>,
+) {
+  _.each(values, (val, key) => {
+    const node = nodes[key];
+    if (!node) return;
+    if (_.isPlainObject(val) && !_.isEmpty(node.children)) {
+      applyOverrideValues(overrideSource, val, node.children);
+      return;
+    }
+    node.overrides.push({
+      sourceType: overrideSource.type,
+      sourceLabel: overrideSource.label,
+      value: val,
+    });
+  });
 }
 
 export class DmnoWorkspace {
@@ -114,6 +134,9 @@ export class DmnoWorkspace {
 
   readonly processEnvOverrides = new OverrideSource('process', undefined, getConfigFromEnvVars());
 
+  /** loaders used to find override sources (.env, json, yaml, toml files) for each service */
+  readonly overrideSourceLoaders = createDefaultOverrideSourceLoaderRegistry();
+
   plugins: Record<string, DmnoPlugin> = {};
 
   addService(service: DmnoService) {
@@ -128,7 +151,7 @@ export class DmnoWorkspace {
     }
   }
 
-  private servicesDag = new graphlib.Graph({ directed: true });
+  readonly servicesDag = new graphlib.Graph({ directed: true });
   initServicesDag() {
     // first we need to just determine the services order based on parent ids, so we can _initialize_ in the right order
     for (const service of this.servicesArray) {
@@ -189,6 +212,20 @@ export class DmnoWorkspace {
 
   readonly configraph = new DmnoConfigraph();
   processConfig() {
+    const rootRawConfig = this.rootService?.rawConfig;
+    if (rootRawConfig?.isRoot && rootRawConfig.resolutionConcurrency) {
+      this.configraph.resolutionConcurrency = rootRawConfig.resolutionConcurrency;
+    }
+
+    // type adapters are registered on this graph's own registry, so they do not leak between workspace reloads
+    const typeRegistry = this.configraph.defaultDataTypeRegistry;
+    _.each(this.plugins, (plugin) => {
+      _.each(plugin.typeAdapters, (adapter) => typeRegistry.registerTypeAdapter(adapter));
+    });
+    for (const service of this.servicesArray) {
+      _.each(service.rawConfig?.typeAdapters, (adapter) => typeRegistry.registerTypeAdapter(adapter));
+    }
+
     // we now initialize the configraph entities in the correct order
     for (const service of this.servicesArray) {
       // if we had an issue _loading_ the config, we dont add the service to the configraph
@@ -205,6 +242,7 @@ export class DmnoWorkspace {
           ...service.rawConfig?.settings,
 
           configSchema: service.rawConfig?.schema as any,
+          tags: service.rawConfig?.tags,
 
           // pick and parentId is only available on non-root services
           ...service.rawConfig && !service.rawConfig.isRoot && {
@@ -240,22 +278,12 @@ export class DmnoWorkspace {
       await service.loadOverrideFiles();
 
       // for now we'll apply the process.env level overrides to every service
-      // TODO: think through how we can allow targeting specific services, and nested object nodes
+      // TODO: think through how we can allow targeting specific services
       service.overrideSources.unshift(this.processEnvOverrides);
 
-      // TODO: clean all of this up - just wanted to get basic overrides applied again
-      // this currently does not support anything nested!
       _.each(service.overrideSources, (overrideSource) => {
         if (!overrideSource.enabled) return;
-        _.each(overrideSource.values, (val, key) => {
-          const node = service.configraphEntity.getConfigNodeByPath(key);
-          if (!node) return;
-          node.overrides.push({
-            sourceType: overrideSource.type,
-            sourceLabel: overrideSource.label,
-            value: val,
-          });
-        });
+        applyOverrideValues(overrideSource, overrideSource.values, service.configraphEntity.configNodes);
       });
     }
 
@@ -279,6 +307,7 @@ export class DmnoWorkspace {
 
   toJSON(): SerializedWorkspace {
     return {
+      schemaErrors: serializeErrors(this.configraph.schemaErrors),
       plugins: _.mapValues(this.plugins, (p) => p.toJSON()),
       services: _.mapValues(
         _.keyBy(this.services, (s) => s.serviceName),
@@ -298,6 +327,8 @@ export class DmnoService {
   readonly isRoot: boolean;
   /** path to the service itself */
   readonly path: string;
+  /** path to the service's .dmno folder - normally within the service, but may be a copy loaded from elsewhere */
+  readonly dmnoFolderPath: string;
   /** unprocessed config schema pulled from config.ts */
   readonly rawConfig?: DmnoServiceConfig;
 
@@ -309,6 +340,8 @@ export class DmnoService {
 
   /** error within the schema itself */
   get schemaErrors() { return this.configraphEntity.schemaErrors; }
+  /** service-level warnings (not including those on config items) */
+  get warnings() { return this.configraphEntity.warnings; }
 
   injectedPluginNames: Array<string> = [];
   ownedPluginNames: Array<string> = [];
@@ -316,6 +349,7 @@ export class DmnoService {
   constructor(opts: {
     packageName: string,
     path: string,
+    dmnoFolderPath?: string,
     workspace: DmnoWorkspace,
     isRoot: boolean,
     rawConfig: DmnoServiceConfig | ConfigLoadError
@@ -324,6 +358,7 @@ export class DmnoService {
     this.isRoot = opts.isRoot;
     this.packageName = opts.packageName;
     this.path = opts.path;
+    this.dmnoFolderPath = opts.dmnoFolderPath || `${opts.path}/.dmno`;
 
     if (_.isError(opts.rawConfig)) {
       this.serviceName = this.packageName;
@@ -364,30 +399,20 @@ export class DmnoService {
 
   overrideSources: Array<OverrideSource> = [];
   async loadOverrideFiles() {
-    // TODO: this is not at all optimized for speed...
-    // particularly it is doing a check on if the file is gitignored
-    // and if we are loading not in dev mode, we may just want to load files that will be applied
-    const dotEnvFiles = await loadServiceDotEnvFiles(this.path, { onlyLoadDmnoFolder: true });
-
-    // TODO: support other formats (yaml, toml, json) - probably should all be through a plugin system
-
-    // loads multiple override files, in order from more specific to least
+    // loads all override sources, in order from more specific to least - for example
     // .env.{ENV}.local
     // .env.local
     // .env.{ENV}
     // .env
-
-    this.overrideSources = _.map(dotEnvFiles, (dotEnvFile) => {
-      return new OverrideSource(
-        '.env file',
-        dotEnvFile.fileName,
-        dotEnvFile.envObj,
-        // TODO: specific env overrides are being enabled based on process.env.NODE_ENV
-        // we probably want to be smarter about how _that_ gets resolved first
-        // and store it at the workspace level or something...?
-        !dotEnvFile.applyForEnv || dotEnvFile.applyForEnv === process.env.NODE_ENV,
-      );
-    });
+    const pluginLoaders = _.flatMap(
+      _.uniq([...this.ownedPluginNames, ...this.injectedPluginNames]),
+      (pluginName) => this.workspace.plugins[pluginName]?.overrideSourceLoaders || [],
+    );
+    this.overrideSources = await this.workspace.overrideSourceLoaders.loadSources({
+      servicePath: this.path,
+      dmnoFolderPath: this.dmnoFolderPath,
+      serviceName: this.serviceName,
+    }, pluginLoaders);
   }
 
   get isSchemaValid() {
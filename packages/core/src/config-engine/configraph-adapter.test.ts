@@ -0,0 +1,109 @@
+import { expect, test, describe } from 'vitest';
+import {
+  configPath, DmnoConfigraph, DmnoConfigraphNode, DmnoConfigraphServiceEntity, DmnoServiceSettings, switchBy, template,
+} from './configraph-adapter';
+
+async function resolveTestService(configSchema: Record<string, any>, settings?: DmnoServiceSettings) {
+  const graph = new DmnoConfigraph();
+  // caching is not needed for these tests, and requires a cache directory to be set
+  graph.cacheProvider = undefined as any;
+  const service = new DmnoConfigraphServiceEntity(graph, { ...settings, configSchema });
+  await graph.resolveConfig();
+  return service.configNodes as Record<string, DmnoConfigraphNode>;
+}
+
+describe('derived sensitivity', () => {
+  const secretSchema = {
+    SECRET: { sensitive: { allowedDomains: ['api.example.com', 'example.com'] }, value: 'secret-val' },
+    PUBLIC: { value: 'public-val' },
+  };
+
+  test('`inherit` mode marks items derived from sensitive items as sensitive', async () => {
+    const nodes = await resolveTestService({
+      ...secretSchema,
+      FROM_FN: { value: (ctx: any) => `${ctx.get('SECRET')}-suffix` },
+      FROM_PATH: { value: configPath('SECRET') },
+      // follows multiple levels
+      FROM_DERIVED: { value: (ctx: any) => ctx.get('FROM_FN') },
+      FROM_PUBLIC: { value: (ctx: any) => ctx.get('PUBLIC') },
+    }, { derivedSensitivity: 'inherit' });
+    expect(nodes.FROM_FN.isSensitive).toBe(true);
+    expect(nodes.FROM_FN.sensitiveDependencyPaths).toEqual([nodes.SECRET.fullPath]);
+    expect(nodes.FROM_PATH.isSensitive).toBe(true);
+    expect(nodes.FROM_DERIVED.isSensitive).toBe(true);
+    expect(nodes.FROM_PUBLIC.isSensitive).toBe(false);
+    // derived items are dynamic by default, so they are not included in static replacements
+    expect(nodes.FROM_FN.isDynamic).toBe(true);
+  });
+
+  test('injected JSON includes sensitivity, and allowed domains are inherited', async () => {
+    const nodes = await resolveTestService({
+      ...secretSchema,
+      FROM_FN: { value: (ctx: any) => `${ctx.get('SECRET')}-suffix` },
+    }, { derivedSensitivity: 'inherit' });
+    expect(nodes.FROM_FN.toInjectedJSON()).toEqual({
+      sensitive: 1,
+      dynamic: 1,
+      allowedDomains: ['api.example.com', 'example.com'],
+      value: 'secret-val-suffix',
+    });
+  });
+
+  test('explicitly setting `sensitive: false` opts out', async () => {
+    const nodes = await resolveTestService({
+      ...secretSchema,
+      HAS_SECRET: { sensitive: false, value: (ctx: any) => !!ctx.get('SECRET') },
+    }, { derivedSensitivity: 'inherit' });
+    expect(nodes.HAS_SECRET.isSensitive).toBe(false);
+    expect(nodes.HAS_SECRET.toJSON().sensitiveDependencyPaths).toBeUndefined();
+  });
+
+  test('`warn` mode (default) leaves derived items public, except for templates and copied values', async () => {
+    const nodes = await resolveTestService({
+      ...secretSchema,
+      FROM_FN: { value: (ctx: any) => `${ctx.get('SECRET')}-suffix` },
+      FROM_TEMPLATE: { value: template`${'SECRET'}-suffix` },
+    });
+    expect(nodes.FROM_FN.isSensitive).toBe(false);
+    expect(nodes.FROM_FN.toJSON().sensitiveDependencyPaths).toEqual([nodes.SECRET.fullPath]);
+    expect(nodes.FROM_FN.warnings.map((w) => w.code)).toEqual(['DERIVED_FROM_SENSITIVE']);
+    expect(nodes.FROM_TEMPLATE.isSensitive).toBe(true);
+    expect(nodes.FROM_TEMPLATE.warnings).toEqual([]);
+  });
+
+  test('`warn` mode passes on sensitivity for values copied using `configPath`', async () => {
+    const nodes = await resolveTestService({
+      ...secretSchema,
+      FROM_PATH: { value: configPath('SECRET') },
+    });
+    expect(nodes.FROM_PATH.isSensitive).toBe(true);
+    expect(nodes.FROM_PATH.isDynamic).toBe(true);
+    expect(nodes.FROM_PATH.toInjectedJSON()).toMatchObject({ sensitive: 1, dynamic: 1, value: 'secret-val' });
+    expect(nodes.FROM_PATH.warnings).toEqual([]);
+  });
+
+  test('`warn` mode checks the active branch for templates', async () => {
+    const nodes = await resolveTestService({
+      ...secretSchema,
+      ENV: { value: 'prod' },
+      FROM_TEMPLATE_BRANCH: {
+        value: switchBy('ENV', {
+          _default: 'default-val',
+          prod: template`${'SECRET'}-suffix`,
+        }),
+      },
+    }, { derivedSensitivity: 'warn' });
+    expect(nodes.FROM_TEMPLATE_BRANCH.resolvedValue).toBe('secret-val-suffix');
+    expect(nodes.FROM_TEMPLATE_BRANCH.isSensitive).toBe(true);
+    expect(nodes.FROM_TEMPLATE_BRANCH.warnings).toEqual([]);
+  });
+
+  test('`warn` mode warnings can be suppressed on the service', async () => {
+    const nodes = await resolveTestService({
+      ...secretSchema,
+      FROM_FN: { value: (ctx: any) => `${ctx.get('SECRET')}-suffix` },
+    }, { derivedSensitivity: 'warn', suppressWarnings: ['DERIVED_FROM_SENSITIVE'] });
+    expect(nodes.FROM_FN.isSensitive).toBe(false);
+    expect(nodes.FROM_FN.warnings).toEqual([]);
+  });
+});
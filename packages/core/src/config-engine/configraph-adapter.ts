@@ -3,7 +3,9 @@ import {
   Configraph,
   ConfigraphDataTypesRegistry,
   ConfigraphEntity,
+  ConfigraphError,
   ConfigraphNode,
+  SuppressWarningsSetting,
 } from '@dmno/configraph';
 
 import { RedactMode } from '../lib/redaction-helpers';
@@ -21,6 +23,7 @@ export {
   ResolverContext, getResolverCtx, ConfigValueResolver,
 
   switchBy, switchByDmnoEnv, switchByNodeEnv, cacheFunctionResult,
+  switchByMatch, switchWhen, ifThenElse, template, whenEquals, whenMatches, whenAll, whenAny, whenNot,
 
   // error types
   ConfigLoadError, SchemaError, ResolutionError, CoercionError, ValidationError,
@@ -32,10 +35,13 @@ export type {
   ConfigraphDataTypeDefinition,
   ConfigraphDataTypeFactoryFn,
   ConfigraphDataTypesRegistry,
+  ConfigraphDataTypeAdapter,
   InlineValueResolverDef,
+  ResolverCondition, ResolverConditionOrShorthand, ValueMatcher,
   ConfigraphTypeExtendsDefinition,
   TypeValidationResult,
   ExternalDocsEntry,
+  SuppressWarningsSetting,
 } from '@dmno/configraph';
 
 
@@ -67,7 +73,12 @@ export type DmnoDataTypeMetadata = {
 // way more legible, but super weird that we are involving a class like this
 // abusing type generics on a class in order to simplify things a bit...
 class DmnoDataTypesRegistry extends ConfigraphDataTypesRegistry<DmnoDataTypeMetadata> {}
-const dmnoDataTypesRegistry = new DmnoDataTypesRegistry();
+/**
+ * registry used to create dmno data types
+ * type adapters registered here are not used - each `DmnoConfigraph` has its own registry, which is populated using
+ * a plugin's `registerTypeAdapter` / `registerCompatibleTypes`, or the `typeAdapters` service config option
+ */
+export const dmnoDataTypesRegistry = new DmnoDataTypesRegistry();
 export const createDmnoDataType = dmnoDataTypesRegistry.create;
 
 
@@ -94,6 +105,16 @@ export type DmnoServiceSettings = {
   interceptSensitiveLeakRequests?: boolean,
   /** enable scanning all code and data for leaks before sending to the client (where possible) */
   preventClientLeaks?: boolean,
+  /**
+   * how to treat items derived from sensitive items (via functions, transformed picks, etc) - defaults to "warn"
+   * - `warn` - show a warning, but leave it public (templates and `configPath` which embed the value are still marked sensitive)
+   * - `inherit` - automatically mark the derived item as sensitive
+   *
+   * set `sensitive: false` on a specific item to opt it out
+   */
+  derivedSensitivity?: 'warn' | 'inherit',
+  /** suppress warnings within this service (and its children) - `true` for all, or an array of warning codes */
+  suppressWarnings?: SuppressWarningsSetting,
 };
 
 export type DmnoServiceMeta = {
@@ -103,7 +124,7 @@ export type DmnoEntityMetadata = DmnoServiceSettings & DmnoServiceMeta;
 
 
 export class DmnoConfigraph extends Configraph<DmnoEntityMetadata> {
-  defaultDataTypeRegistry = dmnoDataTypesRegistry;
+  defaultDataTypeRegistry = new DmnoDataTypesRegistry();
   cacheProvider = new DmnoConfigraphCachingProvider();
 
   // we dont need the options available on the Configraph constructor
@@ -119,6 +140,7 @@ DmnoEntityMetadata, DmnoDataTypeMetadata, DmnoConfigraphNode
   get redactSensitiveLogs() { return this.getMetadata('redactSensitiveLogs'); }
   get interceptSensitiveLeakRequests() { return this.getMetadata('interceptSensitiveLeakRequests'); }
   get preventClientLeaks() { return this.getMetadata('preventClientLeaks'); }
+  get derivedSensitivity() { return this.getMetadata('derivedSensitivity') ?? 'warn'; }
 
   get settings() {
     return {
@@ -126,6 +148,7 @@ DmnoEntityMetadata, DmnoDataTypeMetadata, DmnoConfigraphNode
       redactSensitiveLogs: this.redactSensitiveLogs,
       interceptSensitiveLeakRequests: this.interceptSensitiveLeakRequests,
       preventClientLeaks: this.preventClientLeaks,
+      derivedSensitivity: this.derivedSensitivity,
     };
   }
 
@@ -153,8 +176,75 @@ export class DmnoConfigraphNode extends ConfigraphNode<DmnoDataTypeMetadata> {
   // get interceptSensitiveLeakRequests() { return this.getMetadata('interceptSensitiveLeakRequests'); }
   // get preventClientLeaks() { return this.getMetadata('preventClientLeaks'); }
 
-  get isSensitive() {
-    return !!this.type.getMetadata('sensitive');
+  /**
+   * full paths of sensitive items that this item's value was derived from
+   * uses dependencies declared while processing (ex: `configPath`) and those read during resolution via `ctx.get`
+   */
+  get sensitiveDependencyPaths(): Array<string> {
+    return this.findSensitiveDependencyPaths(new Set());
+  }
+
+  /**
+   * derived sensitive items can only be sent to domains allowed by _all_ of the sensitive items they use
+   * if any of them has no allowed domains set, none are allowed
+   */
+  private getDerivedAllowedDomains() {
+    const depAllowedDomains = _.map(this.sensitiveDependencyPaths, (depPath) => {
+      const depNode = this.parentEntity?.graphRoot.nodesByFullPath[depPath] as DmnoConfigraphNode | undefined;
+      const depSensitiveSettings = depNode?.type.getMetadata('sensitive');
+      return _.isObject(depSensitiveSettings) ? depSensitiveSettings.allowedDomains : undefined;
+    });
+    if (!depAllowedDomains.length || depAllowedDomains.some((d) => !d)) return undefined;
+    return { allowedDomains: _.intersection(...depAllowedDomains as Array<Array<string>>) };
+  }
+
+  // visited paths are tracked to avoid infinite loops if the schema has a dependency cycle
+  private findSensitiveDependencyPaths(visitedPaths: Set<string>): Array<string> {
+    visitedPaths.add(this.fullPath);
+    return _.filter(_.keys(this.dependsOnPathsObj), (depPath) => {
+      if (visitedPaths.has(depPath)) return false;
+      const depNode = this.parentEntity?.graphRoot.nodesByFullPath[depPath] as DmnoConfigraphNode | undefined;
+      if (!depNode) return false;
+      const depSensitiveSetting = depNode.type.getMetadata('sensitive');
+      if (depSensitiveSetting !== undefined) return !!depSensitiveSetting;
+      return depNode.findSensitiveDependencyPaths(visitedPaths).length > 0;
+    });
+  }
+
+  /** true if the resolver - or the active branch within it (ex: `switchBy`) - embeds other values directly */
+  private get embedsDependencyValues() {
+    let resolver = this.valueResolver;
+    while (resolver) {
+      if (resolver.def.embedsDependencyValues) return true;
+      resolver = _.find(resolver.branches, (b) => !!b.isActive)?.resolver;
+    }
+    return false;
+  }
+
+  get isSensitive(): boolean {
+    const sensitiveSetting = this.type.getMetadata('sensitive');
+    // explicitly setting `sensitive: false` opts out of derived sensitivity
+    if (sensitiveSetting !== undefined) return !!sensitiveSetting;
+    // resolvers that embed other values directly (ex: templates, `configPath`) always pass on sensitivity
+    const derivedSensitivity = (this.parentEntity as DmnoConfigraphServiceEntity)?.derivedSensitivity;
+    if (derivedSensitivity === 'warn' && !this.embedsDependencyValues) return false;
+    return this.sensitiveDependencyPaths.length > 0;
+  }
+
+  protected collectWarnings(): Array<ConfigraphError> {
+    const warnings = super.collectWarnings();
+    // derived from sensitive items, but left public because of the `derivedSensitivity: 'warn'` setting
+    if (this.type.getMetadata('sensitive') === undefined && !this.isSensitive) {
+      const sensitiveDependencyPaths = this.sensitiveDependencyPaths;
+      if (sensitiveDependencyPaths.length) {
+        warnings.push(new ConfigraphError(`Derived from sensitive item(s): ${sensitiveDependencyPaths.join(', ')}`, {
+          severity: 'warning',
+          code: 'DERIVED_FROM_SENSITIVE',
+          tip: 'Set `sensitive: true`, or `sensitive: false` to silence this warning',
+        }));
+      }
+    }
+    return warnings;
   }
 
   get isDynamic() {
@@ -178,16 +268,21 @@ export class DmnoConfigraphNode extends ConfigraphNode<DmnoDataTypeMetadata> {
 
     // 'public_static' mode is default behaviour
     // sensitive = dynamic, non-sensitive = static
-    return !!this.type.getMetadata('sensitive');
+    return this.isSensitive;
   }
 
 
   toJSON(): SerializedConfigItem {
+    // only included when sensitivity is derived, rather than set explicitly
+    const sensitiveDependencyPaths = this.type.getMetadata('sensitive') === undefined
+      ? this.sensitiveDependencyPaths
+      : [];
     return {
       ...super.toCoreJSON(),
       children: _.mapValues(this.children, (c) => c.toJSON()),
       isDynamic: this.isDynamic,
       isSensitive: this.isSensitive,
+      ...sensitiveDependencyPaths.length && { sensitiveDependencyPaths },
     };
   }
   /** this is the shape that gets injected into an serialized json env var by `dmno run` */
@@ -197,6 +292,7 @@ export class DmnoConfigraphNode extends ConfigraphNode<DmnoDataTypeMetadata> {
       ...this.isSensitive && { sensitive: 1 },
       // adds `redactMode` and `allowedDomains`
       ..._.isObject(sensitiveSettings) && sensitiveSettings,
+      ...sensitiveSettings === undefined && this.isSensitive && this.getDerivedAllowedDomains(),
       ...this.isDynamic && { dynamic: 1 },
       value: this.resolvedValue,
     };
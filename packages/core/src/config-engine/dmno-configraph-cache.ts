@@ -106,6 +106,7 @@ export class DmnoConfigraphCachingProvider extends ConfigraphCachingProvider {
         const valueStr = await decrypt(this.encryptionKey, itemRaw.encryptedValue, this.encryptionKeyName);
         this.items[itemCacheKey] = new ConfigraphCacheEntry(itemCacheKey, JSON.parse(valueStr), {
           // we are tossing out the saved "usedBy" entries since we'll have new ones after this config run
+          // expiry is checked against this when reading, using the max age set by the resolver
           updatedAt: new Date(itemRaw.updatedAt),
           // we are saving the encrypted value, so it wont churn from re-encryption
           encryptedValue: itemRaw.encryptedValue,
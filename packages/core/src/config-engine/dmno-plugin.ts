@@ -2,6 +2,8 @@ import _ from 'lodash-es';
 import Debug from 'debug';
 
 import {
+  ConfigraphDataTypeAdapter,
+  ConfigraphDataTypeFactoryFn,
   ConfigraphPlugin,
   SchemaError,
 } from '@dmno/configraph';
@@ -11,6 +13,7 @@ import {
 } from './config-engine';
 import { DmnoConfigraphNode, DmnoConfigraphServiceEntity, DmnoDataTypeMetadata } from './configraph-adapter';
 import { SerializedDmnoPlugin } from '../config-loader/serialization-types';
+import { OverrideSourceLoader } from './override-sources';
 
 const debug = Debug('dmno:plugins');
 
@@ -39,6 +42,26 @@ DmnoDataTypeMetadata, DmnoConfigraphServiceEntity
 
   EntityClass = DmnoConfigraphServiceEntity;
 
+  /** additional override source loaders, used for services that own or inject this plugin */
+  readonly overrideSourceLoaders: Array<OverrideSourceLoader> = [];
+  registerOverrideSourceLoader(loader: OverrideSourceLoader) {
+    this.overrideSourceLoaders.push(loader);
+  }
+
+  /** type adapters added to the workspace, allowing `inject()` / `collect()` to match unrelated types */
+  readonly typeAdapters: Array<ConfigraphDataTypeAdapter> = [];
+  registerTypeAdapter(adapter: ConfigraphDataTypeAdapter) {
+    this.typeAdapters.push(adapter);
+  }
+  /** mark 2 types as interchangeable - values will be injected as-is in either direction */
+  registerCompatibleTypes(
+    typeA: ConfigraphDataTypeFactoryFn<any, any>,
+    typeB: ConfigraphDataTypeFactoryFn<any, any>,
+  ) {
+    this.registerTypeAdapter({ from: typeA, to: typeB });
+    this.registerTypeAdapter({ from: typeB, to: typeA });
+  }
+
   constructor(...args: ConstructorParameters<typeof ConfigraphPlugin<DmnoDataTypeMetadata>>) {
     super(...args);
     // instanceId set in super() call
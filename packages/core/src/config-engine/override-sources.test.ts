@@ -0,0 +1,123 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  expect, test, describe, beforeAll, afterAll,
+} from 'vitest';
+import {
+  createDefaultOverrideSourceLoaderRegistry, jsonOverrideLoader, OverrideSource, tomlOverrideLoader, yamlOverrideLoader,
+} from './override-sources';
+
+let servicePath: string;
+const ctx = () => ({ servicePath, dmnoFolderPath: path.join(servicePath, '.dmno'), serviceName: 'test' });
+
+beforeAll(async () => {
+  servicePath = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'dmno-overrides-'));
+  const dmnoFolderPath = path.join(servicePath, '.dmno');
+  await fs.promises.mkdir(dmnoFolderPath);
+  const files: Record<string, string> = {
+    'overrides.json': JSON.stringify({ ITEM: 'from-json', DB: { host: 'json-host' } }),
+    'overrides.local.yaml': 'DB:\n  host: yaml-host\n  port: 5432\n',
+    'overrides.production.local.toml': 'ITEM = "from-toml"\n[DB]\nhost = "toml-host"\n',
+    // should be ignored since it does not use the "overrides" base name
+    'tsconfig.json': '{}',
+  };
+  for (const fileName in files) {
+    await fs.promises.writeFile(path.join(dmnoFolderPath, fileName), files[fileName]);
+  }
+});
+afterAll(async () => {
+  await fs.promises.rm(servicePath, { recursive: true, force: true });
+});
+
+describe('override file loaders', () => {
+  test('json files are parsed into nested values', async () => {
+    const sources = await jsonOverrideLoader.load(ctx());
+    expect(sources).toHaveLength(1);
+    expect(sources[0]).toMatchObject({
+      type: 'json file',
+      label: 'overrides.json',
+      values: { ITEM: 'from-json', DB: { host: 'json-host' } },
+      enabled: true,
+      precedence: 1,
+    });
+  });
+
+  test('.local files have higher precedence', async () => {
+    const sources = await yamlOverrideLoader.load(ctx());
+    expect(sources[0]).toMatchObject({
+      label: 'overrides.local.yaml',
+      values: { DB: { host: 'yaml-host', port: 5432 } },
+      precedence: 3,
+    });
+  });
+
+  test('env specific files are only enabled for that env', async () => {
+    const sources = await tomlOverrideLoader.load(ctx());
+    expect(sources[0]).toMatchObject({
+      label: 'overrides.production.local.toml',
+      values: { ITEM: 'from-toml', DB: { host: 'toml-host' } },
+      enabled: process.env.NODE_ENV === 'production',
+      precedence: 4,
+    });
+  });
+});
+
+describe('dotenv override loader', () => {
+  let dotEnvServicePath: string;
+  beforeAll(async () => {
+    dotEnvServicePath = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'dmno-dotenv-overrides-'));
+    await fs.promises.mkdir(path.join(dotEnvServicePath, '.dmno'));
+    for (const fileName of ['.env', '.env.production', '.env.local', '.env.production.local', '.env.sample']) {
+      await fs.promises.writeFile(path.join(dotEnvServicePath, '.dmno', fileName), `ITEM=${fileName}\n`);
+    }
+  });
+  afterAll(async () => {
+    await fs.promises.rm(dotEnvServicePath, { recursive: true, force: true });
+  });
+
+  test('more specific files win, and sample files are not applied', async () => {
+    const registry = createDefaultOverrideSourceLoaderRegistry();
+    const sources = await registry.loadSources({
+      servicePath: dotEnvServicePath,
+      dmnoFolderPath: path.join(dotEnvServicePath, '.dmno'),
+      serviceName: 'test',
+    });
+    expect(sources.map((s) => s.label)).toEqual([
+      '.env.production.local',
+      '.env.local',
+      '.env.production',
+      '.env',
+    ]);
+    expect(sources.map((s) => s.values.ITEM)).toEqual(sources.map((s) => s.label));
+  });
+});
+
+describe('override source loader registry', () => {
+  test('sources from all loaders are sorted by precedence', async () => {
+    const registry = createDefaultOverrideSourceLoaderRegistry();
+    const sources = await registry.loadSources(ctx());
+    expect(sources.map((s) => s.label)).toEqual([
+      'overrides.production.local.toml',
+      'overrides.local.yaml',
+      'overrides.json',
+    ]);
+  });
+
+  test('additional loaders can be registered, and replace existing loaders with the same id', async () => {
+    const registry = createDefaultOverrideSourceLoaderRegistry();
+    registry.register({
+      id: 'json',
+      load: async () => [new OverrideSource('custom', 'replaced json', { ITEM: 'custom' })],
+    });
+    registry.register({
+      id: 'remote',
+      load: async () => [new OverrideSource('remote', 'remote provider', { ITEM: 'remote' }, true, 10)],
+    });
+    expect(registry.loaderIds).toEqual(['dotenv', 'json', 'yaml', 'toml', 'remote']);
+    const sources = await registry.loadSources(ctx());
+    expect(sources[0].label).toEqual('remote provider');
+    expect(sources.map((s) => s.label)).toContain('replaced json');
+    expect(sources.map((s) => s.label)).not.toContain('overrides.json');
+  });
+});
@@ -0,0 +1,192 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import _ from 'lodash-es';
+import YAML from 'yaml';
+import TOML from '@iarna/toml';
+import { getOverrideFilePrecedence, loadServiceDotEnvFiles, parseOverrideFileNameParts } from '../lib/dotenv-utils';
+
+export type NestedOverrideObj<T = any> = {
+  [key: string]: NestedOverrideObj<T> | T;
+};
+
+export class OverrideSource {
+  constructor(
+    readonly type: string,
+    readonly label: string | undefined,
+    readonly values: NestedOverrideObj,
+    readonly enabled = true,
+    /** used to order sources from multiple loaders - higher number wins */
+    readonly precedence = 0,
+  ) {}
+
+  /** get an env var override value using a dot notation path */
+  getOverrideForPath(path: string) {
+    return _.get(this.values, path);
+  }
+}
+
+export type OverrideSourceLoaderContext = {
+  /** path to the service's root folder */
+  servicePath: string,
+  /** path to the folder to load override files from - normally `{servicePath}/.dmno` */
+  dmnoFolderPath: string,
+  /** name of the service the overrides are being loaded for */
+  serviceName: string,
+};
+
+/**
+ * loads override sources for a service
+ * built-in loaders handle .env, json, yaml, and toml files, and plugins can register additional loaders
+ */
+export type OverrideSourceLoader = {
+  /** unique id - registering a loader with an existing id replaces the original */
+  id: string,
+  load: (ctx: OverrideSourceLoaderContext) => Promise<Array<OverrideSource>>,
+};
+
+/**
+ * creates a loader for override files within the .dmno folder that follow the same naming as .env files
+ * for example `overrides.json`, `overrides.local.json`, `overrides.production.json`, `overrides.production.local.json`
+ */
+export function createOverrideFileLoader(opts: {
+  id: string,
+  /** used as the override source type - ex: "json file" */
+  sourceType: string,
+  /** file extensions to match, without the leading "." */
+  fileExtensions: Array<string>,
+  /** base name of the file, defaults to "overrides" */
+  baseName?: string,
+  /** parse the file contents into a (possibly nested) object */
+  parse: (rawContents: string) => NestedOverrideObj | Promise<NestedOverrideObj>,
+}): OverrideSourceLoader {
+  const baseName = opts.baseName ?? 'overrides';
+  return {
+    id: opts.id,
+    async load(ctx) {
+      const dmnoFolderPath = ctx.dmnoFolderPath;
+      let fileNames: Array<string>;
+      try {
+        fileNames = await fs.promises.readdir(dmnoFolderPath);
+      } catch (err) {
+        if ((err as any).code === 'ENOENT') return [];
+        throw err;
+      }
+
+      const sources: Array<OverrideSource> = [];
+      for (const fileName of fileNames) {
+        const fileNameParts = fileName.split('.');
+        const extension = fileNameParts.pop()!;
+        if (fileNameParts[0] !== baseName || !opts.fileExtensions.includes(extension)) continue;
+
+        const fileInfo = parseOverrideFileNameParts(fileNameParts);
+        // sample files are just examples, so they are not applied
+        if (fileInfo.isSampleFile) continue;
+        const rawContents = await fs.promises.readFile(path.join(dmnoFolderPath, fileName), 'utf8');
+        let values: NestedOverrideObj;
+        try {
+          values = await opts.parse(rawContents);
+        } catch (err) {
+          throw new Error(`Unable to parse override file .dmno/${fileName} - ${(err as Error).message}`);
+        }
+        // an empty file is treated as no overrides
+        values ??= {};
+        if (!_.isPlainObject(values)) {
+          throw new Error(`Override file .dmno/${fileName} must contain an object`);
+        }
+
+        sources.push(new OverrideSource(
+          opts.sourceType,
+          fileName,
+          values,
+          !fileInfo.applyForEnv || fileInfo.applyForEnv === process.env.NODE_ENV,
+          getOverrideFilePrecedence(fileInfo),
+        ));
+      }
+      return sources;
+    },
+  };
+}
+
+export const dotEnvOverrideLoader: OverrideSourceLoader = {
+  id: 'dotenv',
+  async load(ctx) {
+    // TODO: this is not at all optimized for speed...
+    // particularly it is doing a check on if the file is gitignored
+    // and if we are loading not in dev mode, we may just want to load files that will be applied
+    // the dmno folder is always named `.dmno`, even when loading from elsewhere (see `dmno diff --ref`)
+    const dotEnvFiles = await loadServiceDotEnvFiles(path.dirname(ctx.dmnoFolderPath), { onlyLoadDmnoFolder: true });
+    // sample files (ex: `.env.sample`) are just examples, so they are not applied
+    const appliedDotEnvFiles = _.reject(dotEnvFiles, (dotEnvFile) => dotEnvFile.isSampleFile);
+    return _.map(appliedDotEnvFiles, (dotEnvFile) => new OverrideSource(
+      '.env file',
+      dotEnvFile.fileName,
+      dotEnvFile.envObj,
+      // TODO: specific env overrides are being enabled based on process.env.NODE_ENV
+      // we probably want to be smarter about how _that_ gets resolved first
+      // and store it at the workspace level or something...?
+      !dotEnvFile.applyForEnv || dotEnvFile.applyForEnv === process.env.NODE_ENV,
+      getOverrideFilePrecedence(dotEnvFile),
+    ));
+  },
+};
+
+export const jsonOverrideLoader = createOverrideFileLoader({
+  id: 'json',
+  sourceType: 'json file',
+  fileExtensions: ['json'],
+  parse: (rawContents) => JSON.parse(rawContents),
+});
+
+export const yamlOverrideLoader = createOverrideFileLoader({
+  id: 'yaml',
+  sourceType: 'yaml file',
+  fileExtensions: ['yaml', 'yml'],
+  parse: (rawContents) => YAML.parse(rawContents),
+});
+
+export const tomlOverrideLoader = createOverrideFileLoader({
+  id: 'toml',
+  sourceType: 'toml file',
+  fileExtensions: ['toml'],
+  parse: (rawContents) => TOML.parse(rawContents),
+});
+
+export class OverrideSourceLoaderRegistry {
+  private loaders: Array<OverrideSourceLoader> = [];
+
+  constructor(loaders: Array<OverrideSourceLoader> = []) {
+    loaders.forEach((loader) => this.register(loader));
+  }
+
+  register(loader: OverrideSourceLoader) {
+    const existingIndex = this.loaders.findIndex((l) => l.id === loader.id);
+    if (existingIndex >= 0) this.loaders[existingIndex] = loader;
+    else this.loaders.push(loader);
+  }
+
+  get loaderIds() {
+    return this.loaders.map((l) => l.id);
+  }
+
+  /**
+   * runs all loaders (and any additional ones passed in) and returns the sources
+   * in order from highest to lowest precedence - ties go to whichever loader was registered first
+   */
+  async loadSources(ctx: OverrideSourceLoaderContext, additionalLoaders: Array<OverrideSourceLoader> = []) {
+    const sources: Array<OverrideSource> = [];
+    for (const loader of [...this.loaders, ...additionalLoaders]) {
+      sources.push(...await loader.load(ctx));
+    }
+    // sortBy is stable, so sources with the same precedence stay in loader order
+    return _.sortBy(sources, (s) => -s.precedence);
+  }
+}
+
+export function createDefaultOverrideSourceLoaderRegistry() {
+  return new OverrideSourceLoaderRegistry([
+    dotEnvOverrideLoader,
+    jsonOverrideLoader,
+    yamlOverrideLoader,
+    tomlOverrideLoader,
+  ]);
+}
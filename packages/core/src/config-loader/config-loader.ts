@@ -88,8 +88,18 @@ export class ConfigLoader {
 
   devMode = false;
   schemaLoaded = false;
+  /**
+   * alternate .dmno folder locations, keyed by service path
+   * used to load config from somewhere else - ex: an older git revision
+   * setting a path to `false` skips that service (ex: it had no .dmno folder at that revision)
+   */
+  dmnoFolderOverrides?: Record<string, string | false>;
   dmnoWorkspace?: DmnoWorkspace;
   cacheMode: CacheMode = true;
+  /** run async validators (expensive checks like testing a connection) while resolving */
+  runAsyncValidation = false;
+  /** default timeout (ms) for each async validator */
+  asyncValidationTimeout?: number;
 
   async getWorkspace() {
     if (this.dmnoWorkspace) return this.dmnoWorkspace;
@@ -104,6 +114,8 @@ export class ConfigLoader {
     if (!this.viteRunner) throw new Error('vite server not ready yet');
 
     // TODO: if not first load, clean up previous workspace? or reuse it somehow?
+    // background cache revalidations from the previous load must finish saving before we load the cache again
+    await this.waitForCacheRevalidations();
     this.dmnoWorkspace = new DmnoWorkspace();
 
     //! keep an eye on this, not sure if in the right place... we want to clear the cache _once_ and then go back to normal
@@ -115,6 +127,12 @@ export class ConfigLoader {
     }
 
     this.dmnoWorkspace.configraph.setCacheMode(this.cacheMode);
+    // in dev mode we'd rather not block on refreshing expired cache items
+    this.dmnoWorkspace.configraph.setCacheStaleWhileRevalidate(this.devMode);
+    this.dmnoWorkspace.configraph.runAsyncValidation = this.runAsyncValidation;
+    if (this.asyncValidationTimeout) {
+      this.dmnoWorkspace.configraph.asyncValidationTimeout = this.asyncValidationTimeout;
+    }
 
 
     beginWorkspaceLoadPlugins(this.dmnoWorkspace);
@@ -125,15 +143,19 @@ export class ConfigLoader {
       const toLoadCount = servicesToLoad.length;
       for (const w of servicesToLoad) {
         if (!w.dmnoFolder) continue;
+        const dmnoFolderOverride = this.dmnoFolderOverrides?.[w.path];
+        if (dmnoFolderOverride === false) continue;
+        const dmnoFolderPath = dmnoFolderOverride || `${w.path}/.dmno`;
         // not sure yet about naming the root file differently?
         // especially in the 1 service context, it may feel odd
         // const configFilePath = `${w.path}/.dmno/${isRoot ? 'workspace-' : ''}config.mts`;
-        const configFilePath = `${w.path}/.dmno/config.mts`;
+        const configFilePath = `${dmnoFolderPath}/config.mts`;
 
         const serviceInitOpts = {
           isRoot: w.isRoot,
           packageName: w.name,
           path: w.path,
+          dmnoFolderPath,
           workspace: this.dmnoWorkspace,
         };
 
@@ -197,13 +219,21 @@ export class ConfigLoader {
     this.dmnoWorkspace.initServicesDag();
     this.dmnoWorkspace.processConfig();
 
-    // TODO: currently this reloads EVERYTHING always. We need to be smarter about it
-    await this.regenerateAllTypeFiles();
     await this.dmnoWorkspace.resolveConfig();
 
+    // TODO: currently this reloads EVERYTHING always. We need to be smarter about it
+    // types are generated after resolving, since derived sensitivity depends on values read during resolution
+    // (types are skipped when loading from elsewhere, since they would not match the real config files)
+    if (!this.dmnoFolderOverrides) await this.regenerateAllTypeFiles();
+
     this.schemaLoaded = true;
   }
 
+  /** wait for any stale cache items being refreshed in the background (dev mode only) to be saved */
+  async waitForCacheRevalidations() {
+    await this.dmnoWorkspace?.configraph.waitForCacheRevalidations();
+  }
+
   private async regenerateAllTypeFiles() {
     if (!this.dmnoWorkspace) return;
     for (const service of this.dmnoWorkspace.allServices) {
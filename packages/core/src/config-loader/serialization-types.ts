@@ -12,7 +12,7 @@ import {
   ConfigraphDataTypeDefinition, ConfigValueResolver,
   SerializedConfigraphEntity,
   SerializedConfigraphPlugin,
-  SerializedConfigraphNode,
+  SerializedConfigraphNode, ErrorLocation, ConfigraphErrorSeverity,
 } from '@dmno/configraph';
 import {
   DmnoService, InjectedDmnoEnv,
@@ -21,6 +21,8 @@ import { DmnoDataTypeMetadata } from '../config-engine/configraph-adapter';
 
 
 export type SerializedWorkspace = {
+  /** errors not related to a specific service or plugin - ex: duplicate ids */
+  schemaErrors?: Array<SerializedDmnoError>,
   services: Record<string, SerializedService>,
   plugins: Record<string, SerializedDmnoPlugin>,
 };
@@ -51,6 +53,8 @@ export type SerializedConfigItem =
     // dmno specific
     isDynamic: boolean,
     isSensitive: boolean,
+    /** sensitive items this item's value was derived from - only set if the item does not set `sensitive` itself */
+    sensitiveDependencyPaths?: Array<string>,
 
   };
 
@@ -95,6 +99,10 @@ export type SerializedDmnoError = {
   name: string,
   message: string,
   isUnexpected: boolean,
+  /** not set by older versions, in which case it should be treated as an error */
+  severity?: ConfigraphErrorSeverity,
+  code?: string,
   cleanedStack?: Array<string>,
   tip?: string,
+  location?: ErrorLocation,
 };
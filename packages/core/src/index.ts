@@ -3,9 +3,12 @@ export * from './config-engine/authoring-utils';
 
 export * from './config-engine/configraph-adapter';
 export * from './config-engine/dmno-plugin';
+export * from './config-engine/override-sources';
 export * from './config-engine/data-types';
 export * from './config-loader/config-server-client';
 export * from './globals-injector/injector';
 
 // used by 1pass plugin - will likely extract eventually
 export * from './lib/dotenv-utils';
+// used by encrypted vault plugin
+export { formatAsDotEnv, type FlattenedEnvEntry } from './cli/lib/config-output-formats';
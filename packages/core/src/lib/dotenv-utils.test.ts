@@ -23,6 +23,7 @@ describe('dotenv parser', () => {
   test('double quotes', dotEnvParserTest('ITEM1="foo"', { ITEM1: 'foo' }));
   test('single quotes', dotEnvParserTest('ITEM1=\'foo\'', { ITEM1: 'foo' }));
   test('backticks', dotEnvParserTest('ITEM1=`foo`', { ITEM1: 'foo' }));
+  test('escaped double quotes', dotEnvParserTest('ITEM1="say \\"hi\\""', { ITEM1: 'say "hi"' }));
   test('pre-comment', dotEnvParserTest('# pre-comment!\nITEM1=foo', { ITEM1: 'foo' }));
   test('post-comment', dotEnvParserTest('ITEM1=foo # post-comment!', { ITEM1: 'foo' }));
   test('post-comment w/o spaces', dotEnvParserTest('ITEM1=foo# post-comment!', { ITEM1: 'foo' }));
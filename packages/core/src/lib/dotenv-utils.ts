@@ -73,10 +73,11 @@ export function parseDotEnvContents(dotEnvStr: string) {
     const maybeQuote = value[0];
     // Remove surrounding quotes
     value = value.replace(/^(['"`])([\s\S]*)\1$/mg, '$2');
-    // Expand newlines if double quoted
+    // Expand newlines and escaped quotes if double quoted
     if (maybeQuote === '"') {
       value = value.replace(/\\n/g, '\n');
       value = value.replace(/\\r/g, '\r');
+      value = value.replace(/\\"/g, '"');
     }
 
     const postComment = match[3]?.substring(1);
@@ -105,28 +106,56 @@ export function loadDotEnvIntoObject(dotEnvStr: string) {
 
 
 
-async function loadDotEnvFile(basePath: string, relativePath: string) {
-  const fileName = relativePath.split('/').pop();
-  const filePath = path.resolve(basePath, relativePath);
-  if (!fileName) throw new Error(`Invalid filePath - ${filePath}`);
-  if (!fileName.startsWith('.env')) throw new Error('file name must start with ".env"');
+/**
+ * interprets the parts of an override file name (split by ".", and without the extension)
+ * for example [env, production, local] for `.env.production.local`
+ * or [overrides, production, local] for `overrides.production.local.json`
+ */
+export function parseOverrideFileNameParts(fileNameParts: Array<string>) {
+  const parts = [...fileNameParts];
+  const fileName = parts.join('.');
 
-  // chop off leading "." and split by "."
-  const fileNameParts = fileName.substring(1).split('.');
-
-  const isOverridesFile = ['local', 'override'].includes(fileNameParts[fileNameParts.length - 1]);
-  if (isOverridesFile) fileNameParts.pop();
+  const isOverridesFile = ['local', 'override'].includes(parts[parts.length - 1]);
+  if (isOverridesFile) parts.pop();
 
-  const isSampleFile = ['sample', 'example'].includes(fileNameParts[fileNameParts.length - 1]);
-  if (isSampleFile) fileNameParts.pop();
+  const isSampleFile = ['sample', 'example'].includes(parts[parts.length - 1]);
+  if (isSampleFile) parts.pop();
 
-  if (fileNameParts.length > 2) throw Error(`Unsure how to interpret filename - ${fileName}`);
+  if (parts.length > 2) throw Error(`Unsure how to interpret filename - ${fileName}`);
 
-  let applyForEnv = fileNameParts[1];
+  let applyForEnv = parts[1] as string | undefined;
   // docker compose gives examples of `.env.dev` and `.env.prod` so we standardize those to normal NODE_ENV values just in case
   if (applyForEnv === 'dev') applyForEnv = 'development';
   if (applyForEnv === 'prod') applyForEnv = 'production';
 
+  return { isOverridesFile, isSampleFile, applyForEnv };
+}
+
+/** precedence of an override file based on its name - higher number wins */
+export function getOverrideFilePrecedence(
+  file: { isSampleFile: boolean, isOverridesFile: boolean, applyForEnv?: string },
+) {
+  if (file.isSampleFile) return 0;
+  // .env
+  if (!file.isOverridesFile && !file.applyForEnv) return 1;
+  // .env.{ENV}
+  if (file.applyForEnv && !file.isOverridesFile) return 2;
+  // .env.local
+  if (!file.applyForEnv && file.isOverridesFile) return 3;
+  // .env.{ENV}.local
+  if (file.applyForEnv && file.isOverridesFile) return 4;
+  throw new Error('unknown type of env file');
+}
+
+async function loadDotEnvFile(basePath: string, relativePath: string) {
+  const fileName = relativePath.split('/').pop();
+  const filePath = path.resolve(basePath, relativePath);
+  if (!fileName) throw new Error(`Invalid filePath - ${filePath}`);
+  if (!fileName.startsWith('.env')) throw new Error('file name must start with ".env"');
+
+  // chop off leading "." and split by "."
+  const { isOverridesFile, isSampleFile, applyForEnv } = parseOverrideFileNameParts(fileName.substring(1).split('.'));
+
   const isGitIgnored = await checkIsFileGitIgnored(filePath);
 
   const rawContents = await fs.promises.readFile(filePath, 'utf8');
@@ -181,17 +210,6 @@ export async function loadServiceDotEnvFiles(
     return await loadDotEnvFile(servicePath, relativePath);
   });
 
-  const sortedDotEnvFiles = _.sortBy(dotEnvFiles, (d) => {
-    if (d.isSampleFile) return 0;
-    // .env
-    if (!d.isOverridesFile && !d.applyForEnv) return 1;
-    // .env.{ENV}
-    if (d.applyForEnv && !d.isOverridesFile) return 2;
-    // .env.local
-    if (!d.applyForEnv && d.isOverridesFile) return 3;
-    // .env.{ENV}.local
-    if (d.applyForEnv && d.isOverridesFile) return 4;
-    throw new Error('unknown type of env file');
-  });
+  const sortedDotEnvFiles = _.sortBy(dotEnvFiles, getOverrideFilePrecedence);
   return sortedDotEnvFiles;
 }
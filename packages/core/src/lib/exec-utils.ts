@@ -1,4 +1,5 @@
-import { exec } from 'node:child_process';
+import { exec, execFile } from 'node:child_process';
 import { promisify } from 'node:util';
 
 export const asyncExec = promisify(exec);
+export const asyncExecFile = promisify(execFile);
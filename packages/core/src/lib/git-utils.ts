@@ -1,4 +1,6 @@
-import { asyncExec } from './exec-utils';
+import fs from 'node:fs';
+import path from 'node:path';
+import { asyncExec, asyncExecFile } from './exec-utils';
 
 export async function checkIsFileGitIgnored(path: string, warnIfNotGitRepo = false) {
   try {
@@ -7,6 +9,8 @@ export async function checkIsFileGitIgnored(path: string, warnIfNotGitRepo = fal
   } catch (err) {
     // `git check-ignore -q` exits with code 1 but no other error if is not ignored
     if ((err as any).stderr === '') return false;
+    // ex: a temp copy of a folder (see `dmno diff --ref`)
+    if ((err as any).stderr.includes('outside repository')) return false;
     if ((err as any).stderr.includes('not a git repository')) {
       if (warnIfNotGitRepo) {
         // eslint-disable-next-line no-console
@@ -18,3 +22,42 @@ export async function checkIsFileGitIgnored(path: string, warnIfNotGitRepo = fal
     throw err;
   }
 }
+
+/** checks a ref (branch, tag, sha, etc) exists and returns the full commit sha */
+export async function resolveGitRef(ref: string, cwd: string) {
+  try {
+    const { stdout } = await asyncExecFile('git', ['rev-parse', '--verify', '--quiet', `${ref}^{commit}`], { cwd });
+    return stdout.trim();
+  } catch (err) {
+    return undefined;
+  }
+}
+
+/**
+ * writes the contents of a folder at a specific git ref into another folder
+ * @returns the number of files written (0 if the folder did not exist at that ref)
+ */
+export async function exportGitFolderAtRef(ref: string, folderPath: string, destPath: string) {
+  // paths are relative to cwd, since we run git from within the folder
+  const { stdout } = await asyncExecFile('git', ['ls-tree', '-r', '--name-only', ref, '.'], { cwd: folderPath });
+  const filePaths = stdout.split('\n').filter(Boolean);
+  for (const filePath of filePaths) {
+    const { stdout: fileContents } = await asyncExecFile('git', ['show', `${ref}:./${filePath}`], {
+      cwd: folderPath,
+      encoding: 'buffer',
+      maxBuffer: 50 * 1024 * 1024,
+    });
+    const destFilePath = path.join(destPath, filePath);
+    await fs.promises.mkdir(path.dirname(destFilePath), { recursive: true });
+    await fs.promises.writeFile(destFilePath, fileContents);
+  }
+  return filePaths.length;
+}
+
+/** lists untracked files within a folder that are git-ignored (ex: `.env.local`), relative to that folder */
+export async function listGitIgnoredFiles(folderPath: string) {
+  const { stdout } = await asyncExecFile('git', ['ls-files', '--others', '--ignored', '--exclude-standard', '.'], {
+    cwd: folderPath,
+  });
+  return stdout.split('\n').filter(Boolean);
+}
@@ -0,0 +1,75 @@
+import { expect, test, describe } from 'vitest';
+import {
+  decrypt, encrypt, generateDmnoEncryptionKeyString, generateRecipientKeyPair, importDmnoEncryptionKeyString,
+  parseRecipientKeyString, unwrapKeyForRecipient, wrapKeyForRecipient,
+} from './index';
+
+describe('dmno encryption keys', () => {
+  test('values can be encrypted and decrypted', async () => {
+    const keyStr = await generateDmnoEncryptionKeyString('test');
+    const { key, keyName } = await importDmnoEncryptionKeyString(keyStr);
+    expect(keyName).toBe('test');
+    const encrypted = await encrypt(key, { foo: 'bar' }, keyName);
+    expect(await decrypt(key, encrypted, keyName)).toEqual({ foo: 'bar' });
+  });
+
+  test('decrypting with the wrong key fails', async () => {
+    const { key } = await importDmnoEncryptionKeyString(await generateDmnoEncryptionKeyString('test'));
+    const { key: otherKey } = await importDmnoEncryptionKeyString(await generateDmnoEncryptionKeyString('test'));
+    const encrypted = await encrypt(key, 'secret');
+    await expect(decrypt(otherKey, encrypted)).rejects.toThrow();
+  });
+});
+
+describe('recipient keys', () => {
+  test.each(['X25519', 'RSA-OAEP'] as const)('%s - keys can be wrapped and unwrapped', async (algorithm) => {
+    const keyStr = await generateDmnoEncryptionKeyString('test');
+    const { publicKey, privateKey } = await generateRecipientKeyPair('alice', algorithm);
+    expect(parseRecipientKeyString(publicKey)).toMatchObject({ isPrivate: false, recipientName: 'alice', algorithm });
+    expect(parseRecipientKeyString(privateKey)).toMatchObject({ isPrivate: true, recipientName: 'alice', algorithm });
+
+    const wrappedKey = await wrapKeyForRecipient(keyStr, publicKey);
+    expect(wrappedKey).not.toContain(keyStr);
+    expect(await unwrapKeyForRecipient(wrappedKey, privateKey)).toBe(keyStr);
+  });
+
+  test.each(['X25519', 'RSA-OAEP'] as const)('%s - other recipients cannot unwrap the key', async (algorithm) => {
+    const keyStr = await generateDmnoEncryptionKeyString('test');
+    const alice = await generateRecipientKeyPair('alice', algorithm);
+    const bob = await generateRecipientKeyPair('bob', algorithm);
+    const wrappedKey = await wrapKeyForRecipient(keyStr, alice.publicKey);
+    await expect(unwrapKeyForRecipient(wrappedKey, bob.privateKey)).rejects.toThrow();
+  });
+
+  test('X25519 - each wrap uses a new ephemeral key', async () => {
+    const keyStr = await generateDmnoEncryptionKeyString('test');
+    const { publicKey, privateKey } = await generateRecipientKeyPair('alice');
+    const wrappedKey1 = await wrapKeyForRecipient(keyStr, publicKey);
+    const wrappedKey2 = await wrapKeyForRecipient(keyStr, publicKey);
+    expect(wrappedKey1.split('.')[0]).not.toBe(wrappedKey2.split('.')[0]);
+    expect(await unwrapKeyForRecipient(wrappedKey2, privateKey)).toBe(keyStr);
+  });
+
+  test('X25519 - swapping in a different ephemeral public key fails', async () => {
+    const keyStr = await generateDmnoEncryptionKeyString('test');
+    const { publicKey, privateKey } = await generateRecipientKeyPair('alice');
+    const [, encryptedKey] = (await wrapKeyForRecipient(keyStr, publicKey)).split('.');
+    const [otherEphemeralPublicKey] = (await wrapKeyForRecipient(keyStr, publicKey)).split('.');
+    await expect(unwrapKeyForRecipient(`${otherEphemeralPublicKey}.${encryptedKey}`, privateKey)).rejects.toThrow();
+  });
+
+  test('keys must be wrapped with a public key and unwrapped with a private key', async () => {
+    const keyStr = await generateDmnoEncryptionKeyString('test');
+    const { publicKey, privateKey } = await generateRecipientKeyPair('alice');
+    await expect(wrapKeyForRecipient(keyStr, privateKey)).rejects.toThrow('public key');
+    const wrappedKey = await wrapKeyForRecipient(keyStr, publicKey);
+    await expect(unwrapKeyForRecipient(wrappedKey, publicKey)).rejects.toThrow('private key');
+  });
+
+  test('invalid recipient keys are rejected', async () => {
+    await expect(generateRecipientKeyPair('a//b')).rejects.toThrow('separator');
+    expect(() => parseRecipientKeyString('not-a-key')).toThrow('must start with');
+    expect(() => parseRecipientKeyString('dmno-public//alice//DSA//abc')).toThrow('algorithm');
+    expect(() => parseRecipientKeyString('dmno-public//alice//X25519')).toThrow('missing key data');
+  });
+});
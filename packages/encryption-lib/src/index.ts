@@ -97,3 +97,163 @@ export async function decrypt(key: crypto.webcrypto.CryptoKey, base64EncryptedVa
   return decryptedValue;
 }
 
+
+
+// Recipient keys ---------------------------------------------------------------------------------
+// asymmetric key pairs that can be used to wrap a (symmetric) dmno encryption key for a specific recipient
+
+export const RECIPIENT_KEY_ALGORITHMS = ['X25519', 'RSA-OAEP'] as const;
+export type RecipientKeyAlgorithm = typeof RECIPIENT_KEY_ALGORITHMS[number];
+
+const PUBLIC_KEY_PREFIX = 'dmno-public';
+// binds the derived wrapping key to its purpose - it is combined with both public keys
+const X25519_WRAPPING_KEY_CONTEXT = 'dmno-recipient-key-wrap-v1';
+const PRIVATE_KEY_PREFIX = 'dmno-private';
+const RSA_KEY_PARAMS = {
+  name: 'RSA-OAEP',
+  modulusLength: 4096,
+  publicExponent: new Uint8Array([1, 0, 1]),
+  hash: 'SHA-256',
+};
+
+function toBase64Url(data: ArrayBuffer) {
+  return Buffer.from(data).toString('base64url');
+}
+function fromBase64Url(str: string) {
+  return new Uint8Array(Buffer.from(str, 'base64url'));
+}
+
+export async function generateRecipientKeyPair(
+  recipientName: string,
+  algorithm: RecipientKeyAlgorithm = 'X25519',
+) {
+  if (recipientName.includes(KEY_SPLIT_SEP)) {
+    throw new Error(`recipient name must not include separator "${KEY_SPLIT_SEP}"`);
+  }
+  if (!RECIPIENT_KEY_ALGORITHMS.includes(algorithm)) {
+    throw new Error(`recipient key algorithm must be one of ${RECIPIENT_KEY_ALGORITHMS.join(', ')}`);
+  }
+  const keyPair = algorithm === 'X25519'
+    ? await crypto.subtle.generateKey({ name: 'X25519' }, true, ['deriveBits']) as crypto.webcrypto.CryptoKeyPair
+    : await crypto.subtle.generateKey(RSA_KEY_PARAMS, true, ['encrypt', 'decrypt']);
+
+  const publicKeyData = await crypto.subtle.exportKey('spki', keyPair.publicKey);
+  const privateKeyData = await crypto.subtle.exportKey('pkcs8', keyPair.privateKey);
+  return {
+    publicKey: [PUBLIC_KEY_PREFIX, recipientName, algorithm, toBase64Url(publicKeyData)].join(KEY_SPLIT_SEP),
+    privateKey: [PRIVATE_KEY_PREFIX, recipientName, algorithm, toBase64Url(privateKeyData)].join(KEY_SPLIT_SEP),
+  };
+}
+
+/**
+ * parses a recipient public or private key string
+ * format is `dmno-public//recipientName//algorithm//keyData` (or `dmno-private//...`)
+ */
+export function parseRecipientKeyString(keyStr: string) {
+  const [prefix, recipientName, algorithm, keyData] = keyStr.split(KEY_SPLIT_SEP);
+  if (prefix !== PUBLIC_KEY_PREFIX && prefix !== PRIVATE_KEY_PREFIX) {
+    throw new Error(`recipient keys must start with ${PUBLIC_KEY_PREFIX}${KEY_SPLIT_SEP} or ${PRIVATE_KEY_PREFIX}${KEY_SPLIT_SEP}`);
+  }
+  if (!recipientName) throw new Error('recipient keys must have a recipient name');
+  if (!RECIPIENT_KEY_ALGORITHMS.includes(algorithm as RecipientKeyAlgorithm)) {
+    throw new Error(`recipient key algorithm must be one of ${RECIPIENT_KEY_ALGORITHMS.join(', ')}`);
+  }
+  if (!keyData) throw new Error('recipient key is missing key data');
+  return {
+    isPrivate: prefix === PRIVATE_KEY_PREFIX,
+    recipientName,
+    algorithm: algorithm as RecipientKeyAlgorithm,
+    keyData: fromBase64Url(keyData),
+  };
+}
+
+export function isRecipientPrivateKeyString(keyStr: string) {
+  return keyStr.startsWith(`${PRIVATE_KEY_PREFIX}${KEY_SPLIT_SEP}`);
+}
+
+/**
+ * derives the AES-GCM key used to wrap a key for an X25519 recipient
+ * the raw shared secret is not used directly - it is passed through HKDF, along with both public keys
+ */
+async function deriveX25519WrappingKey(
+  privateKey: crypto.webcrypto.CryptoKey,
+  publicKey: crypto.webcrypto.CryptoKey,
+  ephemeralPublicKeyData: Uint8Array,
+  recipientPublicKeyData: Uint8Array,
+) {
+  const sharedSecret = await crypto.subtle.deriveBits({ name: 'X25519', public: publicKey } as any, privateKey, 256);
+  const hkdfKey = await crypto.subtle.importKey('raw', sharedSecret, 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: new Uint8Array(),
+      info: Buffer.concat([
+        Buffer.from(X25519_WRAPPING_KEY_CONTEXT),
+        ephemeralPublicKeyData,
+        recipientPublicKeyData,
+      ]),
+    },
+    hkdfKey,
+    { name: ENCRYPTION_ALGO, length: 256 },
+    false,
+    KEY_USAGES,
+  );
+}
+
+/**
+ * encrypts (wraps) a dmno encryption key string so only the holder of the recipient's private key can read it
+ * - X25519 uses an ephemeral key pair to derive a one-off AES-GCM key, the ephemeral public key is included
+ * - RSA-OAEP encrypts the key directly
+ */
+export async function wrapKeyForRecipient(dmnoKeyStr: string, publicKeyStr: string) {
+  const { isPrivate, algorithm, keyData } = parseRecipientKeyString(publicKeyStr);
+  if (isPrivate) throw new Error('keys must be wrapped using a public key');
+
+  if (algorithm === 'X25519') {
+    const publicKey = await crypto.subtle.importKey('spki', keyData, { name: 'X25519' }, true, []);
+    const ephemeralKeyPair = await crypto.subtle.generateKey(
+      { name: 'X25519' },
+      true,
+      ['deriveBits'],
+    ) as crypto.webcrypto.CryptoKeyPair;
+    const ephemeralPublicKeyData = await crypto.subtle.exportKey('raw', ephemeralKeyPair.publicKey);
+    const wrappingKey = await deriveX25519WrappingKey(
+      ephemeralKeyPair.privateKey,
+      publicKey,
+      new Uint8Array(ephemeralPublicKeyData),
+      new Uint8Array(await crypto.subtle.exportKey('raw', publicKey)),
+    );
+    return `${toBase64Url(ephemeralPublicKeyData)}.${await encrypt(wrappingKey, dmnoKeyStr)}`;
+  } else {
+    const publicKey = await crypto.subtle.importKey('spki', keyData, RSA_KEY_PARAMS, false, ['encrypt']);
+    const wrapped = await crypto.subtle.encrypt({ name: 'RSA-OAEP' }, publicKey, new TextEncoder().encode(dmnoKeyStr));
+    return toBase64Url(wrapped);
+  }
+}
+
+/** decrypts (unwraps) a dmno encryption key string that was wrapped using `wrapKeyForRecipient` */
+export async function unwrapKeyForRecipient(wrappedKey: string, privateKeyStr: string): Promise<string> {
+  const { isPrivate, algorithm, keyData } = parseRecipientKeyString(privateKeyStr);
+  if (!isPrivate) throw new Error('keys must be unwrapped using a private key');
+
+  if (algorithm === 'X25519') {
+    const [ephemeralPublicKeyStr, encryptedKey] = wrappedKey.split('.');
+    const privateKey = await crypto.subtle.importKey('pkcs8', keyData, { name: 'X25519' }, true, ['deriveBits']);
+    const ephemeralPublicKeyData = fromBase64Url(ephemeralPublicKeyStr);
+    const ephemeralPublicKey = await crypto.subtle.importKey('raw', ephemeralPublicKeyData, { name: 'X25519' }, false, []);
+    // the recipient's public key is included in the exported private key
+    const { x: recipientPublicKeyStr } = await crypto.subtle.exportKey('jwk', privateKey);
+    const wrappingKey = await deriveX25519WrappingKey(
+      privateKey,
+      ephemeralPublicKey,
+      ephemeralPublicKeyData,
+      fromBase64Url(recipientPublicKeyStr!),
+    );
+    return decrypt(wrappingKey, encryptedKey);
+  } else {
+    const privateKey = await crypto.subtle.importKey('pkcs8', keyData, RSA_KEY_PARAMS, false, ['decrypt']);
+    const unwrapped = await crypto.subtle.decrypt({ name: 'RSA-OAEP' }, privateKey, fromBase64Url(wrappedKey));
+    return new TextDecoder().decode(unwrapped);
+  }
+}
@@ -0,0 +1,82 @@
+import _ from 'lodash-es';
+import { kleur, createDmnoPluginCliCommand, Option } from 'dmno/cli-lib';
+import { password } from '@inquirer/prompts';
+
+import { VAULT_ITEM_METADATA_KEYS, VaultFileItem, getVaultFilePath } from '../lib/vault-file';
+
+export type PluginCliCtx = Parameters<Parameters<typeof createDmnoPluginCliCommand>[0]['handler']>[0];
+
+export function createEnvOption() {
+  return new Option('--env <env>', 'which environment vault to use - defaults to the current environment');
+}
+
+type ItemMetadataOpts = Partial<Pick<VaultFileItem, typeof VAULT_ITEM_METADATA_KEYS[number]>>;
+
+export function createItemMetadataOptions() {
+  return [
+    new Option('--note <note>', 'note to store alongside the item (not encrypted)'),
+    new Option('--owner <owner>', 'who is responsible for the item'),
+    new Option('--expires-at <date>', 'when the item expires and should be rotated, ex: 2025-06-30'),
+  ];
+}
+
+/** sets item metadata from cli options - passing an empty string removes the field */
+export function applyItemMetadata(item: VaultFileItem, opts: ItemMetadataOpts) {
+  if (opts.expiresAt && Number.isNaN(Date.parse(opts.expiresAt))) {
+    throw new Error(`Invalid expiry date "${opts.expiresAt}"`);
+  }
+  for (const metadataKey of VAULT_ITEM_METADATA_KEYS) {
+    if (opts[metadataKey] === undefined) continue;
+    if (opts[metadataKey] === '') delete item[metadataKey];
+    else item[metadataKey] = opts[metadataKey];
+  }
+}
+
+/** formats item metadata for display, highlighting expired items */
+export function formatItemMetadata(item: VaultFileItem) {
+  const isExpired = item.expiresAt && new Date(item.expiresAt) < new Date();
+  return _.compact([
+    item.owner && kleur.cyan(`owner: ${item.owner}`),
+    item.expiresAt && (isExpired
+      ? kleur.red().bold(`expired ${item.expiresAt}`)
+      : kleur.gray(`expires ${item.expiresAt}`)),
+    item.note && kleur.gray(`note: ${item.note}`),
+  ]).join(kleur.gray(' | '));
+}
+
+/** keys are named using the vault name, environment, and creation date */
+export function getNewKeyName(vaultName: string, env?: string) {
+  return _.compact([vaultName, env, new Date().toISOString().substring(0, 10)]).join('-');
+}
+
+/**
+ * gets the vault name/path for the selected environment (via `--env`) or the current environment
+ * along with a fn to get the key for that vault
+ */
+export function getVaultCliContext(ctx: PluginCliCtx, opts: { env?: string }) {
+  const vaultName = (ctx.plugin.inputNodes.name.resolvedValue as string | undefined) || 'default';
+  const currentEnv = ctx.plugin.inputNodes.environment?.resolvedValue as string | undefined;
+  const env = opts.env ?? currentEnv;
+  const primaryService = ctx.workspace.services[ctx.plugin.parentEntityId];
+  const vaultPath = getVaultFilePath(primaryService.path, vaultName, env);
+
+  // the plugin key input is only the key for the current environment
+  const isCurrentEnv = env === currentEnv;
+  const keyNode = ctx.plugin.inputNodes.key;
+
+  return {
+    vaultName,
+    env,
+    isCurrentEnv,
+    primaryService,
+    vaultPath,
+    vaultKeyIsSet: isCurrentEnv ? !!(keyNode.isResolved && keyNode.isValid) : true,
+    async getKeyStr() {
+      if (isCurrentEnv) {
+        if (!_.isString(keyNode.resolvedValue)) throw new Error('key must be a string');
+        return keyNode.resolvedValue;
+      }
+      return password({ message: `Enter the vault key for the "${env}" environment` });
+    },
+  };
+}
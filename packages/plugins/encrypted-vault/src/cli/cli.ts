@@ -2,7 +2,12 @@ import { createDmnoPluginCli } from 'dmno/cli-lib';
 import { SetupCommand } from './setup.command';
 import { AddItemCommand, UpdateItemCommand, UpsertItemCommand } from './upsert.command';
 import { DeleteItemCommand } from './delete.command';
+import { ListItemsCommand } from './list.command';
+import { ImportItemsCommand } from './import.command';
+import { ExportItemsCommand } from './export.command';
+import { MergeDriverCommand } from './merge-driver.command';
 import { RotateKeyCommand } from './rotate-key.command';
+import { AddRecipientCommand, CreateRecipientKeyCommand, RemoveRecipientCommand } from './recipients.command';
 
 const program = createDmnoPluginCli({
   commands: [
@@ -11,7 +16,14 @@ const program = createDmnoPluginCli({
     AddItemCommand,
     UpdateItemCommand,
     DeleteItemCommand,
+    ListItemsCommand,
+    ImportItemsCommand,
+    ExportItemsCommand,
     RotateKeyCommand,
+    CreateRecipientKeyCommand,
+    AddRecipientCommand,
+    RemoveRecipientCommand,
+    MergeDriverCommand,
   ],
 });
 
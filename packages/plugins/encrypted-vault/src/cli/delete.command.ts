@@ -1,14 +1,12 @@
-import fs from 'node:fs';
 import { execSync } from 'node:child_process';
 import _ from 'lodash-es';
-import { parse as parseJSONC } from 'jsonc-parser';
 import { kleur, createDmnoPluginCliCommand } from 'dmno/cli-lib';
 
 import { confirm, input, select } from '@inquirer/prompts';
 
-import { encrypt, importDmnoEncryptionKeyString } from '@dmno/encryption-lib';
-import { VaultFile } from '../lib/vault-file';
+import { readVaultFile, writeVaultFile } from '../lib/vault-file';
 import { splitFullResolverPath } from '../lib/helpers';
+import { createEnvOption, getVaultCliContext } from './cli-helpers';
 
 
 
@@ -23,20 +21,19 @@ export const DeleteItemCommand = createDmnoPluginCliCommand({
       command: 'dmno plugin -p vault -- delete',
       description: 'delete an item from the vault',
     },
+    {
+      command: 'dmno plugin -p vault -- delete --env staging',
+      description: 'delete an item from the staging vault',
+    },
+  ],
+  options: [
+    createEnvOption(),
   ],
-  async handler(ctx, opts, command) {
+  async handler(ctx, opts: { env?: string }, command) {
     // TODO: check plugin is in valid state
-    const vaultName = ctx.plugin.inputNodes.name.resolvedValue || 'default';
-    const primaryService = ctx.workspace.services[ctx.plugin.parentEntityId];
-
-    const vaultPath = `${primaryService.path}/.dmno/${vaultName}.vault.json`;
-    const vaultFileExists = fs.existsSync(vaultPath);
-
-    const { keyName, key } = await importDmnoEncryptionKeyString(ctx.plugin.inputNodes.key.resolvedValue as string);
+    const { vaultPath } = getVaultCliContext(ctx, opts);
 
-    // TODO: we'll want to preserve comments, looks possible with the jsonc tool we are using!
-    const vaultRaw = fs.readFileSync(vaultPath);
-    const vaultObj = parseJSONC(vaultRaw.toString()) as VaultFile;
+    const vaultObj = await readVaultFile(vaultPath);
 
 
     // get list of items from the schema (or from the plugin directly somehow...)
@@ -88,7 +85,7 @@ export const DeleteItemCommand = createDmnoPluginCliCommand({
 
     delete vaultObj.items[vaultItemToDelete];
 
-    fs.writeFileSync(vaultPath, JSON.stringify(vaultObj, null, 2));
+    await writeVaultFile(vaultPath, vaultObj);
 
     process.exit(0);
   },
@@ -0,0 +1,84 @@
+import fs from 'node:fs';
+import _ from 'lodash-es';
+import { formatAsDotEnv, type FlattenedEnvEntry } from 'dmno';
+import { kleur, createDmnoPluginCliCommand, Option } from 'dmno/cli-lib';
+
+import { confirm } from '@inquirer/prompts';
+
+import { decrypt } from '@dmno/encryption-lib';
+import { importVaultKey, readVaultFile } from '../lib/vault-file';
+import { splitFullResolverPath } from '../lib/helpers';
+import { getEnvKeyForItemPath } from '../lib/vault-import-export';
+import { createEnvOption, getVaultCliContext } from './cli-helpers';
+
+export const ExportItemsCommand = createDmnoPluginCliCommand({
+  name: 'export',
+  summary: 'export decrypted vault items as a .env file',
+  description: `
+  Decrypts all items in the vault and exports them in .env format, keyed by item path (nested paths use "__").
+  The exported file can be imported back in using \`import --from-env-file\`.
+  This is meant for break-glass scenarios - be careful where you put the output!
+`,
+  examples: [
+    {
+      command: 'dmno plugin -p vault -- export --env production',
+      description: 'print all decrypted items from the production vault',
+    },
+    {
+      command: 'dmno plugin -p vault -- export -o .env.recovered',
+      description: 'write all decrypted items to a .env file',
+    },
+  ],
+  options: [
+    new Option('-o, --output <path>', 'write to a file, rather than stdout'),
+    createEnvOption(),
+  ],
+  async handler(ctx, opts: { output?: string, env?: string }) {
+    const { vaultPath, getKeyStr } = getVaultCliContext(ctx, opts);
+    const vaultObj = await readVaultFile(vaultPath);
+    const { keyName, key } = await importVaultKey(vaultObj, await getKeyStr());
+
+    // status messages go to stderr, so stdout can be piped
+    const entries: Array<FlattenedEnvEntry> = [];
+    for (const vaultItemKey of _.keys(vaultObj.items).sort()) {
+      const { serviceName, itemPath } = splitFullResolverPath(vaultItemKey);
+      if (ctx.selectedServiceName && serviceName !== ctx.selectedServiceName) continue;
+
+      // nested item paths (ex: `DB.PASSWORD`) are not valid env var keys, so we use `DB__PASSWORD`
+      const envKey = getEnvKeyForItemPath(itemPath);
+      // the same item path may exist in multiple services or resolver branches
+      if (_.some(entries, (e) => e.key === envKey)) {
+        console.warn(kleur.yellow(`Skipped "${vaultItemKey}" - "${envKey}" was already exported from another item`));
+        continue;
+      }
+      const rawValue = await decrypt(key, vaultObj.items[vaultItemKey].encryptedValue, keyName);
+      entries.push({
+        key: envKey,
+        value: _.isString(rawValue) ? rawValue : JSON.stringify(rawValue),
+        isSensitive: true,
+      });
+    }
+
+    const dotEnvStr = formatAsDotEnv(entries);
+    if (!opts.output) {
+      console.log(dotEnvStr);
+      process.exit(0);
+    }
+
+    if (fs.existsSync(opts.output)) {
+      const overwrite = await confirm({ message: `${opts.output} already exists - overwrite it?`, default: false });
+      if (!overwrite) {
+        console.warn('aborting...');
+        process.exit(0);
+      }
+    }
+    fs.writeFileSync(opts.output, [
+      '# 🛑 DO NOT COMMIT TO VERSION CONTROL - contains decrypted secrets exported from an encrypted vault',
+      dotEnvStr,
+      '',
+    ].join('\n'));
+    console.warn(kleur.yellow(`🔓 ${entries.length} decrypted item(s) written to ${opts.output} - delete it when you are done!`));
+
+    process.exit(0);
+  },
+});
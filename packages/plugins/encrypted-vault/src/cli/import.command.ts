@@ -0,0 +1,177 @@
+import fs from 'node:fs';
+import _ from 'lodash-es';
+import { parseDotEnvContents } from 'dmno';
+import { kleur, createDmnoPluginCliCommand, Option } from 'dmno/cli-lib';
+
+import { checkbox, confirm } from '@inquirer/prompts';
+
+import { encrypt } from '@dmno/encryption-lib';
+import { importVaultKey, readVaultFile, writeVaultFile } from '../lib/vault-file';
+import { getImportDiff, matchImportKeys } from '../lib/vault-import-export';
+import { splitFullResolverPath } from '../lib/helpers';
+import { PluginCliCtx, createEnvOption, getVaultCliContext } from './cli-helpers';
+
+/** finds a (possibly nested) config item within the serialized workspace */
+function getConfigItem(ctx: PluginCliCtx, vaultKey: string) {
+  const { serviceName, itemPath } = splitFullResolverPath(vaultKey);
+  const [rootKey, ...childKeys] = itemPath.split('.');
+  let item = ctx.workspace.services[serviceName]?.configNodes[rootKey];
+  for (const childKey of childKeys) item = item?.children[childKey];
+  return item;
+}
+
+async function loadImportValues(ctx: PluginCliCtx, opts: {
+  fromEnvFile?: string,
+  fromJson?: string,
+  fromResolved?: boolean,
+}): Promise<Record<string, any>> {
+  if (opts.fromEnvFile) {
+    const dotEnvItems = parseDotEnvContents(fs.readFileSync(opts.fromEnvFile, 'utf-8'));
+    return _.fromPairs(dotEnvItems.map((i) => [i.key, i.value]));
+  } else if (opts.fromJson) {
+    // can be passed a file path or a JSON string directly
+    const jsonStr = opts.fromJson.trim().startsWith('{') ? opts.fromJson : fs.readFileSync(opts.fromJson, 'utf-8');
+    const importObj = JSON.parse(jsonStr);
+    if (!_.isPlainObject(importObj)) throw new Error('JSON to import must be an object');
+    return importObj;
+  } else {
+    // items currently resolved to a value - usually via overrides from .env files or env vars
+    const itemsWithValues = _.filter(ctx.plugin.usedByConfigItemResolverPaths, (vaultKey) => {
+      const item = getConfigItem(ctx, vaultKey);
+      return item?.resolvedValue !== undefined && item?.resolvedValue !== null;
+    });
+    if (!itemsWithValues.length) return {};
+    const selectedVaultKeys = await checkbox({
+      message: 'Which items would you like to import the current values of?',
+      choices: itemsWithValues.map((vaultKey) => {
+        const { serviceName, itemPath, resolverBranchIdPath } = splitFullResolverPath(vaultKey);
+        return {
+          value: vaultKey,
+          name: _.compact([serviceName, itemPath, resolverBranchIdPath]).join(' > '),
+          checked: true,
+        };
+      }),
+    });
+    return _.fromPairs(selectedVaultKeys.map((vaultKey) => [vaultKey, getConfigItem(ctx, vaultKey)!.resolvedValue]));
+  }
+}
+
+export const ImportItemsCommand = createDmnoPluginCliCommand({
+  name: 'import',
+  summary: 'bulk import items into your encrypted vault file',
+  description: `
+  Imports multiple items at once, from a .env file, a JSON object, or the current resolved values of your config.
+  Every imported key must map to a config item wired up to this vault - either by item path or full vault key.
+  A diff against the existing vault items is shown before anything is written.
+`,
+  examples: [
+    {
+      command: 'dmno plugin -p vault -- import --from-env-file .env.production --dry-run',
+      description: 'show what would change if importing values from a .env file',
+    },
+    {
+      command: 'dmno plugin -p vault -- import --from-json secrets.json --env production',
+      description: 'import values from a JSON file into the production vault',
+    },
+    {
+      command: 'dmno plugin -p vault -- import --from-resolved',
+      description: 'import the current values of selected items (ex: from .env.local)',
+    },
+  ],
+  options: [
+    new Option('--from-env-file <path>', 'import from a .env file'),
+    new Option('--from-json <pathOrJson>', 'import from a JSON file, or a JSON object string'),
+    new Option('--from-resolved', 'import the current resolved values of selected items'),
+    new Option('--dry-run', 'show the diff against the existing vault items, without writing anything'),
+    new Option('--ignore-unmatched', 'skip keys that do not map to an item wired up to this vault, rather than failing'),
+    createEnvOption(),
+  ],
+  async handler(ctx, opts: {
+    fromEnvFile?: string,
+    fromJson?: string,
+    fromResolved?: boolean,
+    dryRun?: boolean,
+    ignoreUnmatched?: boolean,
+    env?: string,
+  }) {
+    if (_.compact([opts.fromEnvFile, opts.fromJson, opts.fromResolved]).length !== 1) {
+      console.log('You must select a single source to import from - `--from-env-file`, `--from-json`, or `--from-resolved`');
+      process.exit(1);
+    }
+
+    const { vaultPath, getKeyStr } = getVaultCliContext(ctx, opts);
+    const vaultObj = await readVaultFile(vaultPath);
+    const { keyName, key } = await importVaultKey(vaultObj, await getKeyStr());
+
+    const importValues = await loadImportValues(ctx, opts);
+    if (_.isEmpty(importValues)) {
+      console.log('No items found to import');
+      process.exit(0);
+    }
+
+    let usedByPaths = ctx.plugin.usedByConfigItemResolverPaths || [];
+    if (ctx.selectedServiceName) {
+      usedByPaths = _.filter(usedByPaths, (p) => splitFullResolverPath(p).serviceName === ctx.selectedServiceName);
+    }
+    const { matched, unmatched, ambiguous } = matchImportKeys(usedByPaths, _.keys(importValues));
+    if (unmatched.length) {
+      console.log(kleur.red().bold('These keys do not map to a config item wired up to this vault:'));
+      unmatched.forEach((k) => console.log(kleur.red(`- ${k}`)));
+    }
+    if (!_.isEmpty(ambiguous)) {
+      console.log(kleur.red().bold('These keys map to multiple items - use the full vault key instead:'));
+      _.each(ambiguous, (vaultKeys, k) => console.log(kleur.red(`- ${k} (${vaultKeys.join(', ')})`)));
+    }
+    if (!_.isEmpty(ambiguous) || (unmatched.length && !opts.ignoreUnmatched)) {
+      if (unmatched.length) console.log(kleur.gray('Use `--ignore-unmatched` to skip unmatched keys'));
+      process.exit(1);
+    }
+
+    const importDiff = await getImportDiff(vaultObj, key, matched, importValues);
+    const changedVaultKeys: Array<string> = [];
+    console.log('');
+    for (const { vaultKey, status } of importDiff) {
+      const { serviceName, itemPath, resolverBranchIdPath } = splitFullResolverPath(vaultKey);
+      const itemLabel = _.compact([serviceName, itemPath, resolverBranchIdPath]).join(' > ');
+      if (status === 'added') {
+        console.log(kleur.green(`+ ${itemLabel}`));
+        changedVaultKeys.push(vaultKey);
+      } else if (status === 'changed') {
+        const { updatedAt } = vaultObj.items[vaultKey];
+        console.log(kleur.yellow(`~ ${itemLabel}`) + kleur.gray(` last updated ${updatedAt.substring(0, 10)}`));
+        changedVaultKeys.push(vaultKey);
+      } else {
+        console.log(kleur.gray(`= ${itemLabel}`));
+      }
+    }
+    console.log('');
+
+    if (!changedVaultKeys.length) {
+      console.log('All items are already up to date');
+      process.exit(0);
+    }
+    if (opts.dryRun) {
+      console.log(`Dry run - ${changedVaultKeys.length} item(s) would be written`);
+      process.exit(0);
+    }
+
+    const userConfirmed = await confirm({ message: `Write ${changedVaultKeys.length} item(s) to the vault?` });
+    if (!userConfirmed) {
+      console.log('aborting...');
+      process.exit(0);
+    }
+
+    const vaultKeyToImportKey = _.invert(matched);
+    for (const vaultKey of changedVaultKeys) {
+      vaultObj.items[vaultKey] = {
+        ...vaultObj.items[vaultKey],
+        encryptedValue: await encrypt(key, importValues[vaultKeyToImportKey[vaultKey]], keyName),
+        updatedAt: new Date().toISOString(),
+      };
+    }
+    await writeVaultFile(vaultPath, vaultObj);
+    console.log(`✅ ${changedVaultKeys.length} item(s) written to the vault`);
+
+    process.exit(0);
+  },
+});
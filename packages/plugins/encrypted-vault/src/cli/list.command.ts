@@ -0,0 +1,108 @@
+import _ from 'lodash-es';
+import { kleur, createDmnoPluginCliCommand, Option } from 'dmno/cli-lib';
+
+import { VaultFile, findVaultFiles, readVaultFile } from '../lib/vault-file';
+import { splitFullResolverPath } from '../lib/helpers';
+import { formatItemMetadata, getVaultCliContext } from './cli-helpers';
+
+const NO_ENV_LABEL = '(no env)';
+
+export const ListItemsCommand = createDmnoPluginCliCommand({
+  name: 'list',
+  summary: 'list items stored in each environment vault',
+  description: `
+  Lists items in each of the vault files (one per environment, if using per-environment vaults)
+  along with any items wired up to this vault in your config that do not have a stored value,
+  and any item metadata (owner, expiry date, and notes).
+  Values are not decrypted, so no key is needed.
+`,
+  examples: [
+    {
+      command: 'dmno plugin -p vault -- list',
+      description: 'list items in all environment vaults',
+    },
+    {
+      command: 'dmno plugin -p vault -- list --env production',
+      description: 'list items in only the production vault',
+    },
+  ],
+  options: [
+    new Option('--env <env>', 'only show a single environment vault'),
+  ],
+  async handler(ctx, opts: { env?: string }) {
+    const { vaultName, primaryService } = getVaultCliContext(ctx, {});
+
+    const vaultFilePaths = await findVaultFiles(primaryService.path, vaultName);
+    if (opts.env !== undefined && !vaultFilePaths[opts.env]) {
+      console.log(`Vault file for environment "${opts.env}" not found`);
+      process.exit(1);
+    }
+    const envs = opts.env !== undefined ? [opts.env] : _.sortBy(_.keys(vaultFilePaths));
+    if (!envs.length) {
+      console.log('No vault files found - run `setup` first');
+      process.exit(1);
+    }
+
+    const vaultFilesByEnv: Record<string, VaultFile> = {};
+    for (const env of envs) {
+      vaultFilesByEnv[env] = await readVaultFile(vaultFilePaths[env]);
+    }
+
+    const usedByPaths = ctx.plugin.usedByConfigItemResolverPaths || [];
+    let vaultItemKeys = _.uniq([
+      ...usedByPaths,
+      ..._.flatMap(vaultFilesByEnv, (vaultFile) => _.keys(vaultFile.items)),
+    ]).sort();
+    // filter for the selected service - if one was selected on the initial command via -s
+    if (ctx.selectedServiceName) {
+      vaultItemKeys = _.filter(vaultItemKeys, (k) => splitFullResolverPath(k).serviceName === ctx.selectedServiceName);
+    }
+
+    console.log(kleur.bold(`Vault "${vaultName}" - ${envs.map((e) => e || NO_ENV_LABEL).join(', ')}`));
+    console.log('');
+
+    if (!vaultItemKeys.length) {
+      console.log(kleur.gray('Vault has 0 items, and no config items use it yet'));
+      process.exit(0);
+    }
+
+    const missingByEnv: Record<string, Array<string>> = {};
+    for (const vaultItemKey of vaultItemKeys) {
+      const { serviceName, itemPath, resolverBranchIdPath } = splitFullResolverPath(vaultItemKey);
+      const isUsed = usedByPaths.includes(vaultItemKey);
+
+      const envStatuses = _.map(envs, (env) => {
+        const vaultItem = vaultFilesByEnv[env].items[vaultItemKey];
+        if (!vaultItem && isUsed) (missingByEnv[env] ||= []).push(vaultItemKey);
+        return vaultItem
+          ? kleur.green(`✔ ${env || NO_ENV_LABEL} ${kleur.gray(vaultItem.updatedAt.substring(0, 10))}`)
+          : kleur.red(`✘ ${env || NO_ENV_LABEL}`);
+      });
+
+      console.log(_.compact([
+        isUsed ? kleur.green().bold('[in use]') : kleur.yellow().bold('[unused]'),
+        ` ${serviceName}`,
+        ` > ${itemPath}`,
+        resolverBranchIdPath ? ` > ${resolverBranchIdPath}` : '',
+      ]).join(''));
+      console.log(`  ${envStatuses.join('  ')}`);
+      for (const env of envs) {
+        const vaultItem = vaultFilesByEnv[env].items[vaultItemKey];
+        const metadataStr = vaultItem ? formatItemMetadata(vaultItem) : '';
+        if (metadataStr) console.log(`    ${envs.length > 1 ? `${env || NO_ENV_LABEL}: ` : ''}${metadataStr}`);
+      }
+    }
+
+    if (_.isEmpty(missingByEnv)) {
+      console.log(kleur.green('\nAll items wired up to this vault have a stored value 🎉'));
+    } else {
+      console.log(kleur.red().bold('\nItems wired up to this vault with no stored value:'));
+      _.each(missingByEnv, (missingKeys, env) => {
+        console.log(`- ${env || NO_ENV_LABEL}: ${missingKeys.join(', ')}`);
+      });
+      console.log(kleur.gray(`\nAdd them by running \`pnpm exec dmno plugin -p ${ctx.plugin.instanceId} -- add --env <env>\``));
+    }
+
+    process.exit(0);
+  },
+});
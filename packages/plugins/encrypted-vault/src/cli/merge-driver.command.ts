@@ -0,0 +1,92 @@
+import fs from 'node:fs';
+import { execSync } from 'node:child_process';
+import _ from 'lodash-es';
+import { parse as parseJSONC } from 'jsonc-parser';
+import { kleur, createDmnoPluginCliCommand, Option } from 'dmno/cli-lib';
+
+import { VaultFile, readVaultFile, writeVaultFile } from '../lib/vault-file';
+import { mergeVaultFiles } from '../lib/vault-merge';
+
+const MERGE_DRIVER_NAME = 'dmno-vault';
+const GIT_ATTRIBUTES_LINE = `*.vault.json merge=${MERGE_DRIVER_NAME}`;
+
+/**
+ * registers the merge driver for vault files
+ * .gitattributes is committed, but the driver itself must be defined in each user's (local) git config
+ */
+export function registerMergeDriver(dmnoFolderPath: string, pluginInstanceId: string) {
+  let updatedGitAttributes = false;
+  const gitAttributesPath = `${dmnoFolderPath}/.gitattributes`;
+  const gitAttributesRaw = fs.existsSync(gitAttributesPath) ? fs.readFileSync(gitAttributesPath, 'utf-8') : '';
+  if (!gitAttributesRaw.split('\n').includes(GIT_ATTRIBUTES_LINE)) {
+    fs.writeFileSync(gitAttributesPath, [
+      ...gitAttributesRaw ? [gitAttributesRaw.replace(/\n$/, '')] : [],
+      '# merges dmno encrypted vault files item by item',
+      GIT_ATTRIBUTES_LINE,
+      '',
+    ].join('\n'));
+    updatedGitAttributes = true;
+  }
+
+  const driverCommand = `pnpm exec dmno plugin -p ${pluginInstanceId} -- merge-driver --ancestor %O --current %A --other %B`;
+  let existingDriverCommand: string | undefined;
+  try {
+    existingDriverCommand = execSync(`git config merge.${MERGE_DRIVER_NAME}.driver`, { cwd: dmnoFolderPath }).toString().trim();
+  } catch (err) {
+    // exits with an error if not set
+  }
+  const updatedGitConfig = existingDriverCommand !== driverCommand;
+  if (updatedGitConfig) {
+    execSync(`git config merge.${MERGE_DRIVER_NAME}.name "dmno encrypted vault merge driver"`, { cwd: dmnoFolderPath });
+    execSync(`git config merge.${MERGE_DRIVER_NAME}.driver "${driverCommand}"`, { cwd: dmnoFolderPath });
+  }
+  return { updatedGitAttributes, updatedGitConfig, gitAttributesPath };
+}
+
+export const MergeDriverCommand = createDmnoPluginCliCommand({
+  name: 'merge-driver',
+  summary: 'git merge driver for vault files',
+  description: `
+  Three-way merge of vault files, called by git rather than directly.
+  Items are merged by key, so different items changed on each side merge cleanly.
+  If the same item was changed on both sides, the most recently updated version is kept, and the merge is marked as conflicted.
+
+  This is registered automatically when running \`setup\`.
+`,
+  examples: [
+    {
+      command: 'dmno plugin -p vault -- merge-driver --ancestor %O --current %A --other %B',
+      description: 'the command registered in your git config',
+    },
+  ],
+  options: [
+    new Option('--ancestor <path>', 'common ancestor version of the file (%O)').makeOptionMandatory(),
+    new Option('--current <path>', 'current version of the file (%A) - merged result is written here').makeOptionMandatory(),
+    new Option('--other <path>', 'other branch version of the file (%B)').makeOptionMandatory(),
+  ],
+  async handler(ctx, opts: { ancestor: string, current: string, other: string }) {
+    // the ancestor is empty if the file was added on both sides
+    const ancestorRaw = fs.readFileSync(opts.ancestor, 'utf-8');
+    const ancestor = ancestorRaw.trim() ? parseJSONC(ancestorRaw) as VaultFile : undefined;
+    const current = await readVaultFile(opts.current);
+    const other = await readVaultFile(opts.other);
+
+    const { merged, conflicts } = mergeVaultFiles(ancestor, current, other);
+    if (merged) await writeVaultFile(opts.current, merged);
+
+    if (conflicts.length) {
+      // git shows our output, so we explain what needs attention
+      console.error(kleur.red().bold('Encrypted vault merge conflicts:'));
+      _.each(conflicts, (c) => {
+        console.error(kleur.red(`- ${c.itemKey ? `${c.itemKey} - ` : ''}${c.message}`));
+      });
+      if (merged) {
+        console.error(kleur.gray('The most recently updated version of each item was kept - use `upsert` to fix any values, then mark the file as resolved'));
+      } else {
+        console.error(kleur.gray('The vault key was rotated, so the file was left as is - check out the rotated version, re-apply the changes above using `upsert`, then mark the file as resolved'));
+      }
+      process.exit(1);
+    }
+    process.exit(0);
+  },
+});
@@ -0,0 +1,205 @@
+import fs from 'node:fs';
+import _ from 'lodash-es';
+import { kleur, createDmnoPluginCliCommand, Option } from 'dmno/cli-lib';
+
+import { confirm, input, select } from '@inquirer/prompts';
+
+import {
+  RECIPIENT_KEY_ALGORITHMS, RecipientKeyAlgorithm, generateRecipientKeyPair, parseRecipientKeyString,
+  wrapKeyForRecipient,
+} from '@dmno/encryption-lib';
+import {
+  VAULT_FILE_VERSION, getVaultKeyString, readVaultFile, writeVaultFile,
+} from '../lib/vault-file';
+import { getPublicKeyFingerprint } from '../lib/helpers';
+import { createEnvOption, getVaultCliContext } from './cli-helpers';
+
+export const CreateRecipientKeyCommand = createDmnoPluginCliCommand({
+  name: 'create-recipient-key',
+  summary: 'create your own key pair, to be added as a vault recipient',
+  description: `
+  Creates a new public/private key pair for a single vault recipient.
+  Share the public key with a teammate who has access to the vault, so they can add you as a recipient,
+  and use the private key as your vault key.
+`,
+  examples: [
+    {
+      command: 'dmno plugin -p vault -- create-recipient-key --name alice',
+      description: 'create a new X25519 key pair for "alice"',
+    },
+    {
+      command: 'dmno plugin -p vault -- create-recipient-key --name alice --algorithm RSA-OAEP',
+      description: 'create a new RSA key pair instead',
+    },
+  ],
+  options: [
+    new Option('-n, --name <recipientName>', 'recipient name - usually your name or username'),
+    new Option('-a, --algorithm <algorithm>', 'key algorithm').choices(RECIPIENT_KEY_ALGORITHMS).default('X25519'),
+  ],
+  async handler(ctx, opts: { name?: string, algorithm: RecipientKeyAlgorithm }) {
+    const recipientName = opts.name || await input({ message: 'Recipient name (usually your name or username)' });
+    const { publicKey, privateKey } = await generateRecipientKeyPair(recipientName, opts.algorithm);
+
+    const keyItemPath = ctx.plugin.inputNodes.key.mappedToNodePath?.split('!')[1];
+
+    console.log([
+      '',
+      '🔑 Here is your new private key - keep it secret!',
+      kleur.bold().gray(privateKey),
+      '',
+      `Once you have been added as a recipient, use it as your vault key${keyItemPath ? ` at the path ${kleur.magenta().bold(keyItemPath)}` : ''}, usually via your .env.local file`,
+      '',
+      '📨 Here is your public key - send it to a teammate who already has access to the vault:',
+      kleur.bold().green(publicKey),
+      kleur.gray(`fingerprint ${getPublicKeyFingerprint(publicKey)} - used to check the recipients list when rotating the key`),
+      '',
+      'They can add you as a recipient by running',
+      kleur.magenta(`pnpm exec dmno plugin -p ${ctx.plugin.instanceId} -- add-recipient --public-key ${publicKey}`),
+    ].join('\n'));
+
+    process.exit(0);
+  },
+});
+
+export const AddRecipientCommand = createDmnoPluginCliCommand({
+  name: 'add-recipient',
+  summary: 'share the vault key with a new recipient',
+  description: `
+  Wraps the vault key using a recipient's public key, so they can unlock the vault using their own private key.
+  Adding the first recipient switches the vault into per-recipient mode, while the vault key itself continues to work.
+`,
+  examples: [
+    {
+      command: 'dmno plugin -p vault -- add-recipient --public-key dmno-public//alice//X25519//...',
+      description: 'add "alice" as a recipient',
+    },
+  ],
+  options: [
+    new Option('--public-key <publicKey>', 'recipient public key, created using `create-recipient-key`'),
+    createEnvOption(),
+  ],
+  async handler(ctx, opts: { publicKey?: string, env?: string }) {
+    const { vaultPath, vaultKeyIsSet, getKeyStr } = getVaultCliContext(ctx, opts);
+
+    if (!fs.existsSync(vaultPath)) {
+      console.log('Vault is not set up!');
+      process.exit(1);
+    }
+    if (!vaultKeyIsSet) {
+      console.log('Vault key is not set! You must have access to the vault to add a recipient.');
+      process.exit(1);
+    }
+
+    const publicKey = opts.publicKey || await input({ message: 'Enter the recipient\'s public key' });
+    let recipientName: string;
+    try {
+      const parsedKey = parseRecipientKeyString(publicKey);
+      if (parsedKey.isPrivate) {
+        console.log(kleur.red('That is a private key! Only the public key should be shared.'));
+        process.exit(1);
+      }
+      recipientName = parsedKey.recipientName;
+    } catch (err) {
+      console.log(kleur.red(`Invalid public key - ${(err as Error).message}`));
+      process.exit(1);
+    }
+
+    const vaultObj = await readVaultFile(vaultPath);
+    if (vaultObj.recipients?.[recipientName]) {
+      const replace = await confirm({ message: `"${recipientName}" is already a recipient - replace their key?` });
+      if (!replace) {
+        console.log('aborting...');
+        process.exit(0);
+      }
+    }
+
+    const vaultKeyStr = await getVaultKeyString(vaultObj, await getKeyStr());
+    vaultObj.recipients ||= {};
+    vaultObj.recipients[recipientName] = {
+      publicKey,
+      wrappedKey: await wrapKeyForRecipient(vaultKeyStr, publicKey),
+      addedAt: new Date().toISOString(),
+    };
+    // old single-key vault files do not support recipients
+    vaultObj.version = VAULT_FILE_VERSION;
+
+    await writeVaultFile(vaultPath, vaultObj);
+    console.log(`✅ "${recipientName}" has been added as a vault recipient - they can now use their private key as the vault key`);
+
+    process.exit(0);
+  },
+});
+
+export const RemoveRecipientCommand = createDmnoPluginCliCommand({
+  name: 'remove-recipient',
+  summary: 'remove a recipient from the vault',
+  description: `
+  Removes a recipient's wrapped copy of the vault key.
+  They may have already seen the vault key, so you should also rotate it.
+`,
+  examples: [
+    {
+      command: 'dmno plugin -p vault -- remove-recipient --name alice',
+      description: 'remove "alice" from the vault recipients',
+    },
+  ],
+  options: [
+    new Option('-n, --name <recipientName>', 'name of the recipient to remove'),
+    createEnvOption(),
+  ],
+  async handler(ctx, opts: { name?: string, env?: string }) {
+    const { vaultPath, isCurrentEnv } = getVaultCliContext(ctx, opts);
+
+    if (!fs.existsSync(vaultPath)) {
+      console.log('Vault is not set up!');
+      process.exit(1);
+    }
+
+    const vaultObj = await readVaultFile(vaultPath);
+    if (!_.size(vaultObj.recipients)) {
+      console.log(kleur.red('Vault has no recipients, so there is nothing to remove'));
+      process.exit(0);
+    }
+
+    let recipientName: string;
+    if (opts.name) {
+      if (!vaultObj.recipients?.[opts.name]) {
+        console.log(`Recipient not found "${opts.name}"`);
+        process.exit(1);
+      }
+      recipientName = opts.name;
+    } else {
+      recipientName = await select({
+        message: 'Which recipient would you like to remove?',
+        choices: _.map(vaultObj.recipients, (recipient, name) => ({
+          value: name,
+          name: `${name} ${kleur.gray(`added ${recipient.addedAt.substring(0, 10)}`)}`,
+        })),
+      });
+    }
+
+    const currentKeyStr = ctx.plugin.inputNodes.key.resolvedValue;
+    if (isCurrentEnv && _.isString(currentKeyStr) && currentKeyStr.startsWith(`dmno-private//${recipientName}//`)) {
+      console.log(kleur.yellow('You are removing yourself - you will no longer be able to unlock the vault with your key!'));
+    }
+
+    const userConfirmed = await confirm({ message: `Are you sure you want to remove "${recipientName}"?` });
+    if (!userConfirmed) {
+      console.log('aborting...');
+      process.exit(0);
+    }
+
+    delete vaultObj.recipients![recipientName];
+    if (!_.size(vaultObj.recipients)) delete vaultObj.recipients;
+
+    await writeVaultFile(vaultPath, vaultObj);
+    console.log([
+      `"${recipientName}" has been removed from the vault recipients.`,
+      '',
+      'They may still have a copy of the vault key, so you should generate a new one by running',
+      kleur.magenta(`pnpm exec dmno plugin -p ${ctx.plugin.instanceId} -- rotate-key${opts.env ? ` --env ${opts.env}` : ''}`),
+    ].join('\n'));
+
+    process.exit(0);
+  },
+});
@@ -1,16 +1,17 @@
 import fs from 'node:fs';
 import { execSync } from 'node:child_process';
 import _ from 'lodash-es';
-import { parse as parseJSONC } from 'jsonc-parser';
 import { kleur, createDmnoPluginCliCommand } from 'dmno/cli-lib';
 
 import { confirm, input, select } from '@inquirer/prompts';
 
 import {
-  decrypt, encrypt, generateDmnoEncryptionKeyString, importDmnoEncryptionKeyString,
+  decrypt, encrypt, generateDmnoEncryptionKeyString, importDmnoEncryptionKeyString, isRecipientPrivateKeyString,
+  wrapKeyForRecipient,
 } from '@dmno/encryption-lib';
-import { VaultFile } from '../lib/vault-file';
-import { splitFullResolverPath } from '../lib/helpers';
+import { importVaultKey, readVaultFile, writeVaultFile } from '../lib/vault-file';
+import { getPublicKeyFingerprint, splitFullResolverPath } from '../lib/helpers';
+import { createEnvOption, getNewKeyName, getVaultCliContext } from './cli-helpers';
 
 
 
@@ -25,20 +26,26 @@ export const RotateKeyCommand = createDmnoPluginCliCommand({
       command: 'dmno plugin -p vault -- rotate-key',
       description: 'rotate the key for the vault',
     },
+    {
+      command: 'dmno plugin -p vault -- rotate-key --env production',
+      description: 'rotate the key for the production vault',
+    },
+  ],
+  options: [
+    createEnvOption(),
   ],
-  async handler(ctx, opts, command) {
+  async handler(ctx, opts: { env?: string }, command) {
     // TODO: check plugin is in valid state
-    const vaultName = ctx.plugin.inputNodes.name.resolvedValue || 'default';
-    const primaryService = ctx.workspace.services[ctx.plugin.parentEntityId];
+    const {
+      vaultName, env, vaultPath, vaultKeyIsSet, primaryService, getKeyStr,
+    } = getVaultCliContext(ctx, opts);
 
     if (ctx.selectedServiceName) {
       console.log('Running this command will affect the entire vault - do not select a specific service');
       process.exit(1);
     }
 
-    const vaultPath = `${primaryService.path}/.dmno/${vaultName}.vault.json`;
     const vaultFileExists = fs.existsSync(vaultPath);
-    const vaultKeyIsSet = ctx.plugin.inputNodes.key.isResolved && ctx.plugin.inputNodes.key.isValid;
 
     if (!vaultFileExists) {
       console.log('Vault is not set up!');
@@ -50,17 +57,14 @@ export const RotateKeyCommand = createDmnoPluginCliCommand({
     }
 
 
-    const currentKeyStr = ctx.plugin.inputNodes.key.resolvedValue;
-    if (!_.isString(currentKeyStr)) throw new Error('key must be a string');
-    const { keyName, key } = await importDmnoEncryptionKeyString(currentKeyStr);
+    const currentKeyStr = await getKeyStr();
+    const vaultObj = await readVaultFile(vaultPath);
+    const { keyName, key } = await importVaultKey(vaultObj, currentKeyStr);
 
-    const newKeyName = `${vaultName}-${new Date().toISOString().substring(0, 10)}`;
+    const newKeyName = getNewKeyName(vaultName, env);
     const newKeyStr = await generateDmnoEncryptionKeyString(newKeyName);
     const { key: newKey } = await importDmnoEncryptionKeyString(newKeyStr);
 
-    // TODO: we'll want to preserve comments, looks possible with the jsonc tool we are using!
-    const vaultRaw = fs.readFileSync(vaultPath);
-    const vaultObj = parseJSONC(vaultRaw.toString()) as VaultFile;
     for (const vaultItemKey in vaultObj.items) {
       const vaultItem = vaultObj.items[vaultItemKey];
       const decryptedValue = await decrypt(key, vaultItem.encryptedValue, keyName);
@@ -68,6 +72,42 @@ export const RotateKeyCommand = createDmnoPluginCliCommand({
     }
     vaultObj.keyName = newKeyName;
 
+    // the recipients list is not authenticated, so anyone able to edit the vault file could add themselves
+    // we show the full list and confirm before sharing the new key with all of them
+    if (_.size(vaultObj.recipients)) {
+      console.log('The new key will be shared with these recipients:');
+      _.each(vaultObj.recipients, (recipient, recipientName) => {
+        const details = `added ${recipient.addedAt.substring(0, 10)}, fingerprint ${getPublicKeyFingerprint(recipient.publicKey)}`;
+        console.log(`- ${kleur.bold(recipientName)} ${kleur.gray(details)}`);
+      });
+      const recipientsConfirmed = await confirm({ message: 'Are all of these recipients expected?' });
+      if (!recipientsConfirmed) {
+        console.log('aborting... remove any unexpected recipients using `remove-recipient` first');
+        process.exit(1);
+      }
+    }
+
+    // recipients only need their own private key, so we can re-wrap the new key for all of them
+    for (const recipientName in vaultObj.recipients) {
+      const recipient = vaultObj.recipients[recipientName];
+      recipient.wrappedKey = await wrapKeyForRecipient(newKeyStr, recipient.publicKey);
+    }
+
+    if (isRecipientPrivateKeyString(currentKeyStr)) {
+      await writeVaultFile(vaultPath, vaultObj);
+      console.log(`Your vault has been re-encrypted with a new key, shared with ${_.size(vaultObj.recipients)} recipient(s)`);
+
+      const showNewKey = await confirm({
+        message: 'Do any environments (ex: CI) use the vault key directly, rather than a recipient key?',
+        default: false,
+      });
+      if (showNewKey) {
+        console.log('They will need the new vault key:');
+        console.log(newKeyStr);
+      }
+      process.exit(0);
+    }
+
 
     if (!ctx.plugin.inputNodes.key.mappedToNodePath) {
       throw new Error('You must configure this plugin to set where the key will be stored');
@@ -91,7 +131,7 @@ export const RotateKeyCommand = createDmnoPluginCliCommand({
       console.log(newKeyStr);
     }
 
-    fs.writeFileSync(vaultPath, JSON.stringify(vaultObj, null, 2));
+    await writeVaultFile(vaultPath, vaultObj);
     console.log('Your vault has been re-encrypted with your new key');
 
     process.exit(0);
@@ -5,6 +5,24 @@ import { kleur, createDmnoPluginCliCommand } from 'dmno/cli-lib';
 import { confirm, select } from '@inquirer/prompts';
 
 import { generateDmnoEncryptionKeyString } from '@dmno/encryption-lib';
+import { VAULT_FILE_VERSION, VaultFile } from '../lib/vault-file';
+import { createEnvOption, getNewKeyName, getVaultCliContext } from './cli-helpers';
+import { registerMergeDriver } from './merge-driver.command';
+
+function setUpMergeDriver(dmnoFolderPath: string, pluginInstanceId: string) {
+  try {
+    const { updatedGitAttributes, updatedGitConfig, gitAttributesPath } = registerMergeDriver(
+      dmnoFolderPath,
+      pluginInstanceId,
+    );
+    if (updatedGitAttributes) {
+      console.log(`🔀 The vault merge driver was added to ${gitAttributesPath} - this file should be committed`);
+    }
+    if (updatedGitConfig) console.log('🔀 The vault merge driver was registered in your git config');
+  } catch (err) {
+    console.log(kleur.yellow(`Unable to register the vault git merge driver - ${(err as Error).message}`));
+  }
+}
 
 
 export const SetupCommand = createDmnoPluginCliCommand({
@@ -18,12 +36,21 @@ export const SetupCommand = createDmnoPluginCliCommand({
       command: 'dmno plugin -p vault -- setup',
       description: 'set up a new encrypted vault',
     },
+    {
+      command: 'dmno plugin -p vault -- setup --env production',
+      description: 'set up the vault for the production environment',
+    },
   ],
-  async handler(ctx, opts, command) {
+  options: [
+    createEnvOption(),
+  ],
+  async handler(ctx, opts: { env?: string }, command) {
     // const vaultName = ctx.plugin.inputNodes.
     // console.dir(ctx.plugin.inputNodes, { depth: null });
 
-    const vaultName = ctx.plugin.inputNodes.name.resolvedValue || 'default';
+    const {
+      vaultName, env, isCurrentEnv, vaultPath,
+    } = getVaultCliContext(ctx, opts);
 
 
 
@@ -40,20 +67,22 @@ export const SetupCommand = createDmnoPluginCliCommand({
 
 
 
-    const vaultPath = `${primaryService.path}/.dmno/${vaultName}.vault.json`;
     const vaultFileExists = fs.existsSync(vaultPath);
+    // each teammate needs the merge driver in their own git config, so we check it any time setup is run
+    if (vaultFileExists) setUpMergeDriver(`${primaryService.path}/.dmno`, ctx.plugin.instanceId);
 
 
-    if (!ctx.plugin.inputNodes.key.isResolved && !ctx.plugin.inputNodes.key.isValid) {
+    // the plugin key input is only the key for the current environment
+    if (isCurrentEnv && !ctx.plugin.inputNodes.key.isResolved && !ctx.plugin.inputNodes.key.isValid) {
       console.log('Looks like you have a vault key that is not valid!');
       process.exit(1);
     }
 
-    const vaultKeyIsSet = ctx.plugin.inputNodes.key.isResolved && ctx.plugin.inputNodes.key.isValid;
+    const vaultKeyIsSet = isCurrentEnv && ctx.plugin.inputNodes.key.isResolved && ctx.plugin.inputNodes.key.isValid;
 
 
-    // we have a key and a vault
-    if (vaultKeyIsSet && vaultFileExists) {
+    // we have a key and a vault (for other environments, we cannot check the key)
+    if ((vaultKeyIsSet || !isCurrentEnv) && vaultFileExists) {
       // TODO: check if everything actually is working?
       console.log([
         'Looks like this vault is already set up!',
@@ -76,6 +105,9 @@ export const SetupCommand = createDmnoPluginCliCommand({
         '',
         'To request it from a teammate securely, you can use the following command...',
         // TODO: push user to key request flow
+        '',
+        'If your team uses individual recipient keys, create your own key and ask a teammate to add you:',
+        kleur.magenta(`pnpm exec dmno plugin -p ${ctx.plugin.instanceId} -- create-recipient-key`),
       ].join('\n'));
       process.exit(1);
 
@@ -94,12 +126,12 @@ export const SetupCommand = createDmnoPluginCliCommand({
         process.exit(1);
       }
 
-      const keyName = `${vaultName}-${new Date().toISOString().substring(0, 10)}`;
+      const keyName = getNewKeyName(vaultName, env);
       const keyStr = await generateDmnoEncryptionKeyString(keyName);
 
 
-      const emptyVaultContents = {
-        version: '0.0.1',
+      const emptyVaultContents: VaultFile = {
+        version: VAULT_FILE_VERSION,
         keyName,
         items: {},
       };
@@ -115,10 +147,12 @@ export const SetupCommand = createDmnoPluginCliCommand({
         '',
       ].join('\n'));
 
+      // each environment has its own key, so they cannot share the same item in .env.local
+      const envLocalFileName = env ? `.env.${env}.local` : '.env.local';
       const keyTransferMethod = await select({
         message: 'How would you like to receive your new encryption key?',
         choices: [
-          { value: 'envlocal', name: '💾 write it directly to into your .env.local file' },
+          { value: 'envlocal', name: `💾 write it directly to into your ${envLocalFileName} file` },
           { value: 'clipboard', name: '📋 copy directly to clipboard without displaying it' },
           { value: 'output', name: '👀 display it here in the terminal' },
         ],
@@ -127,7 +161,7 @@ export const SetupCommand = createDmnoPluginCliCommand({
       console.log('');
 
       if (keyTransferMethod === 'envlocal') {
-        const envLocalPath = `${primaryService.path}/.dmno/.env.local`;
+        const envLocalPath = `${primaryService.path}/.dmno/${envLocalFileName}`;
         let createdEnvLocal = false;
         if (!fs.existsSync(envLocalPath)) {
           fs.writeFileSync(envLocalPath, [
@@ -141,15 +175,16 @@ export const SetupCommand = createDmnoPluginCliCommand({
         }
         fs.appendFileSync(envLocalPath, [
           '',
-          `# Encrypted vault key for plugin "${vaultName}"`,
+          `# Encrypted vault key for plugin "${vaultName}"${env ? ` (${env} environment)` : ''}`,
           `${keyItemPath}=${keyStr}`,
         ].join('\n'));
 
         // TODO: do we want to make sure the env local file is git-ignored?
 
         console.log([
-          `🔏 Your key has been written into your ${createdEnvLocal ? '✨NEW✨ ' : ''}.env.local file at`,
+          `🔏 Your key has been written into your ${createdEnvLocal ? '✨NEW✨ ' : ''}${envLocalFileName} file at`,
           kleur.green(`> ${envLocalPath}`),
+          ...env ? [kleur.gray('(environment specific .env files are applied based on the current NODE_ENV)')] : [],
         ].join('\n'));
       } else if (keyTransferMethod === 'clipboard') {
         execSync(`echo "${keyStr}" | pbcopy`);
@@ -176,6 +211,7 @@ export const SetupCommand = createDmnoPluginCliCommand({
         '',
         JSON.stringify(emptyVaultContents, null, 2),
       ].join('\n'));
+      setUpMergeDriver(`${primaryService.path}/.dmno`, ctx.plugin.instanceId);
 
 
 
@@ -1,41 +1,41 @@
-import fs from 'node:fs';
 import { execSync } from 'node:child_process';
 import _ from 'lodash-es';
-import { parse as parseJSONC } from 'jsonc-parser';
 import { kleur, createDmnoPluginCliCommand, Option } from 'dmno/cli-lib';
 
 import { confirm, input, select } from '@inquirer/prompts';
 
-import { encrypt, importDmnoEncryptionKeyString } from '@dmno/encryption-lib';
-import { VaultFile } from '../lib/vault-file';
+import { encrypt } from '@dmno/encryption-lib';
+import { importVaultKey, readVaultFile, writeVaultFile } from '../lib/vault-file';
 import { splitFullResolverPath } from '../lib/helpers';
+import {
+  applyItemMetadata, createEnvOption, createItemMetadataOptions, getVaultCliContext,
+} from './cli-helpers';
 
 const upsertOptions = [
   new Option('-k, --key <vaultKey>', 'item key within the vault, ex: serviceName!CONFIG_PATH#branchId'),
+  ...createItemMetadataOptions(),
+  createEnvOption(),
 ];
 
 const upsertHandler: Parameters<typeof createDmnoPluginCliCommand>[0]['handler'] = async function (
   ctx,
   opts: {
-    key?: string
+    key?: string,
+    env?: string,
+    note?: string,
+    owner?: string,
+    expiresAt?: string,
   },
   command,
 ) {
 // TODO: check plugin is in valid state
-  const vaultName = ctx.plugin.inputNodes.name.resolvedValue || 'default';
-  const primaryService = ctx.workspace.services[ctx.plugin.parentEntityId];
-
-  const vaultPath = `${primaryService.path}/.dmno/${vaultName}.vault.json`;
-  const vaultFileExists = fs.existsSync(vaultPath);
+  const { vaultPath, getKeyStr } = getVaultCliContext(ctx, opts);
 
 
   // TODO: could throw some errors if a service was selected via -s but the plugin is not in that service?
 
-  const { keyName, key } = await importDmnoEncryptionKeyString(ctx.plugin.inputNodes.key.resolvedValue as string);
-
-  // TODO: we'll want to preserve comments, looks possible with the jsonc tool we are using!
-  const vaultRaw = fs.readFileSync(vaultPath);
-  const vaultObj = parseJSONC(vaultRaw.toString()) as VaultFile;
+  const vaultObj = await readVaultFile(vaultPath);
+  const { keyName, key } = await importVaultKey(vaultObj, await getKeyStr());
 
 
   // get list of items from the schema (or from the plugin directly somehow...)
@@ -109,12 +109,16 @@ const upsertHandler: Parameters<typeof createDmnoPluginCliCommand>[0]['handler']
 
 
   const encryptedValue = await encrypt(key, newRawValue, keyName);
-  vaultObj.items[vaultItemKeyToUpdate] = {
+  // existing metadata is kept unless it is changed
+  const updatedItem = {
+    ...vaultObj.items[vaultItemKeyToUpdate],
     encryptedValue,
     updatedAt: new Date().toISOString(),
   };
+  applyItemMetadata(updatedItem, opts);
+  vaultObj.items[vaultItemKeyToUpdate] = updatedItem;
 
-  fs.writeFileSync(vaultPath, JSON.stringify(vaultObj, null, 2));
+  await writeVaultFile(vaultPath, vaultObj);
 
   process.exit(0);
 };
@@ -133,6 +137,14 @@ export const UpsertItemCommand = createDmnoPluginCliCommand({
       command: 'dmno plugin -p vault -- upsert',
       description: 'Update or insert an item to the vault',
     },
+    {
+      command: 'dmno plugin -p vault -- upsert --env production',
+      description: 'Update or insert an item to the production vault',
+    },
+    {
+      command: 'dmno plugin -p vault -- upsert --owner alice --expires-at 2025-06-30 --note "rotate via stripe dashboard"',
+      description: 'Update or insert an item, storing metadata alongside it',
+    },
   ],
   options: upsertOptions,
   handler: upsertHandler,
@@ -17,6 +17,37 @@ const DmnoEncryptionKey = createDmnoDataType({
   sensitive: true,
 });
 
+const DmnoVaultRecipientKey = createDmnoDataType({
+  typeLabel: 'dmno/vault-recipient-key',
+  extends: DmnoBaseTypes.string({
+    startsWith: 'dmno-private//',
+  }),
+  typeDescription: 'X25519 or RSA-OAEP private key for a single vault recipient, used to unwrap the vault key',
+  externalDocs: {
+    description: 'dmno docs',
+    url: 'https://dmno.dev/docs/plugins/encrypted-vault/',
+  },
+  ui: {
+    icon: 'material-symbols:key',
+  },
+  sensitive: true,
+});
+
+// used for the plugin input, which accepts either kind of key
+const DmnoVaultKey = createDmnoDataType({
+  typeLabel: 'dmno/vault-key',
+  extends: DmnoBaseTypes.string({
+    matches: /^dmno(-private)?\/\//,
+  }),
+  typeDescription: 'encrypted vault key, or a vault recipient private key',
+  ui: {
+    icon: 'material-symbols:key',
+  },
+  sensitive: true,
+});
+
 export const EncryptedVaultTypes = {
   encryptionKey: DmnoEncryptionKey,
+  recipientKey: DmnoVaultRecipientKey,
+  vaultKey: DmnoVaultKey,
 };
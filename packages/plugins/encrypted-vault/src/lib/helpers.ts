@@ -1,6 +1,13 @@
+import crypto from 'node:crypto';
+
 // TODO: move to core
 export function splitFullResolverPath(fullResolverPath: string) {
   const [serviceName, itemAndResolverPath] = fullResolverPath.split('!');
   const [itemPath, resolverBranchIdPath] = itemAndResolverPath.split('#');
   return { serviceName, itemPath, resolverBranchIdPath };
 }
+
+/** short fingerprint of a recipient public key, so recipients can be checked without comparing the full keys */
+export function getPublicKeyFingerprint(publicKey: string) {
+  return crypto.createHash('sha256').update(publicKey).digest('hex').substring(0, 16);
+}
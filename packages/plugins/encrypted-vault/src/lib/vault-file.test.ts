@@ -0,0 +1,148 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  expect, test, describe, beforeAll, afterAll,
+} from 'vitest';
+import {
+  decrypt, encrypt, generateDmnoEncryptionKeyString, generateRecipientKeyPair, importDmnoEncryptionKeyString,
+  wrapKeyForRecipient,
+} from '@dmno/encryption-lib';
+import {
+  VaultFile, findVaultFiles, getVaultFilePath, importVaultKey, readVaultFile, writeVaultFile,
+} from './vault-file';
+
+let tempDir: string;
+beforeAll(async () => {
+  tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'dmno-vault-test-'));
+});
+afterAll(async () => {
+  await fs.promises.rm(tempDir, { recursive: true });
+});
+
+async function writeTestVaultFile(fileName: string, vaultFileObj: VaultFile) {
+  const vaultPath = path.join(tempDir, fileName);
+  await fs.promises.writeFile(vaultPath, JSON.stringify(vaultFileObj, null, 2));
+  return vaultPath;
+}
+
+async function createTestVault(keyName: string) {
+  const keyStr = await generateDmnoEncryptionKeyString(keyName);
+  const { key } = await importDmnoEncryptionKeyString(keyStr);
+  const vaultFileObj: VaultFile = {
+    version: '0.1.0',
+    keyName,
+    items: {
+      'root!SECRET': { encryptedValue: await encrypt(key, 'secret-val', keyName), updatedAt: '2024-01-01T00:00:00.000Z' },
+    },
+  };
+  return { keyStr, vaultFileObj };
+}
+
+describe('vault file versions', () => {
+  test('old single-key vault files can still be read and unlocked', async () => {
+    const { keyStr, vaultFileObj } = await createTestVault('vault');
+    const vaultPath = await writeTestVaultFile('old.vault.json', { ...vaultFileObj, version: '0.0.1' });
+    const vaultFile = await readVaultFile(vaultPath);
+    const { key, keyName } = await importVaultKey(vaultFile, keyStr);
+    expect(await decrypt(key, vaultFile.items['root!SECRET'].encryptedValue, keyName)).toBe('secret-val');
+  });
+
+  test('old single-key vault files cannot be unlocked with a recipient key', async () => {
+    const { vaultFileObj } = await createTestVault('vault');
+    const vaultPath = await writeTestVaultFile('old-recipient.vault.json', { ...vaultFileObj, version: '0.0.1' });
+    const { privateKey } = await generateRecipientKeyPair('alice');
+    await expect(importVaultKey(await readVaultFile(vaultPath), privateKey)).rejects.toThrow('"alice" is not a recipient');
+  });
+
+  test('unknown versions are rejected', async () => {
+    const { vaultFileObj } = await createTestVault('vault');
+    const vaultPath = await writeTestVaultFile('future.vault.json', { ...vaultFileObj, version: '9.0.0' });
+    await expect(readVaultFile(vaultPath)).rejects.toThrow('Unsupported vault file version "9.0.0"');
+  });
+});
+
+describe('vault keys', () => {
+  test('recipients can unlock the vault using their own private key', async () => {
+    const { keyStr, vaultFileObj } = await createTestVault('vault');
+    const { publicKey, privateKey } = await generateRecipientKeyPair('alice');
+    vaultFileObj.recipients = {
+      alice: { publicKey, wrappedKey: await wrapKeyForRecipient(keyStr, publicKey), addedAt: '2024-01-01T00:00:00.000Z' },
+    };
+    const { key, keyName } = await importVaultKey(vaultFileObj, privateKey);
+    expect(await decrypt(key, vaultFileObj.items['root!SECRET'].encryptedValue, keyName)).toBe('secret-val');
+    // the vault key itself still works
+    expect((await importVaultKey(vaultFileObj, keyStr)).keyName).toBe('vault');
+  });
+
+  test('using the key for a different vault (ex: another env) fails', async () => {
+    const { vaultFileObj } = await createTestVault('vault-production');
+    const { keyStr: otherKeyStr } = await createTestVault('vault-staging');
+    await expect(importVaultKey(vaultFileObj, otherKeyStr))
+      .rejects.toThrow('Key "vault-staging" does not match this vault\'s key "vault-production"');
+  });
+
+  test('a recipient key wrapping the key for a different vault fails', async () => {
+    const { vaultFileObj } = await createTestVault('vault-production');
+    const { keyStr: otherKeyStr } = await createTestVault('vault-staging');
+    const { publicKey, privateKey } = await generateRecipientKeyPair('alice');
+    vaultFileObj.recipients = {
+      alice: { publicKey, wrappedKey: await wrapKeyForRecipient(otherKeyStr, publicKey), addedAt: '2024-01-01T00:00:00.000Z' },
+    };
+    await expect(importVaultKey(vaultFileObj, privateKey)).rejects.toThrow('does not match this vault\'s key');
+  });
+});
+
+describe('vault file paths', () => {
+  test('vault names and environments must not include dots', () => {
+    expect(getVaultFilePath('/app', 'vault', 'production')).toBe('/app/.dmno/vault.production.vault.json');
+    expect(() => getVaultFilePath('/app', 'my.vault')).toThrow('Vault name must not include "."');
+    expect(() => getVaultFilePath('/app', 'vault', 'prod.eu')).toThrow('Vault environment must not include "."');
+  });
+
+  test('finds vault files for each environment, skipping other vaults', async () => {
+    const servicePath = path.join(tempDir, 'find-vault-files');
+    await fs.promises.mkdir(path.join(servicePath, '.dmno'), { recursive: true });
+    for (const fileName of ['vault.vault.json', 'vault.staging.vault.json', 'vault.other.staging.vault.json', 'other.vault.json']) {
+      await fs.promises.writeFile(path.join(servicePath, '.dmno', fileName), '{}');
+    }
+    expect(await findVaultFiles(servicePath, 'vault')).toEqual({
+      '': path.join(servicePath, '.dmno', 'vault.vault.json'),
+      staging: path.join(servicePath, '.dmno', 'vault.staging.vault.json'),
+    });
+  });
+});
+
+describe('writing vault files', () => {
+  test('comments and formatting are preserved when editing items', async () => {
+    const vaultPath = path.join(tempDir, 'comments.vault.json');
+    await fs.promises.writeFile(vaultPath, [
+      '// header comment',
+      '{',
+      '  "version": "0.1.0",',
+      '  "keyName": "vault",',
+      '  "items": {',
+      '    // comment above an item',
+      '    "api!A": { "encryptedValue": "a1", "updatedAt": "2024-01-01" },',
+      '    "api!B": { "encryptedValue": "b1", "updatedAt": "2024-01-01" }, // trailing comment',
+      '    "api!C": { "encryptedValue": "c1", "updatedAt": "2024-01-01" },',
+      '    "api!D": { "encryptedValue": "d1", "updatedAt": "2024-01-01" }',
+      '  }',
+      '}',
+      '',
+    ].join('\n'));
+
+    const vaultFile = await readVaultFile(vaultPath);
+    vaultFile.items['api!A'].encryptedValue = 'a2';
+    delete vaultFile.items['api!D'];
+    vaultFile.items['api!E'] = { encryptedValue: 'e1', updatedAt: '2024-01-02' };
+    await writeVaultFile(vaultPath, vaultFile);
+
+    const updatedRaw = await fs.promises.readFile(vaultPath, 'utf-8');
+    expect(updatedRaw).toContain('// header comment');
+    expect(updatedRaw).toContain('// comment above an item');
+    expect(updatedRaw).toContain('"api!B": { "encryptedValue": "b1", "updatedAt": "2024-01-01" }, // trailing comment');
+    expect(updatedRaw).not.toContain('api!D');
+    expect(await readVaultFile(vaultPath)).toEqual(vaultFile);
+  });
+});
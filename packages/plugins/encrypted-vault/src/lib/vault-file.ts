@@ -1,8 +1,141 @@
+import fs from 'node:fs';
+import _ from 'lodash-es';
+import {
+  JSONPath, applyEdits, modify, parse as parseJSONC,
+} from 'jsonc-parser';
+import {
+  importDmnoEncryptionKeyString, isRecipientPrivateKeyString, parseRecipientKeyString, unwrapKeyForRecipient,
+} from '@dmno/encryption-lib';
+
+/** version written to new vault files */
+export const VAULT_FILE_VERSION = '0.1.0';
+// 0.0.1 - single shared key
+// 0.1.0 - adds optional `recipients`
+const SUPPORTED_VAULT_FILE_VERSIONS = ['0.0.1', '0.1.0'];
+
+export type VaultFileRecipient = {
+  /** recipient public key string - `dmno-public//name//algorithm//keyData` */
+  publicKey: string,
+  /** the vault key, encrypted using the recipient's public key */
+  wrappedKey: string,
+  addedAt: string,
+};
+
 export type VaultFile = {
   version: string,
   keyName: string,
-  items: Record<string, {
-    encryptedValue: string,
-    updatedAt: string,
-  }>
+  /** if set, the vault key is also wrapped for each recipient, so each can use their own private key */
+  recipients?: Record<string, VaultFileRecipient>,
+  items: Record<string, VaultFileItem>
+};
+
+export type VaultFileItem = {
+  encryptedValue: string,
+  updatedAt: string,
+  // optional metadata, not encrypted
+  /** free-form note about the item - ex: where it came from, or a ticket number */
+  note?: string,
+  /** who is responsible for the item */
+  owner?: string,
+  /** when the value expires, and should be rotated - ISO date string */
+  expiresAt?: string,
 };
+
+export const VAULT_ITEM_METADATA_KEYS = ['note', 'owner', 'expiresAt'] as const;
+
+// dots would make vault file names ambiguous - ex: `a.b.vault.json` could be vault "a" env "b", or vault "a.b"
+function checkVaultFileNamePart(label: string, value: string) {
+  if (value.includes('.')) throw new Error(`Vault ${label} must not include "." - got "${value}"`);
+}
+
+/** per-environment vault files are named `{name}.{env}.vault.json`, otherwise `{name}.vault.json` */
+export function getVaultFilePath(servicePath: string, vaultName: string, env?: string) {
+  checkVaultFileNamePart('name', vaultName);
+  if (env) checkVaultFileNamePart('environment', env);
+  return `${servicePath}/.dmno/${vaultName}${env ? `.${env}` : ''}.vault.json`;
+}
+
+/** finds all of the vault files for a vault, keyed by environment (empty string if not per-environment) */
+export async function findVaultFiles(servicePath: string, vaultName: string) {
+  checkVaultFileNamePart('name', vaultName);
+  const vaultFilePaths: Record<string, string> = {};
+  const dirFiles = await fs.promises.readdir(`${servicePath}/.dmno`);
+  for (const fileName of dirFiles) {
+    if (fileName === `${vaultName}.vault.json`) {
+      vaultFilePaths[''] = `${servicePath}/.dmno/${fileName}`;
+    } else if (fileName.startsWith(`${vaultName}.`) && fileName.endsWith('.vault.json')) {
+      const env = fileName.substring(vaultName.length + 1, fileName.length - '.vault.json'.length);
+      // files for other vaults whose name starts with this one (ex: `{name}.other.{env}.vault.json`) are skipped
+      if (env.includes('.')) continue;
+      vaultFilePaths[env] = `${servicePath}/.dmno/${fileName}`;
+    }
+  }
+  return vaultFilePaths;
+}
+
+export async function readVaultFile(vaultFilePath: string) {
+  if (!fs.existsSync(vaultFilePath)) {
+    throw new Error(`Vault file not found - ${vaultFilePath}`);
+  }
+  const vaultFileRaw = await fs.promises.readFile(vaultFilePath, 'utf-8');
+  const vaultFileObj = parseJSONC(vaultFileRaw) as VaultFile;
+  if (!SUPPORTED_VAULT_FILE_VERSIONS.includes(vaultFileObj.version)) {
+    throw new Error(`Unsupported vault file version "${vaultFileObj.version}" - you may need to update the plugin`);
+  }
+  return vaultFileObj;
+}
+
+/**
+ * gets the vault key string, given either the vault key itself or a recipient private key
+ * (old single-key vault files have no recipients, so only the vault key itself will work)
+ */
+export async function getVaultKeyString(vaultFile: VaultFile, keyStr: string) {
+  if (!isRecipientPrivateKeyString(keyStr)) return keyStr;
+
+  const { recipientName } = parseRecipientKeyString(keyStr);
+  const recipient = vaultFile.recipients?.[recipientName];
+  if (!recipient) {
+    throw new Error(`"${recipientName}" is not a recipient of this vault - ask a teammate to add your public key`);
+  }
+  return unwrapKeyForRecipient(recipient.wrappedKey, keyStr);
+}
+
+export async function importVaultKey(vaultFile: VaultFile, keyStr: string) {
+  const importedKey = await importDmnoEncryptionKeyString(await getVaultKeyString(vaultFile, keyStr));
+  // each environment has its own key, so this is an easy mistake to make
+  if (importedKey.keyName !== vaultFile.keyName) {
+    throw new Error(`Key "${importedKey.keyName}" does not match this vault's key "${vaultFile.keyName}"`);
+  }
+  return importedKey;
+}
+
+/** gets the minimal set of changes to turn one (parsed JSON) value into another, so unchanged parts are left alone */
+function getJsonChanges(path: JSONPath, before: any, after: any): Array<[JSONPath, any]> {
+  if (_.isEqual(before, after)) return [];
+  if (!_.isPlainObject(before) || !_.isPlainObject(after)) return [[path, after]];
+
+  const changes: Array<[JSONPath, any]> = [];
+  for (const key in before) {
+    if (!(key in after)) changes.push([[...path, key], undefined]);
+  }
+  for (const key in after) {
+    changes.push(...getJsonChanges([...path, key], before[key], after[key]));
+  }
+  return changes;
+}
+
+/**
+ * writes an updated vault file, editing the existing file in place
+ * so that comments, formatting, and key ordering are preserved
+ */
+export async function writeVaultFile(vaultFilePath: string, vaultFileObj: VaultFile) {
+  let vaultFileRaw = await fs.promises.readFile(vaultFilePath, 'utf-8');
+  const changes = getJsonChanges([], parseJSONC(vaultFileRaw), vaultFileObj);
+  for (const [path, value] of changes) {
+    const edits = modify(vaultFileRaw, path, value, {
+      formattingOptions: { insertSpaces: true, tabSize: 2, eol: '\n' },
+    });
+    vaultFileRaw = applyEdits(vaultFileRaw, edits);
+  }
+  await fs.promises.writeFile(vaultFilePath, vaultFileRaw);
+}
@@ -0,0 +1,77 @@
+import { expect, test, describe } from 'vitest';
+import { encrypt, generateDmnoEncryptionKeyString, importDmnoEncryptionKeyString } from '@dmno/encryption-lib';
+import { VaultFile } from './vault-file';
+import { getEnvKeyForItemPath, getImportDiff, matchImportKeys } from './vault-import-export';
+
+const usedByPaths = [
+  'api!STRIPE_KEY',
+  'api!DB.PASSWORD',
+  'api!SHARED',
+  'web!SHARED',
+  'web!SWITCHED#prod',
+];
+
+describe('import key matching', () => {
+  test('keys can match by item path or full vault key', () => {
+    expect(matchImportKeys(usedByPaths, ['STRIPE_KEY', 'web!SHARED', 'SWITCHED'])).toEqual({
+      matched: {
+        STRIPE_KEY: 'api!STRIPE_KEY',
+        'web!SHARED': 'web!SHARED',
+        SWITCHED: 'web!SWITCHED#prod',
+      },
+      unmatched: [],
+      ambiguous: {},
+    });
+  });
+
+  test('nested items can be matched using their env var style key', () => {
+    expect(matchImportKeys(usedByPaths, ['DB__PASSWORD', 'DB.PASSWORD']).matched).toEqual({
+      DB__PASSWORD: 'api!DB.PASSWORD',
+      'DB.PASSWORD': 'api!DB.PASSWORD',
+    });
+  });
+
+  test('unmatched and ambiguous keys are reported', () => {
+    expect(matchImportKeys(usedByPaths, ['SHARED', 'MISSING'])).toEqual({
+      matched: {},
+      unmatched: ['MISSING'],
+      ambiguous: { SHARED: ['api!SHARED', 'web!SHARED'] },
+    });
+  });
+
+  test('exported env keys match back to the same items', () => {
+    const envKeys = usedByPaths.filter((p) => p.startsWith('api!')).map((p) => getEnvKeyForItemPath(p.split('!')[1]));
+    expect(envKeys).toEqual(['STRIPE_KEY', 'DB__PASSWORD', 'SHARED']);
+    expect(matchImportKeys(['api!STRIPE_KEY', 'api!DB.PASSWORD', 'api!SHARED'], envKeys).unmatched).toEqual([]);
+  });
+});
+
+describe('import diff', () => {
+  test('detects added, changed and unchanged items', async () => {
+    const keyName = 'vault';
+    const { key } = await importDmnoEncryptionKeyString(await generateDmnoEncryptionKeyString(keyName));
+    const updatedAt = '2024-01-01T00:00:00.000Z';
+    const vaultObj: VaultFile = {
+      version: '0.1.0',
+      keyName,
+      items: {
+        'api!STRIPE_KEY': { encryptedValue: await encrypt(key, 'sk_old', keyName), updatedAt },
+        'api!SHARED': { encryptedValue: await encrypt(key, 'same', keyName), updatedAt },
+      },
+    };
+    const diff = await getImportDiff(vaultObj, key, {
+      STRIPE_KEY: 'api!STRIPE_KEY',
+      SHARED: 'api!SHARED',
+      DB__PASSWORD: 'api!DB.PASSWORD',
+    }, {
+      STRIPE_KEY: 'sk_new',
+      SHARED: 'same',
+      DB__PASSWORD: 'hunter2',
+    });
+    expect(diff).toEqual([
+      { importKey: 'STRIPE_KEY', vaultKey: 'api!STRIPE_KEY', status: 'changed' },
+      { importKey: 'SHARED', vaultKey: 'api!SHARED', status: 'unchanged' },
+      { importKey: 'DB__PASSWORD', vaultKey: 'api!DB.PASSWORD', status: 'added' },
+    ]);
+  });
+});
@@ -0,0 +1,65 @@
+import crypto from 'node:crypto';
+import _ from 'lodash-es';
+import { decrypt } from '@dmno/encryption-lib';
+import { VaultFile } from './vault-file';
+import { splitFullResolverPath } from './helpers';
+
+/** separator used for nested item paths in env var keys - matches how dmno flattens and reads nested env vars */
+const ENV_NESTING_SEPARATOR = '__';
+
+/** env var style key for an item path - ex: `DB.PASSWORD` becomes `DB__PASSWORD` */
+export function getEnvKeyForItemPath(itemPath: string) {
+  return itemPath.split('.').join(ENV_NESTING_SEPARATOR);
+}
+
+/**
+ * maps imported keys to vault keys of items wired up to `vault.item()`
+ * keys can be a full vault key (`service!PATH#branch`), or just the item path if it is not ambiguous
+ * nested item paths can also be matched using their env var style key (ex: `DB__PASSWORD` for `DB.PASSWORD`)
+ */
+export function matchImportKeys(usedByPaths: Array<string>, importKeys: Array<string>) {
+  const matched: Record<string, string> = {};
+  const unmatched: Array<string> = [];
+  const ambiguous: Record<string, Array<string>> = {};
+  for (const importKey of importKeys) {
+    if (usedByPaths.includes(importKey)) {
+      matched[importKey] = importKey;
+      continue;
+    }
+    const matchingPaths = _.filter(usedByPaths, (p) => {
+      const { itemPath } = splitFullResolverPath(p);
+      return itemPath === importKey || getEnvKeyForItemPath(itemPath) === importKey;
+    });
+    if (matchingPaths.length === 1) matched[importKey] = matchingPaths[0];
+    else if (matchingPaths.length) ambiguous[importKey] = matchingPaths;
+    else unmatched.push(importKey);
+  }
+  return { matched, unmatched, ambiguous };
+}
+
+export type ImportDiffEntry = {
+  importKey: string,
+  vaultKey: string,
+  status: 'added' | 'changed' | 'unchanged',
+};
+
+/** diffs matched import values against the existing vault items - decrypting existing values so unchanged items are detected */
+export async function getImportDiff(
+  vaultObj: VaultFile,
+  key: crypto.webcrypto.CryptoKey,
+  matched: Record<string, string>,
+  importValues: Record<string, any>,
+) {
+  const diff: Array<ImportDiffEntry> = [];
+  for (const importKey in matched) {
+    const vaultKey = matched[importKey];
+    const existingItem = vaultObj.items[vaultKey];
+    let status: ImportDiffEntry['status'] = 'unchanged';
+    if (!existingItem) status = 'added';
+    else if (!_.isEqual(await decrypt(key, existingItem.encryptedValue, vaultObj.keyName), importValues[importKey])) {
+      status = 'changed';
+    }
+    diff.push({ importKey, vaultKey, status });
+  }
+  return diff;
+}
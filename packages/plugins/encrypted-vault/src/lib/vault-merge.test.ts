@@ -0,0 +1,68 @@
+import { expect, test, describe } from 'vitest';
+import { VaultFile } from './vault-file';
+import { mergeVaultFiles } from './vault-merge';
+
+// merging does not decrypt anything, so placeholder "encrypted" values are fine
+function item(encryptedValue: string, updatedAt = '2024-01-01T00:00:00.000Z') {
+  return { encryptedValue, updatedAt };
+}
+
+const base: VaultFile = {
+  version: '0.1.0',
+  keyName: 'vault-2024-01-01',
+  items: {
+    'api!A': item('a1'),
+    'api!B': item('b1'),
+  },
+};
+
+describe('vault merge', () => {
+  test('changes from both sides are merged by item', () => {
+    const ours = { ...base, items: { ...base.items, 'api!A': item('a2'), 'api!C': item('c1') } };
+    const theirs = { ...base, items: { 'api!A': base.items['api!A'], 'api!D': item('d1') } };
+    const { merged, conflicts } = mergeVaultFiles(base, ours, theirs);
+    expect(conflicts).toEqual([]);
+    expect(merged?.items).toEqual({
+      'api!A': item('a2'),
+      'api!C': item('c1'),
+      'api!D': item('d1'),
+    });
+  });
+
+  test('items changed on both sides are a conflict, and the newer one is kept', () => {
+    const ours = { ...base, items: { ...base.items, 'api!A': item('a-ours', '2024-02-01T00:00:00.000Z') } };
+    const theirs = { ...base, items: { ...base.items, 'api!A': item('a-theirs', '2024-03-01T00:00:00.000Z') } };
+    const { merged, conflicts } = mergeVaultFiles(base, ours, theirs);
+    expect(conflicts).toEqual([{ itemKey: 'api!A', message: 'updated on both sides' }]);
+    expect(merged?.items['api!A'].encryptedValue).toBe('a-theirs');
+  });
+
+  test('a key rotated on one side is used if nothing changed on the other side', () => {
+    const rotated = { ...base, keyName: 'vault-2024-06-01', items: { 'api!A': item('a-new'), 'api!B': item('b-new') } };
+    expect(mergeVaultFiles(base, base, rotated)).toEqual({ merged: rotated, conflicts: [] });
+    expect(mergeVaultFiles(base, rotated, base)).toEqual({ merged: rotated, conflicts: [] });
+  });
+
+  test('a key rotated on one side aborts the merge if items changed on the other side', () => {
+    const rotated = { ...base, keyName: 'vault-2024-06-01', items: { 'api!A': item('a-new'), 'api!B': item('b-new') } };
+    const changed = { ...base, items: { ...base.items, 'api!B': item('b2'), 'api!C': item('c1') } };
+    const { merged, conflicts } = mergeVaultFiles(base, changed, rotated);
+    expect(merged).toBeUndefined();
+    expect(conflicts.map((c) => c.itemKey)).toEqual(['api!B', 'api!C']);
+  });
+
+  test('a key rotated on both sides aborts the merge', () => {
+    const ours = { ...base, keyName: 'vault-2024-06-01' };
+    const theirs = { ...base, keyName: 'vault-2024-06-02' };
+    expect(mergeVaultFiles(base, ours, theirs)).toEqual({
+      conflicts: [{ message: 'The vault key was rotated on both sides' }],
+    });
+  });
+
+  test('the newer file version is kept, comparing versions numerically', () => {
+    const ours = { ...base, version: '0.9.0' };
+    const theirs = { ...base, version: '0.10.0' };
+    expect(mergeVaultFiles(base, ours, theirs).merged?.version).toBe('0.10.0');
+    expect(mergeVaultFiles(base, theirs, ours).merged?.version).toBe('0.10.0');
+  });
+});
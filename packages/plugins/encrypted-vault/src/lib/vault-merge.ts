@@ -0,0 +1,129 @@
+import _ from 'lodash-es';
+import { VaultFile } from './vault-file';
+
+export type VaultMergeConflict = {
+  /** vault item key, or undefined if the conflict affects the whole file */
+  itemKey?: string,
+  message: string,
+};
+
+type VaultFileItem = VaultFile['items'][string];
+
+/** compares `major.minor.patch` version strings numerically - ex: "0.10.0" is newer than "0.9.0" */
+function compareVersions(a: string, b: string) {
+  const aParts = a.split('.').map(Number);
+  const bParts = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(aParts.length, bParts.length); i++) {
+    const diff = (aParts[i] || 0) - (bParts[i] || 0);
+    if (diff) return diff;
+  }
+  return 0;
+}
+
+/** picks whichever version of an item was updated most recently */
+function pickNewerItem(a?: VaultFileItem, b?: VaultFileItem) {
+  if (!a) return b;
+  if (!b) return a;
+  return new Date(b.updatedAt) > new Date(a.updatedAt) ? b : a;
+}
+
+/**
+ * three-way merge of a keyed record - each entry is merged independently
+ * returns the merged record along with keys changed differently on both sides
+ */
+function mergeRecords<T>(
+  base: Record<string, T> | undefined,
+  ours: Record<string, T> | undefined,
+  theirs: Record<string, T> | undefined,
+  resolveConflict: (ourVal?: T, theirVal?: T) => T | undefined,
+) {
+  const merged: Record<string, T> = {};
+  const conflictKeys: Array<string> = [];
+  // keep our ordering, with new keys from their side added at the end
+  const allKeys = _.uniq([..._.keys(ours), ..._.keys(theirs), ..._.keys(base)]);
+  for (const key of allKeys) {
+    const baseVal = base?.[key];
+    const ourVal = ours?.[key];
+    const theirVal = theirs?.[key];
+
+    let mergedVal: T | undefined;
+    if (_.isEqual(ourVal, theirVal) || _.isEqual(theirVal, baseVal)) {
+      mergedVal = ourVal;
+    } else if (_.isEqual(ourVal, baseVal)) {
+      mergedVal = theirVal;
+    } else {
+      conflictKeys.push(key);
+      mergedVal = resolveConflict(ourVal, theirVal);
+    }
+    if (mergedVal !== undefined) merged[key] = mergedVal;
+  }
+  return { merged, conflictKeys };
+}
+
+/**
+ * three-way merge of vault files, merging items (and recipients) by key
+ *
+ * if the same item was changed on both sides, it is a conflict, and the most recently updated version is used
+ * items cannot be re-encrypted here, so if the key was rotated on one side and anything changed on the other side,
+ * the merge is aborted (`merged` is undefined) rather than dropping those changes
+ */
+export function mergeVaultFiles(
+  base: VaultFile | undefined,
+  ours: VaultFile,
+  theirs: VaultFile,
+): { merged?: VaultFile, conflicts: Array<VaultMergeConflict> } {
+  const conflicts: Array<VaultMergeConflict> = [];
+
+  if (ours.keyName !== theirs.keyName) {
+    const oursRotated = ours.keyName !== base?.keyName;
+    const theirsRotated = theirs.keyName !== base?.keyName;
+    if (oursRotated && theirsRotated) {
+      conflicts.push({ message: 'The vault key was rotated on both sides' });
+      return { conflicts };
+    }
+
+    // the rotated side can only be used as is if nothing changed on the other side, since it used the old key
+    const [rotated, other] = oursRotated ? [ours, theirs] : [theirs, ours];
+    const allKeys = _.uniq([..._.keys(other.items), ..._.keys(base?.items)]);
+    for (const itemKey of allKeys) {
+      if (!_.isEqual(other.items[itemKey], base?.items[itemKey])) {
+        conflicts.push({ itemKey, message: 'changed using the old vault key, but the key was rotated on the other side' });
+      }
+    }
+    if (!_.isEqual(other.recipients, base?.recipients)) {
+      conflicts.push({ message: 'Recipients changed, but the vault key was rotated on the other side' });
+    }
+    if (conflicts.length) return { conflicts };
+    return { merged: rotated, conflicts };
+  }
+
+  const mergedItems = mergeRecords(base?.items, ours.items, theirs.items, (ourItem, theirItem) => {
+    return pickNewerItem(ourItem, theirItem);
+  });
+  for (const itemKey of mergedItems.conflictKeys) {
+    const deletedOnOneSide = !ours.items[itemKey] || !theirs.items[itemKey];
+    conflicts.push({
+      itemKey,
+      message: deletedOnOneSide ? 'deleted on one side and updated on the other' : 'updated on both sides',
+    });
+  }
+
+  // wrapped keys for the same vault key are all valid, so either side is fine for recipients
+  const mergedRecipients = mergeRecords(
+    base?.recipients,
+    ours.recipients,
+    theirs.recipients,
+    (ourRecipient, theirRecipient) => ourRecipient || theirRecipient,
+  );
+
+  const merged: VaultFile = {
+    ...ours,
+    // the newer format can still hold everything from the older one
+    version: compareVersions(theirs.version, ours.version) > 0 ? theirs.version : ours.version,
+    items: mergedItems.merged,
+  };
+  if (_.isEmpty(mergedRecipients.merged)) delete merged.recipients;
+  else merged.recipients = mergedRecipients.merged;
+
+  return { merged, conflicts };
+}
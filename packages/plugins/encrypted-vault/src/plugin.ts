@@ -1,10 +1,8 @@
 import { execSync } from 'child_process';
 import { fileURLToPath } from 'url';
 import path from 'path';
-import fs from 'node:fs';
 import crypto from 'node:crypto';
 import _ from 'lodash-es';
-import { parse as parseJSONC } from 'jsonc-parser';
 import {
   DmnoPlugin,
   ResolutionError,
@@ -12,12 +10,11 @@ import {
   PluginInputValue,
   DmnoService,
 } from 'dmno';
-import {
-  decrypt, encrypt, generateEncryptionKeyString, importDmnoEncryptionKeyString,
-} from '@dmno/encryption-lib';
+import { decrypt, encrypt, generateEncryptionKeyString } from '@dmno/encryption-lib';
 import { name as thisPackageName, version as thisPackageVersion } from '../package.json';
 
 import { EncryptedVaultTypes } from './data-types';
+import { getVaultFilePath, importVaultKey, readVaultFile } from './lib/vault-file';
 
 const __dirname = globalThis.__dirname ?? import.meta.dirname;
 const __filename = globalThis.__filename ?? import.meta.filename;
@@ -54,13 +51,14 @@ export class EncryptedVaultDmnoPlugin extends DmnoPlugin {
     inputValues: {
       name?: string,
       key: PluginInputValue,
+      environment?: PluginInputValue,
     },
   ) {
     super(instanceId, {
       inputSchema: {
         key: {
-          description: 'the key to use to encrypt/decrypt this vault file',
-          extends: EncryptedVaultTypes.encryptionKey,
+          description: 'the key to use to encrypt/decrypt this vault file, or a recipient private key',
+          extends: EncryptedVaultTypes.vaultKey,
           required: true,
           value: inputValues.key,
         },
@@ -69,6 +67,11 @@ export class EncryptedVaultDmnoPlugin extends DmnoPlugin {
           extends: 'string',
           value: inputValues.name,
         },
+        environment: {
+          description: 'the current environment (usually wired to DMNO_ENV) - if set, each environment uses a separate vault file and key',
+          extends: 'string',
+          value: inputValues.environment,
+        },
       },
     });
   }
@@ -87,7 +90,7 @@ export class EncryptedVaultDmnoPlugin extends DmnoPlugin {
 
 
   private vaultFilePath?: string;
-  private vaultFileLoaded = false;
+  private vaultFileLoadingPromise?: Promise<void>;
   private vaultItems: Record<string, EncryptedVaultItem> = {};
   private async loadVaultFile() {
     const parentDmnoService = this.internalEntity?.parentEntity;
@@ -104,13 +107,18 @@ export class EncryptedVaultDmnoPlugin extends DmnoPlugin {
       throw new Error('encryption key must be set');
     }
 
-    const importedKey = await importDmnoEncryptionKeyString(encrpytionKey as string);
+    this.vaultFilePath = getVaultFilePath(
+      servicePath as string,
+      (this.inputValue('name') as string | undefined) || 'default',
+      this.inputValue('environment') as string | undefined,
+    );
+    const vaultFileObj = await readVaultFile(this.vaultFilePath);
+
+    // the key may be the vault key itself, or a recipient private key which unwraps it
+    const importedKey = await importVaultKey(vaultFileObj, encrpytionKey as string);
     this.vaultKey = importedKey.key;
     this.vaultKeyName = importedKey.keyName;
 
-    this.vaultFilePath = `${servicePath}/.dmno/${this.inputValue('name') || 'default'}.vault.json`;
-    const vaultFileRaw = await fs.promises.readFile(this.vaultFilePath, 'utf-8');
-    const vaultFileObj = parseJSONC(vaultFileRaw.toString());
     for (const key in vaultFileObj.items) {
       const vaultFileItem = vaultFileObj.items[key];
       const [serviceName, path] = key.split('!');
@@ -141,7 +149,9 @@ export class EncryptedVaultDmnoPlugin extends DmnoPlugin {
       label: 'encrypted vault item',
       resolve: async (ctx) => {
         // probably should be triggered by some lifecycle hook rather than here?
-        if (!this.vaultFileLoaded) await this.loadVaultFile();
+        // items may be resolved in parallel, so they all share a single load
+        this.vaultFileLoadingPromise ||= this.loadVaultFile();
+        await this.vaultFileLoadingPromise;
 
 
         // console.log(ctx);